@@ -1,88 +1,570 @@
-import React, { useState, useCallback, DragEvent, useRef } from 'react';
-import { generateImages, refineImage } from './services/geminiService';
+import React, { useState, useCallback, useEffect, useMemo, DragEvent, useRef } from 'react';
+import { generateImages, generateKitImages, refineImage, REFINEMENT_VARIATION_COUNT, VariationEvent } from './services/geminiService';
 import { Loader } from './components/Loader';
-import { UploadIcon, RetryIcon, StartOverIcon, DownloadIcon, WarningIcon, EditIcon, BackIcon, VariationIcon } from './components/Icons';
+import { BatchQueue } from './components/BatchQueue';
+import { ModeManager } from './components/ModeManager';
+import { BrandKitEditor } from './components/BrandKitEditor';
+import { ExportDialog } from './components/ExportDialog';
+import { HistoryGallery } from './components/HistoryGallery';
+import { CompareSlider } from './components/CompareSlider';
+import { VersionTreePanel } from './components/VersionTreePanel';
+import { MaskEditor } from './components/MaskEditor';
+import { ImagePrepEditor } from './components/ImagePrepEditor';
+import { ReferencePhotos } from './components/ReferencePhotos';
+import { PRODUCT_ANGLES } from './services/angleService';
+import { KitSetup, MIN_KIT_PRODUCTS, buildKitPrompt, createKitSetup } from './services/kitService';
+import { KitBuilder } from './components/KitBuilder';
+import { OverlayLayers } from './components/OverlayLayers';
+import { OverlayPanel } from './components/OverlayPanel';
+import { OverlayLayer, renderOverlay } from './services/overlayService';
+import { UsageDashboard } from './components/UsageDashboard';
+import { CatalogPanel } from './components/CatalogPanel';
+import { CameraCapture } from './components/CameraCapture';
+import { CatalogProduct, addCatalogImage, findProductForFile, loadCatalogProducts } from './services/catalogService';
+import { formatUsd, getBudgetStatus } from './services/usageService';
+import { FidelityBadge } from './components/FidelityBadge';
+import { ComplianceBadge } from './components/ComplianceBadge';
+import { ResolutionBadge } from './components/ResolutionBadge';
+import { ImageResolution, measureResolution } from './services/upscaleService';
+import { ComplianceReport, analyzeComplianceBatch, fixCompliance, isComplianceMode } from './services/complianceService';
+import { FidelitySettingsPanel } from './components/FidelitySettingsPanel';
+import { GenerationSettingsPanel } from './components/GenerationSettingsPanel';
+import { GenerationSettings, applyGenerationSettings, loadGenerationSettings, saveGenerationSettings } from './services/generationSettingsService';
+import { useBatchQueue } from './hooks/useBatchQueue';
+import { useOfflineQueue } from './hooks/useOfflineQueue';
+import { useGenerationModes } from './hooks/useGenerationModes';
+import { useVersionTree } from './hooks/useVersionTree';
+import { usePromptPresets } from './hooks/usePromptPresets';
+import { RefinementPresets } from './components/RefinementPresets';
+import { composeRefinementPrompt } from './services/presetService';
+import { getProcessingMessage, renderModePrompt } from './services/modeService';
+import { HistoryEntry, recordHistory } from './services/historyService';
+import { isBrandKitActive, loadBrandKit } from './services/brandKitService';
+import { downloadDataUrl, getBaseFileName } from './services/downloadService';
+import { getExtension, getMimeTypeFromDataUrl } from './services/exportService';
+import { getVersionLabel } from './services/versionTree';
+import { readFileAsDataUrl } from './services/imageUtils';
+import { FidelityReport, ensureFidelity, loadFidelitySettings } from './services/fidelityService';
+import { isAbortError } from './services/requestPipeline';
+import { clearShareTargetParam, isShareTargetLaunch, takeSharedFiles } from './services/pwaService';
+import { PreparationOptions, createPreparationOptions, prepareImageFile } from './services/preprocessService';
+import { ImageGenerationError, getErrorDetails, getSafetyReasonLabel, toImageGenerationError } from './services/imageErrors';
+import { LANGUAGES, Language, getPromptTexts, interpolate } from './services/i18n';
+import { useTranslation } from './hooks/useTranslation';
+import { UploadIcon, SparklesIcon, RetryIcon, StartOverIcon, DownloadIcon, WarningIcon, EditIcon, BackIcon, VariationIcon, SettingsIcon, SwatchIcon, HistoryIcon, UndoIcon, RedoIcon, CompareIcon, BrushIcon, ShieldCheckIcon, GiftIcon, TagIcon, ChartBarIcon, AdjustmentsIcon, ShoppingBagIcon, CameraIcon, CloudOffIcon } from './components/Icons';
 
-type AppState = 'IDLE' | 'PROCESSING' | 'SUCCESS' | 'EDITING' | 'ERROR';
-export type GenerationMode = 'ECOMMERCE' | 'SOCIAL';
+type AppState = 'IDLE' | 'CAMERA' | 'PREPARING' | 'KIT' | 'PROCESSING' | 'SUCCESS' | 'EDITING' | 'ERROR' | 'BATCH';
+
+interface FailedRequest {
+  error: ImageGenerationError;
+  action: 'generation' | 'refinement' | 'kit';
+  prompt?: string;
+}
+
+interface ProgressSlot {
+  status: 'pending' | 'done' | 'failed';
+  url?: string;
+}
+
+const getGridShape = (count: number) => {
+  const columns = Math.max(1, Math.ceil(Math.sqrt(count)));
+  return { columns, rows: Math.max(1, Math.ceil(count / columns)) };
+};
+
+const getGridStyle = (count: number): React.CSSProperties => {
+  const { columns, rows } = getGridShape(count);
+  return {
+    gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+    gridTemplateRows: `repeat(${rows}, minmax(0, 1fr))`,
+  };
+};
 
 export default function App() {
+  const { t, language, changeLanguage } = useTranslation();
   const [originalFile, setOriginalFile] = useState<File | null>(null);
-  const [generatedImageUrls, setGeneratedImageUrls] = useState<string[]>([]);
-  const [selectedImageUrl, setSelectedImageUrl] = useState<string | null>(null);
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [referenceFiles, setReferenceFiles] = useState<File[]>([]);
+  const [angleSet, setAngleSet] = useState<boolean>(false);
+  const [kit, setKit] = useState<KitSetup>(createKitSetup);
+  const [activeKit, setActiveKit] = useState<KitSetup | null>(null);
+  const [preparation, setPreparation] = useState<PreparationOptions>(createPreparationOptions);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [isMasking, setIsMasking] = useState<boolean>(false);
+  const [maskDataUrl, setMaskDataUrl] = useState<string | null>(null);
+  const [fidelityReports, setFidelityReports] = useState<Record<string, FidelityReport>>({});
+  const [complianceReports, setComplianceReports] = useState<Record<string, ComplianceReport>>({});
+  const [isFixingCompliance, setIsFixingCompliance] = useState<boolean>(false);
+  const [resolutions, setResolutions] = useState<Record<string, ImageResolution>>({});
+  const [isFidelitySettingsOpen, setIsFidelitySettingsOpen] = useState<boolean>(false);
+  const [generationSettings, setGenerationSettings] = useState<GenerationSettings>(loadGenerationSettings);
+  const [isGenerationSettingsOpen, setIsGenerationSettingsOpen] = useState<boolean>(false);
+  const [progressSlots, setProgressSlots] = useState<ProgressSlot[]>([]);
+  const [failedVariationCount, setFailedVariationCount] = useState<number>(0);
   const [appState, setAppState] = useState<AppState>('IDLE');
   const [error, setError] = useState<string | null>(null);
+  const [failure, setFailure] = useState<FailedRequest | null>(null);
   const [isDragging, setIsDragging] = useState<boolean>(false);
-  const [generationMode, setGenerationMode] = useState<GenerationMode>('ECOMMERCE');
+  const [generationModeId, setGenerationModeId] = useState<string>('ECOMMERCE');
+  const [isModeManagerOpen, setIsModeManagerOpen] = useState<boolean>(false);
+  const [isBrandKitOpen, setIsBrandKitOpen] = useState<boolean>(false);
+  const [isExportOpen, setIsExportOpen] = useState<boolean>(false);
+  const [isUsageOpen, setIsUsageOpen] = useState<boolean>(false);
+  const [isCatalogOpen, setIsCatalogOpen] = useState<boolean>(false);
+  const [catalogProducts, setCatalogProducts] = useState<CatalogProduct[]>(loadCatalogProducts);
+  const [productSku, setProductSku] = useState<string | null>(null);
+  const [approvedUrls, setApprovedUrls] = useState<string[]>([]);
+  const [exportImageUrl, setExportImageUrl] = useState<string | null>(null);
+  const [overlayLayers, setOverlayLayers] = useState<OverlayLayer[]>([]);
+  const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null);
+  const [isOverlayEditing, setIsOverlayEditing] = useState<boolean>(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState<boolean>(false);
+  const [brandKitActive, setBrandKitActive] = useState<boolean>(() => isBrandKitActive(loadBrandKit()));
   const [editPrompt, setEditPrompt] = useState('');
+  const [selectedPresetIds, setSelectedPresetIds] = useState<string[]>([]);
   const [processingMessage, setProcessingMessage] = useState('');
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const seedsRef = useRef<Map<string, number>>(new Map());
+  const prepSourceRef = useRef<HTMLCanvasElement | null>(null);
+  const batch = useBatchQueue();
+  const offline = useOfflineQueue();
+  const isFlushingOfflineRef = useRef<boolean>(false);
+  // Offline items currently in the batch; they go back to the offline queue if the batch is cleared first.
+  const offlineBatchIdsRef = useRef<Set<string>>(new Set());
+  const { modes, saveMode, duplicateMode, deleteMode } = useGenerationModes();
+  const selectedMode = modes.find(mode => mode.id === generationModeId) ?? modes[0];
+  const generationMode = useMemo(() => applyGenerationSettings(selectedMode, generationSettings), [selectedMode, generationSettings]);
+  const refinementCount = generationSettings.variationCount ?? REFINEMENT_VARIATION_COUNT;
+  const versions = useVersionTree();
+  const { presets, savePreset, deletePreset, resetPresets } = usePromptPresets();
+  const selectedPresets = presets.filter(preset => selectedPresetIds.includes(preset.id));
+  const composedPrompt = composeRefinementPrompt(selectedPresets, editPrompt);
+  const selectedImageUrl = versions.selectedNode?.imageUrl ?? null;
+  const selectedSeed = versions.selectedNode?.seed;
+
+  useEffect(() => {
+    setMaskDataUrl(null);
+  }, [selectedImageUrl]);
+
+  // The model doesn't always return the 2048px the prompts ask for, so every result shows what actually came back.
+  const gridKey = versions.gridNodes.map(node => node.id).join(',');
+  useEffect(() => {
+    const pending = versions.gridNodes.map(node => node.imageUrl).filter(url => !resolutions[url]);
+    if (pending.length === 0) return;
+    Promise.all(pending.map(url => measureResolution(url).then(resolution => [url, resolution] as const)))
+      .then(measured => setResolutions(prev => ({ ...prev, ...Object.fromEntries(measured) })))
+      .catch(err => console.error("Não foi possível medir a resolução:", err));
+  }, [gridKey]);
+
+  // Result tiles take the shape of what came back, or of the requested aspect ratio until it is measured.
+  const mainAspectRatio = useMemo(() => {
+    const tileRatio = (resolution: ImageResolution | undefined) => {
+      if (resolution) return resolution.width / resolution.height;
+      const [width, height] = generationMode.aspectRatio.split(':').map(Number);
+      return width / height;
+    };
+    if (appState === 'EDITING') {
+      return tileRatio(selectedImageUrl ? resolutions[selectedImageUrl] : undefined);
+    }
+    if (appState === 'PROCESSING' || appState === 'SUCCESS') {
+      const count = appState === 'SUCCESS' ? versions.gridNodes.length : progressSlots.length;
+      const firstUrl = appState === 'SUCCESS' ? versions.gridNodes[0]?.imageUrl : undefined;
+      const { columns, rows } = getGridShape(count);
+      return tileRatio(firstUrl ? resolutions[firstUrl] : undefined) * columns / rows;
+    }
+    return 1;
+  }, [appState, generationMode.aspectRatio, selectedImageUrl, resolutions, versions.gridNodes, progressSlots.length]);
+
+  const recordSeeds = useCallback((event: VariationEvent) => {
+    if (event.status === 'done') {
+      event.urls.forEach(url => seedsRef.current.set(url, event.seed));
+    }
+  }, []);
+
+  const getSeeds = (urls: string[]) => urls.map(url => seedsRef.current.get(url));
+
+  const startRequest = useCallback((count: number) => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    seedsRef.current = new Map();
+    setProgressSlots(Array.from({ length: count }, () => ({ status: 'pending' })));
+    setFailedVariationCount(0);
+    return {
+      signal: controller.signal,
+      onVariation: (event: VariationEvent) => {
+        recordSeeds(event);
+        setProgressSlots(prev => prev.map((slot, index) => {
+          if (index !== event.index) return slot;
+          return event.status === 'done' ? { status: 'done', url: event.urls[0] } : { status: 'failed' };
+        }));
+        if (event.status === 'failed') {
+          setFailedVariationCount(count => count + 1);
+        }
+      },
+    };
+  }, [recordSeeds]);
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const verifyFidelity = useCallback(async (originalUrl: string, resultUrls: string[], regenerate: (count: number) => Promise<string[]>): Promise<string[]> => {
+    const settings = loadFidelitySettings();
+    if (!settings.enabled) return resultUrls;
+
+    setProcessingMessage(t('app.checkingFidelity'));
+    try {
+      const { urls, reports } = await ensureFidelity(originalUrl, resultUrls, settings, regenerate);
+      setFidelityReports(prev => {
+        const next = { ...prev };
+        urls.forEach((url, index) => { next[url] = reports[index]; });
+        return next;
+      });
+      return urls;
+    } catch (err) {
+      console.error("Não foi possível verificar a fidelidade:", err);
+      return resultUrls;
+    }
+  }, [t]);
 
-  const handleInitialGeneration = useCallback(async (file: File) => {
+  // Runs in the background so the results grid shows up without waiting for the analysis.
+  const checkCompliance = useCallback((urls: string[]) => {
+    if (!isComplianceMode(generationMode.id)) return;
+    analyzeComplianceBatch(urls, generationMode.aspectRatio)
+      .then(reports => setComplianceReports(prev => {
+        const next = { ...prev };
+        urls.forEach((url, index) => { next[url] = reports[index]; });
+        return next;
+      }))
+      .catch(err => console.error("Não foi possível verificar o padrão de marketplace:", err));
+  }, [generationMode]);
+
+  const handleInitialGeneration = useCallback(async (file: File, references: File[] = [], withAngleSet = false) => {
     setAppState('PROCESSING');
-    setProcessingMessage(generationMode === 'ECOMMERCE' ? 'Recriando com perfeição...' : 'Criando suas fotos ambiente...');
+    setProcessingMessage(getProcessingMessage(generationMode));
     setError(null);
-    setGeneratedImageUrls([]);
-    setSelectedImageUrl(null);
+    setFailure(null);
+    setCompareId(null);
 
     try {
-      const resultDataUrls = await generateImages(file, generationMode);
-      setGeneratedImageUrls(resultDataUrls);
+      const originalUrl = await readFileAsDataUrl(file);
+      versions.reset(originalUrl);
+      const files = [file, ...references];
+      const request = startRequest(withAngleSet ? PRODUCT_ANGLES.length : generationMode.variationCount);
+      const generatedUrls = await generateImages(files, generationMode, { ...request, angleSet: withAngleSet });
+      // Back and detail shots are expected to differ from the front photo, so angle sets skip the fidelity check.
+      const resultDataUrls = withAngleSet
+        ? generatedUrls
+        : await verifyFidelity(originalUrl, generatedUrls, count =>
+            generateImages(files, { ...generationMode, variationCount: count }, { signal: request.signal, onVariation: recordSeeds })
+          );
+      versions.addVariations(resultDataUrls, withAngleSet ? `${generationMode.label} · ${t('app.anglesSuffix')}` : generationMode.label, undefined, getSeeds(resultDataUrls));
+      checkCompliance(resultDataUrls);
       setAppState('SUCCESS');
+      recordHistory({
+        kind: 'generation',
+        sku: productSku,
+        productName: getBaseFileName(file),
+        originalFile: file,
+        modeId: generationMode.id,
+        modeLabel: generationMode.label,
+        prompt: renderModePrompt(generationMode),
+        sourceImageUrl: null,
+        resultUrls: resultDataUrls,
+        seeds: getSeeds(resultDataUrls),
+      });
     } catch (err) {
+      if (isAbortError(err)) {
+        // A newer request may already own the screen; only the cancelled one resets it.
+        if (abortControllerRef.current?.signal.aborted) {
+          versions.reset(null);
+          setOriginalFile(null);
+          setAppState('IDLE');
+        }
+        return;
+      }
       console.error(err);
-      setError('A IA não conseguiu processar a imagem. Por favor, tente novamente ou use uma foto diferente.');
+      setFailure({ error: toImageGenerationError(err), action: 'generation' });
       setAppState('ERROR');
     }
-  }, [generationMode]);
+  }, [generationMode, versions.reset, versions.addVariations, verifyFidelity, startRequest, recordSeeds, productSku, checkCompliance, t]);
 
   const handleRefinement = useCallback(async (prompt: string) => {
-    if (!selectedImageUrl) return;
+    const sourceNode = versions.selectedNode;
+    if (!sourceNode) return;
+    const selectedImageUrl = sourceNode.imageUrl;
 
     setAppState('PROCESSING');
-    setProcessingMessage('Refinando sua imagem...');
+    setProcessingMessage(t('app.refining'));
     setError(null);
+    setFailure(null);
     
     try {
-      const resultDataUrls = await refineImage(selectedImageUrl, prompt);
-      setGeneratedImageUrls(resultDataUrls);
-      setSelectedImageUrl(null);
+      const request = startRequest(refinementCount);
+      const refinedUrls = await refineImage(selectedImageUrl, prompt, { maskDataUrl, count: refinementCount, ...request });
+      // Kit scenes are compared against a single product photo, so they skip the fidelity check.
+      const resultDataUrls = versions.tree && !activeKit
+        ? await verifyFidelity(versions.tree.nodes[versions.tree.rootId].imageUrl, refinedUrls, count =>
+            refineImage(selectedImageUrl, prompt, { maskDataUrl, count, signal: request.signal, onVariation: recordSeeds })
+          )
+        : refinedUrls;
+      versions.addVariations(resultDataUrls, prompt, sourceNode.id, getSeeds(resultDataUrls));
+      checkCompliance(resultDataUrls);
+      setCompareId(null);
+      setIsMasking(false);
       setEditPrompt('');
+      setSelectedPresetIds([]);
       setAppState('SUCCESS');
+      if (originalFile) {
+        recordHistory({
+          kind: 'refinement',
+          sku: productSku,
+          productName: getBaseFileName(originalFile),
+          originalFile,
+          modeId: generationMode.id,
+          modeLabel: generationMode.label,
+          prompt,
+          sourceImageUrl: selectedImageUrl,
+          resultUrls: resultDataUrls,
+          seeds: getSeeds(resultDataUrls),
+        });
+      }
     } catch (err) {
+      if (isAbortError(err)) {
+        if (abortControllerRef.current?.signal.aborted) setAppState('EDITING');
+        return;
+      }
       console.error(err);
-      setError('A IA não conseguiu refinar a imagem. Por favor, tente novamente.');
-      setAppState('ERROR'); // Or back to EDITING?
+      setFailure({ error: toImageGenerationError(err), action: 'refinement', prompt });
+      setAppState('ERROR');
     }
-  }, [selectedImageUrl]);
+  }, [versions.selectedNode, versions.tree, versions.addVariations, originalFile, generationMode, maskDataUrl, verifyFidelity, startRequest, recordSeeds, activeKit, refinementCount, productSku, checkCompliance, t]);
 
+  const handleKitGeneration = useCallback(async (preparedKit: KitSetup) => {
+    const heroFile = preparedKit.files[preparedKit.heroIndex];
+    setAppState('PROCESSING');
+    setProcessingMessage(getProcessingMessage(generationMode));
+    setError(null);
+    setFailure(null);
+    setCompareId(null);
+    setOriginalFile(heroFile);
 
-  const handleStartOver = () => {
-    generatedImageUrls.forEach(url => URL.revokeObjectURL(url));
+    try {
+      versions.reset(await readFileAsDataUrl(heroFile));
+      const request = startRequest(generationMode.variationCount);
+      const resultUrls = await generateKitImages(preparedKit, generationMode, request);
+      versions.addVariations(resultUrls, `${generationMode.label} · ${t('app.kitSuffix')}`, undefined, getSeeds(resultUrls));
+      checkCompliance(resultUrls);
+      setAppState('SUCCESS');
+      recordHistory({
+        kind: 'generation',
+        sku: productSku,
+        productName: preparedKit.name.trim() || getBaseFileName(heroFile),
+        originalFile: heroFile,
+        modeId: generationMode.id,
+        modeLabel: generationMode.label,
+        prompt: renderModePrompt(generationMode) + buildKitPrompt(preparedKit),
+        sourceImageUrl: null,
+        resultUrls,
+        seeds: getSeeds(resultUrls),
+      });
+    } catch (err) {
+      if (isAbortError(err)) {
+        if (abortControllerRef.current?.signal.aborted) {
+          versions.reset(null);
+          setAppState('KIT');
+        }
+        return;
+      }
+      console.error(err);
+      setFailure({ error: toImageGenerationError(err), action: 'kit' });
+      setAppState('ERROR');
+    }
+  }, [generationMode, versions.reset, versions.addVariations, startRequest, productSku, checkCompliance, t]);
 
+
+  const handleStartOver = () => {
+    abortControllerRef.current?.abort();
+    setProgressSlots([]);
+    setFailedVariationCount(0);
+    setPendingFile(null);
+    setReferenceFiles([]);
+    setKit(createKitSetup());
+    setActiveKit(null);
+    prepSourceRef.current = null;
     setOriginalFile(null);
-    setGeneratedImageUrls([]);
-    setSelectedImageUrl(null);
+    versions.reset(null);
+    setCompareId(null);
+    setIsMasking(false);
+    setIsOverlayEditing(false);
+    setOverlayLayers([]);
+    setSelectedLayerId(null);
+    setFidelityReports({});
+    setComplianceReports({});
+    setResolutions({});
     setError(null);
+    setFailure(null);
     setAppState('IDLE');
     setEditPrompt('');
+    setSelectedPresetIds([]);
+    setProductSku(null);
+    setApprovedUrls([]);
+    batch.clear();
+    offline.release([...offlineBatchIdsRef.current]);
+    offlineBatchIdsRef.current.clear();
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
-  const handleFileSelect = useCallback((file: File | null) => {
-    if (file && file.type.startsWith('image/')) {
+  const handleRetry = () => {
+    if (failure?.action === 'refinement' && failure.prompt) {
+      handleRefinement(failure.prompt);
+    } else if (failure?.action === 'kit' && activeKit) {
+      handleKitGeneration(activeKit);
+    } else if (originalFile) {
+      handleInitialGeneration(originalFile, referenceFiles, angleSet);
+    }
+  };
+
+  const handleChooseAnotherPhoto = () => {
+    handleStartOver();
+    fileInputRef.current?.click();
+  };
+
+  // Reference shots and angle sets need the single-photo flow, so only the main photo waits in the queue.
+  const queueOffline = useCallback(async (files: File[]) => {
+    try {
+      await offline.queue(files, generationMode);
+    } catch (err) {
+      console.error("Não foi possível guardar a foto na fila offline:", err);
+      setError(t('offline.queueFailed'));
+    }
+    setAppState('IDLE');
+  }, [offline.queue, generationMode, t]);
+
+  const handleFileSelect = useCallback((files: File[]) => {
+    const imageFiles = files.filter(file => file.type.startsWith('image/'));
+    if (imageFiles.length === 1) {
       handleStartOver();
-      setOriginalFile(file);
-      handleInitialGeneration(file);
-    } else if (file) {
-      setError('Por favor, selecione um arquivo de imagem válido (JPEG, PNG, WEBP, etc.).');
+      setPendingFile(imageFiles[0]);
+      setProductSku(findProductForFile(catalogProducts, getBaseFileName(imageFiles[0]))?.sku ?? null);
+      setPreparation(createPreparationOptions());
+      setAppState('PREPARING');
+    } else if (imageFiles.length > 1) {
+      handleStartOver();
+      setProcessingMessage(t('app.preparingPhotos'));
+      setAppState('PROCESSING');
+      const options = createPreparationOptions();
+      // A photo that can't be prepared is queued as-is so its item reports the error.
+      Promise.all(imageFiles.map(file => prepareImageFile(file, options).catch(() => file))).then(async preparedFiles => {
+        if (!offline.isOnline) {
+          await queueOffline(preparedFiles);
+          return;
+        }
+        batch.enqueue(preparedFiles, generationMode);
+        setAppState('BATCH');
+      });
+    } else if (files.length > 0) {
+      setError(t('app.invalidFile'));
       setAppState('IDLE');
     }
-  }, [handleInitialGeneration]);
+  }, [batch.enqueue, generationMode, catalogProducts, offline.isOnline, queueOffline, t]);
+
+  const handlePreparationError = (err: unknown) => {
+    console.error(err);
+    setPendingFile(null);
+    setError(toImageGenerationError(err).message);
+    setAppState('IDLE');
+  };
+
+  const handleConfirmKit = async () => {
+    try {
+      const options = createPreparationOptions();
+      const files = await Promise.all(kit.files.map(file => prepareImageFile(file, options)));
+      const preparedKit = { ...kit, files };
+      setActiveKit(preparedKit);
+      handleKitGeneration(preparedKit);
+    } catch (err) {
+      console.error(err);
+      setError(toImageGenerationError(err).message);
+    }
+  };
+
+  const handleConfirmPreparation = async () => {
+    if (!pendingFile) return;
+    try {
+      const preparedFile = await prepareImageFile(pendingFile, preparation, prepSourceRef.current ?? undefined);
+      const referenceOptions = { ...createPreparationOptions(), maxEdge: preparation.maxEdge };
+      const preparedReferences = await Promise.all(referenceFiles.map(file => prepareImageFile(file, referenceOptions)));
+      setPendingFile(null);
+      prepSourceRef.current = null;
+      if (!offline.isOnline) {
+        await queueOffline([preparedFile]);
+        return;
+      }
+      setOriginalFile(preparedFile);
+      setReferenceFiles(preparedReferences);
+      handleInitialGeneration(preparedFile, preparedReferences, angleSet);
+    } catch (err) {
+      handlePreparationError(err);
+    }
+  };
+
+  // A single shared photo skips the preparation step and goes straight to generation with the default settings.
+  const handleSharedFiles = async (files: File[]) => {
+    const imageFiles = files.filter(file => file.type.startsWith('image/'));
+    if (imageFiles.length !== 1) {
+      handleFileSelect(imageFiles);
+      return;
+    }
+    setProductSku(findProductForFile(catalogProducts, getBaseFileName(imageFiles[0]))?.sku ?? null);
+    try {
+      const preparedFile = await prepareImageFile(imageFiles[0], createPreparationOptions());
+      if (!offline.isOnline) {
+        await queueOffline([preparedFile]);
+        return;
+      }
+      setOriginalFile(preparedFile);
+      handleInitialGeneration(preparedFile);
+    } catch (err) {
+      handlePreparationError(err);
+    }
+  };
+
+  useEffect(() => {
+    if (!isShareTargetLaunch()) return;
+    clearShareTargetParam();
+    takeSharedFiles().then(files => {
+      if (files.length > 0) handleSharedFiles(files);
+    });
+  }, []);
+
+  // Photos queued while offline go through the batch queue once the connection is back.
+  useEffect(() => {
+    if (!offline.isOnline || offline.items.length === 0 || isFlushingOfflineRef.current) return;
+    if (appState !== 'IDLE' && appState !== 'BATCH') return;
+    isFlushingOfflineRef.current = true;
+    offline.take()
+      .then(items => {
+        if (items.length === 0) return;
+        items.forEach(item => offlineBatchIdsRef.current.add(item.id));
+        items.forEach(item => batch.enqueue([item.file], item.mode, () => {
+          offlineBatchIdsRef.current.delete(item.id);
+          offline.complete(item.id).catch(err => console.error("Não foi possível remover a foto da fila offline:", err));
+        }));
+        setAppState('BATCH');
+      })
+      .catch(err => console.error("Não foi possível enviar a fila offline:", err))
+      .finally(() => { isFlushingOfflineRef.current = false; });
+  }, [offline.isOnline, offline.items.length, offline.take, offline.complete, appState, batch.enqueue]);
+
+  const handleCameraCapture = (file: File) => {
+    handleFileSelect([file]);
+  };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    handleFileSelect(e.target.files?.[0] ?? null);
+    handleFileSelect(Array.from(e.target.files ?? []));
     e.target.value = '';
   };
 
@@ -91,7 +573,7 @@ export default function App() {
     e.stopPropagation();
     setIsDragging(false);
     if (appState === 'IDLE') {
-      handleFileSelect(e.dataTransfer.files?.[0] ?? null);
+      handleFileSelect(Array.from(e.dataTransfer.files ?? []));
     }
   };
 
@@ -112,31 +594,145 @@ export default function App() {
     }
   };
 
-  const handleDownload = () => {
-    if (selectedImageUrl) {
-      const link = document.createElement('a');
-      link.href = selectedImageUrl;
-      const originalName = originalFile?.name.split('.').slice(0, -1).join('.') || 'produto';
-      link.download = `${originalName}-${generationMode.toLowerCase()}-editado.jpeg`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+  const handleDownload = async () => {
+    if (!selectedImageUrl) return;
+    try {
+      setExportImageUrl(overlayLayers.length > 0 ? await renderOverlay(selectedImageUrl, overlayLayers) : null);
+    } catch (err) {
+      console.error("Não foi possível aplicar os textos e selos:", err);
+      setExportImageUrl(null);
     }
+    setIsExportOpen(true);
+  };
+
+  const handleDownloadWinners = () => {
+    batch.items.forEach(item => {
+      if (item.winnerUrl) {
+        const extension = getExtension(getMimeTypeFromDataUrl(item.winnerUrl));
+        downloadDataUrl(item.winnerUrl, `${getBaseFileName(item.file)}-${item.mode.id.toLowerCase()}.${extension}`);
+      }
+    });
   };
   
-  const handleSelectImage = (imageUrl: string) => {
-    setSelectedImageUrl(imageUrl);
+  const handleOpenHistoryEntry = async (entry: HistoryEntry, imageUrl: string) => {
+    const originalImageUrl = await readFileAsDataUrl(entry.originalFile);
+    handleStartOver();
+    setIsHistoryOpen(false);
+    setOriginalFile(entry.originalFile);
+    setProductSku(entry.sku ?? null);
+    versions.restore(
+      originalImageUrl,
+      entry.resultUrls,
+      entry.kind === 'refinement' ? entry.prompt : entry.modeLabel,
+      imageUrl,
+      entry.sourceImageUrl,
+      entry.seeds,
+    );
+    if (modes.some(mode => mode.id === entry.modeId)) {
+      setGenerationModeId(entry.modeId);
+    }
+    setAppState('EDITING');
+  };
+
+  const handleTogglePreset = (id: string) => {
+    setSelectedPresetIds(prev => prev.includes(id) ? prev.filter(presetId => presetId !== id) : [...prev, id]);
+  };
+
+  const handleFixCompliance = async () => {
+    const sourceNode = versions.selectedNode;
+    if (!sourceNode) return;
+    setIsFixingCompliance(true);
+    try {
+      const fixedUrl = await fixCompliance(sourceNode.imageUrl, generationMode.aspectRatio);
+      versions.addVariations([fixedUrl], t('app.complianceFix'), sourceNode.id);
+      checkCompliance([fixedUrl]);
+      setCompareId(null);
+      setAppState('SUCCESS');
+    } catch (err) {
+      console.error("Não foi possível corrigir a imagem:", err);
+      setError(t('app.complianceFixError'));
+    } finally {
+      setIsFixingCompliance(false);
+    }
+  };
+
+  const handleApproveForCatalog = async () => {
+    if (!selectedImageUrl || !productSku) return;
+    try {
+      const imageUrl = overlayLayers.length > 0 ? await renderOverlay(selectedImageUrl, overlayLayers) : selectedImageUrl;
+      await addCatalogImage(productSku, imageUrl);
+      setApprovedUrls(prev => [...prev, selectedImageUrl]);
+    } catch (err) {
+      console.error("Não foi possível aprovar a foto para o catálogo:", err);
+      setError(t('app.approveError'));
+    }
+  };
+
+  const handleFixSeed = (seed: number) => {
+    setGenerationSettings(saveGenerationSettings({ ...generationSettings, seed }));
+  };
+
+  const handleSelectImage = (nodeId: string) => {
+    versions.select(nodeId);
     setAppState('EDITING');
   }
   
   const handleBackToGrid = () => {
-    setSelectedImageUrl(null);
+    versions.deselect();
+    setCompareId(null);
     setAppState('SUCCESS');
   }
 
+  const handleToggleCompare = () => {
+    setCompareId(compareId ? null : versions.tree?.rootId ?? null);
+    setIsMasking(false);
+    setIsOverlayEditing(false);
+  }
+
+  const handleToggleMasking = () => {
+    setIsMasking(!isMasking);
+    setMaskDataUrl(null);
+    setCompareId(null);
+    setIsOverlayEditing(false);
+  }
+
+  const handleToggleOverlay = () => {
+    setIsOverlayEditing(!isOverlayEditing);
+    setSelectedLayerId(null);
+    setIsMasking(false);
+    setCompareId(null);
+  }
+
+  const handleMoveLayer = (id: string, x: number, y: number) => {
+    setOverlayLayers(layers => layers.map(layer => layer.id === id ? { ...layer, x, y } : layer));
+  }
+
+  const budgetStatus = getBudgetStatus();
+
   const renderMainModule = () => {
     switch (appState) {
       case 'PROCESSING':
+        if (progressSlots.some(slot => slot.status !== 'pending')) {
+          return (
+            <div className="relative w-full h-full">
+              <div className="grid gap-1 sm:gap-2 w-full h-full p-1 sm:p-2 bg-slate-200" style={getGridStyle(progressSlots.length)}>
+                {progressSlots.map((slot, index) => (
+                  <div key={index} className="relative w-full h-full rounded-lg overflow-hidden bg-white flex items-center justify-center">
+                    {slot.status === 'done' && <img src={slot.url} alt={t('app.variation', { index: index + 1 })} className="w-full h-full object-cover animate-fade-in" />}
+                    {slot.status === 'pending' && <Loader />}
+                    {slot.status === 'failed' && (
+                      <div className="flex flex-col items-center text-red-600 text-xs font-semibold p-2 text-center">
+                        <WarningIcon className="w-8 h-8 mb-1" />
+                        {t('batch.failed')}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+              <p className="absolute bottom-3 inset-x-0 mx-auto w-max max-w-full bg-white/90 rounded-full px-3 py-1 text-slate-600 text-xs font-medium shadow-sm">{processingMessage}</p>
+            </div>
+          );
+        }
         return (
           <div className="w-full h-full flex flex-col items-center justify-center text-center p-4">
             <Loader />
@@ -145,40 +741,91 @@ export default function App() {
         );
       case 'SUCCESS':
         return (
-          <div className="grid grid-cols-2 grid-rows-2 gap-1 sm:gap-2 w-full h-full p-1 sm:p-2 bg-slate-200">
-            {generatedImageUrls.map((url, index) => (
-              <button key={index} onClick={() => handleSelectImage(url)} className="relative w-full h-full rounded-lg overflow-hidden group focus:outline-none focus:ring-4 focus:ring-indigo-500 focus:ring-opacity-75">
-                <img src={url} alt={`Generated variation ${index + 1}`} className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-110" />
+          <div className="grid gap-1 sm:gap-2 w-full h-full p-1 sm:p-2 bg-slate-200" style={getGridStyle(versions.gridNodes.length)}>
+            {versions.gridNodes.map(({ id, imageUrl: url }, index) => (
+              <button key={id} onClick={() => handleSelectImage(id)} className="relative w-full h-full rounded-lg overflow-hidden group focus:outline-none focus:ring-4 focus:ring-indigo-500 focus:ring-opacity-75">
+                <img src={url} alt={t('app.variation', { index: index + 1 })} className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-110" />
+                {fidelityReports[url] && <FidelityBadge report={fidelityReports[url]} className="absolute top-2 left-2" />}
+                {complianceReports[url] && <ComplianceBadge report={complianceReports[url]} className="absolute top-2 right-2" />}
+                {resolutions[url] && <ResolutionBadge resolution={resolutions[url]} className="absolute bottom-2 left-2" />}
                 <div className="absolute inset-0 bg-black/40 flex flex-col items-center justify-center opacity-0 group-hover:opacity-100 group-focus:opacity-100 transition-opacity duration-300">
                   <EditIcon className="w-8 h-8 text-white mb-2" />
-                  <p className="text-white font-bold text-sm sm:text-base">Selecionar para Editar</p>
+                  <p className="text-white font-bold text-sm sm:text-base">{t('app.selectToEdit')}</p>
                 </div>
               </button>
             ))}
           </div>
         )
+      case 'PREPARING':
+        return pendingFile && (
+          <ImagePrepEditor
+            file={pendingFile}
+            options={preparation}
+            onChange={setPreparation}
+            onSourceReady={(source) => { prepSourceRef.current = source; }}
+            onError={handlePreparationError}
+          />
+        );
+      case 'CAMERA':
+        return <CameraCapture onCapture={handleCameraCapture} />;
+      case 'KIT':
+        return <KitBuilder kit={kit} onChange={setKit} />;
+      case 'BATCH':
+        return <BatchQueue items={batch.items} onRetry={batch.retry} onPickWinner={batch.pickWinner} />;
       case 'EDITING':
+        if (isMasking && selectedImageUrl) {
+          return <MaskEditor key={selectedImageUrl} imageUrl={selectedImageUrl} onChange={setMaskDataUrl} />;
+        }
+        if (compareId && versions.tree && versions.selectedNode && compareId !== versions.selectedNode.id) {
+          return (
+            <CompareSlider
+              beforeUrl={versions.tree.nodes[compareId].imageUrl}
+              afterUrl={versions.selectedNode.imageUrl}
+              beforeLabel={getVersionLabel(versions.tree, compareId)}
+              afterLabel={getVersionLabel(versions.tree, versions.selectedNode.id)}
+            />
+          );
+        }
+        if (selectedImageUrl && (isOverlayEditing || overlayLayers.length > 0)) {
+          return (
+            <OverlayLayers
+              imageUrl={selectedImageUrl}
+              layers={overlayLayers}
+              selectedId={selectedLayerId}
+              onSelect={isOverlayEditing ? setSelectedLayerId : undefined}
+              onMove={isOverlayEditing ? handleMoveLayer : undefined}
+            />
+          );
+        }
         return (
            <div className="w-full h-full bg-white">
             <img
               src={selectedImageUrl!}
-              alt="Imagem selecionada para edição"
+              alt={t('editing.selectedImageAlt')}
               className="w-full h-full object-contain"
             />
           </div>
         )
-      case 'ERROR':
+      case 'ERROR': {
+        const details = getErrorDetails(failure?.error.kind ?? 'unknown');
         return (
           <div className="w-full h-full flex flex-col items-center justify-center text-center p-4">
-            <div className="bg-red-100 border border-red-300 text-red-800 rounded-lg p-4 max-w-sm flex items-start gap-3">
+            <div className="bg-red-100 border border-red-300 text-red-800 rounded-lg p-4 max-w-sm flex items-start gap-3 text-left">
               <WarningIcon className="w-6 h-6 text-red-600 flex-shrink-0 mt-0.5" />
               <div>
-                <h4 className="font-bold mb-1">Ocorreu um Erro</h4>
-                <p className="text-sm">{error}</p>
+                <h4 className="font-bold mb-1">{details.title}</h4>
+                <p className="text-sm">{details.message}</p>
+                {failure?.error.reason && (
+                  <p className="text-sm mt-2"><span className="font-semibold">{t('app.reason')}</span> {getSafetyReasonLabel(failure.error.reason)}</p>
+                )}
+                {failure && failure.error.kind !== 'unknown' && (
+                  <p className="text-xs text-red-600/80 mt-2 break-words">{failure.error.message}</p>
+                )}
               </div>
             </div>
           </div>
         );
+      }
       case 'IDLE':
       default:
         return (
@@ -187,8 +834,9 @@ export default function App() {
               <div className="w-20 h-20 rounded-full bg-slate-100 flex items-center justify-center">
                 <UploadIcon className="w-10 h-10 text-slate-500" />
               </div>
-              <p className="text-xl font-semibold text-slate-700">Arraste uma imagem ou clique para selecionar</p>
-              <p className="text-sm text-slate-400">4 opções serão geradas automaticamente</p>
+              <p className="text-xl font-semibold text-slate-700">{t('app.dropHint')}</p>
+              <p className="text-sm text-slate-400">{generationMode.variationCount === 1 ? t('app.optionCountOne') : t('app.optionCount', { count: generationMode.variationCount })}</p>
+              <p className="text-xs text-slate-400">{t('app.batchHint')}</p>
             </div>
           </div>
         );
@@ -197,76 +845,314 @@ export default function App() {
 
   const renderActionButtons = () => {
     switch(appState) {
+        case 'IDLE':
+            return (
+                <div className="mt-6 flex flex-wrap justify-center gap-6 animate-fade-in">
+                    <button onClick={() => setAppState('CAMERA')} className="flex items-center gap-2 text-slate-600 hover:text-indigo-600 font-medium transition-colors group">
+                        <CameraIcon className="w-5 h-5 text-slate-500 group-hover:text-indigo-500 transition-colors" />
+                        {t('camera.open')}
+                    </button>
+                    <button onClick={() => setAppState('KIT')} className="flex items-center gap-2 text-slate-600 hover:text-indigo-600 font-medium transition-colors group">
+                        <GiftIcon className="w-5 h-5 text-slate-500 group-hover:text-indigo-500 transition-colors" />
+                        {t('app.buildKit')}
+                    </button>
+                </div>
+            )
+        case 'CAMERA':
+            return (
+                <div className="mt-6 flex justify-center animate-fade-in">
+                    <button onClick={handleStartOver} className="text-slate-600 hover:text-indigo-600 font-medium transition-colors flex items-center justify-center gap-2 group">
+                        <StartOverIcon className="w-5 h-5 text-slate-500 group-hover:text-indigo-500 transition-colors" />
+                        {t('common.cancel')}
+                    </button>
+                </div>
+            )
+        case 'KIT':
+            return (
+                <div className="mt-8 flex flex-col sm:flex-row items-center justify-center gap-4 flex-wrap animate-fade-in">
+                    <button onClick={handleConfirmKit} disabled={kit.files.length < MIN_KIT_PRODUCTS} className="w-full sm:w-auto flex items-center justify-center gap-2 bg-indigo-600 text-white font-semibold py-3 px-6 rounded-lg shadow-sm hover:bg-indigo-700 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:bg-indigo-300 disabled:cursor-not-allowed">
+                        <SparklesIcon className="w-5 h-5" />
+                        {t('app.generateKit')}
+                    </button>
+                    <button onClick={handleStartOver} className="w-full sm:w-auto text-slate-600 hover:text-indigo-600 font-medium transition-colors flex items-center justify-center gap-2 group">
+                        <StartOverIcon className="w-5 h-5 text-slate-500 group-hover:text-indigo-500 transition-colors" />
+                        {t('common.cancel')}
+                    </button>
+                </div>
+            )
+        case 'PREPARING':
+            return (
+                <div className="mt-8 flex flex-col sm:flex-row items-center justify-center gap-4 flex-wrap animate-fade-in">
+                    <button onClick={handleConfirmPreparation} className="w-full sm:w-auto flex items-center justify-center gap-2 bg-indigo-600 text-white font-semibold py-3 px-6 rounded-lg shadow-sm hover:bg-indigo-700 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">
+                        <SparklesIcon className="w-5 h-5" />
+                        {t('app.generate')}
+                    </button>
+                    <button onClick={handleChooseAnotherPhoto} className="w-full sm:w-auto text-slate-600 hover:text-indigo-600 font-medium transition-colors flex items-center justify-center gap-2 group">
+                        <UploadIcon className="w-5 h-5 text-slate-500 group-hover:text-indigo-500 transition-colors" />
+                        {t('app.chooseAnother')}
+                    </button>
+                    <ReferencePhotos files={referenceFiles} angleSet={angleSet} onFilesChange={setReferenceFiles} onAngleSetChange={setAngleSet} />
+                </div>
+            )
+        case 'PROCESSING':
+            return (
+                <div className="mt-6 flex justify-center animate-fade-in">
+                    <button onClick={handleCancel} className="text-slate-600 hover:text-red-600 font-medium transition-colors">
+                        {t('common.cancel')}
+                    </button>
+                </div>
+            )
         case 'SUCCESS':
             return (
                  <div className="mt-6 flex flex-col items-center justify-center gap-4 animate-fade-in">
-                    <p className="font-semibold text-slate-600 text-center">Selecione uma imagem acima para refinar, alterar ou baixar.</p>
+                    {failedVariationCount > 0 && (
+                        <p className="text-sm text-amber-700 text-center">
+                            {t('app.failedVariations', { failed: failedVariationCount, total: progressSlots.length })}
+                        </p>
+                    )}
+                    <p className="font-semibold text-slate-600 text-center">{t('app.selectHint')}</p>
                     <button onClick={handleStartOver} className="text-slate-600 hover:text-indigo-600 font-medium transition-colors flex items-center justify-center gap-2 group">
                         <StartOverIcon className="w-5 h-5 text-slate-500 group-hover:text-indigo-500 transition-colors" />
-                        Começar de Novo
+                        {t('app.startOver')}
                     </button>
                  </div>
             )
         case 'EDITING':
             return (
                 <div className="w-full mt-6 space-y-4 animate-fade-in">
+                    <div className="flex flex-wrap items-center justify-center gap-2">
+                        <button onClick={versions.undo} disabled={!versions.canUndo} className="flex items-center gap-1 py-1 px-3 rounded-lg text-sm font-medium text-slate-600 hover:bg-slate-200 transition-colors disabled:opacity-40 disabled:cursor-not-allowed">
+                            <UndoIcon className="w-4 h-4" />
+                            {t('app.undo')}
+                        </button>
+                        <button onClick={versions.redo} disabled={!versions.canRedo} className="flex items-center gap-1 py-1 px-3 rounded-lg text-sm font-medium text-slate-600 hover:bg-slate-200 transition-colors disabled:opacity-40 disabled:cursor-not-allowed">
+                            <RedoIcon className="w-4 h-4" />
+                            {t('app.redo')}
+                        </button>
+                        <button onClick={handleToggleCompare} className={`flex items-center gap-1 py-1 px-3 rounded-lg text-sm font-medium transition-colors ${compareId ? 'bg-indigo-100 text-indigo-700' : 'text-slate-600 hover:bg-slate-200'}`} aria-pressed={Boolean(compareId)}>
+                            <CompareIcon className="w-4 h-4" />
+                            {t('app.compare')}
+                        </button>
+                        <button onClick={handleToggleMasking} className={`flex items-center gap-1 py-1 px-3 rounded-lg text-sm font-medium transition-colors ${isMasking ? 'bg-indigo-100 text-indigo-700' : 'text-slate-600 hover:bg-slate-200'}`} aria-pressed={isMasking}>
+                            <BrushIcon className="w-4 h-4" />
+                            {t('app.editRegion')}
+                        </button>
+                        <button onClick={handleToggleOverlay} className={`flex items-center gap-1 py-1 px-3 rounded-lg text-sm font-medium transition-colors ${isOverlayEditing ? 'bg-indigo-100 text-indigo-700' : 'text-slate-600 hover:bg-slate-200'}`} aria-pressed={isOverlayEditing}>
+                            <TagIcon className="w-4 h-4" />
+                            {t('app.overlay')}
+                        </button>
+                    </div>
+
+                    {isOverlayEditing && (
+                        <OverlayPanel layers={overlayLayers} selectedId={selectedLayerId} onChange={setOverlayLayers} onSelect={setSelectedLayerId} />
+                    )}
+
+                    {selectedImageUrl && fidelityReports[selectedImageUrl] && !fidelityReports[selectedImageUrl].passed && (
+                        <div className="bg-amber-50 border border-amber-300 text-amber-800 rounded-lg p-3 flex items-start gap-3">
+                            <WarningIcon className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
+                            <div className="text-sm">
+                                <p className="font-semibold">{t('app.fidelityWarning')}</p>
+                                <ul className="list-disc list-inside">
+                                    {fidelityReports[selectedImageUrl].issues.map(issue => <li key={issue}>{issue}</li>)}
+                                </ul>
+                            </div>
+                        </div>
+                    )}
+
+                    {selectedImageUrl && complianceReports[selectedImageUrl] && !complianceReports[selectedImageUrl].passed && (
+                        <div className="bg-red-50 border border-red-200 text-red-800 rounded-lg p-3 flex items-start gap-3">
+                            <WarningIcon className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+                            <div className="text-sm flex-grow">
+                                <p className="font-semibold">{t('app.complianceWarning')}</p>
+                                <ul className="list-disc list-inside">
+                                    {complianceReports[selectedImageUrl].issues.map(issue => <li key={issue}>{issue}</li>)}
+                                </ul>
+                                <button onClick={handleFixCompliance} disabled={isFixingCompliance} className="mt-2 py-1.5 px-3 rounded-md text-sm font-semibold text-white bg-red-600 hover:bg-red-700 transition-colors disabled:bg-red-300 disabled:cursor-wait">
+                                    {isFixingCompliance ? t('app.fixing') : t('app.fixCompliance')}
+                                </button>
+                            </div>
+                        </div>
+                    )}
+
+                    {selectedSeed !== undefined && (
+                        <div className="flex items-center justify-between text-xs text-slate-500">
+                            <span>{t('app.seed')} <span className="font-mono">{selectedSeed}</span></span>
+                            {generationSettings.seed === selectedSeed ? (
+                                <span className="text-indigo-600 font-medium">{t('app.seedFixed')}</span>
+                            ) : (
+                                <button onClick={() => handleFixSeed(selectedSeed)} className="font-medium text-indigo-600 hover:text-indigo-700 transition-colors" title={t('app.fixSeedHint')}>
+                                    {t('app.fixSeed')}
+                                </button>
+                            )}
+                        </div>
+                    )}
+
+                    <div className="flex flex-wrap items-center gap-2 p-3 border border-slate-200 rounded-lg bg-white">
+                        <ShoppingBagIcon className="w-5 h-5 text-slate-400" />
+                        {catalogProducts.length > 0 ? (
+                            <>
+                                <select
+                                    value={productSku ?? ''}
+                                    onChange={(e) => setProductSku(e.target.value || null)}
+                                    className="flex-grow min-w-0 p-1.5 border border-slate-300 rounded-md bg-white text-sm"
+                                    aria-label={t('app.catalogProduct')}
+                                >
+                                    <option value="">{t('app.noCatalogProduct')}</option>
+                                    {catalogProducts.map(product => <option key={product.sku} value={product.sku}>{product.sku} · {product.name}</option>)}
+                                </select>
+                                {selectedImageUrl && approvedUrls.includes(selectedImageUrl) ? (
+                                    <span className="text-sm font-medium text-green-700">{t('app.approved')}</span>
+                                ) : (
+                                    <button onClick={handleApproveForCatalog} disabled={!productSku} className="py-1.5 px-3 rounded-md text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 transition-colors disabled:bg-indigo-300 disabled:cursor-not-allowed">
+                                        {t('app.approve')}
+                                    </button>
+                                )}
+                            </>
+                        ) : (
+                            <button onClick={() => setIsCatalogOpen(true)} className="text-sm font-medium text-indigo-600 hover:text-indigo-700 transition-colors">
+                                {t('app.registerProducts')}
+                            </button>
+                        )}
+                    </div>
+
+                    {versions.tree && versions.selectedNode && (
+                        <VersionTreePanel
+                            tree={versions.tree}
+                            selectedId={versions.selectedNode.id}
+                            compareId={compareId}
+                            onSelect={(id) => {
+                                versions.select(id);
+                                if (id === compareId) setCompareId(null);
+                            }}
+                            onCompare={setCompareId}
+                        />
+                    )}
+
                     <div className="p-4 border border-slate-200 rounded-lg bg-white">
-                        <label htmlFor="edit-prompt" className="block text-sm font-medium text-slate-700 mb-2">Descreva a alteração que você deseja:</label>
+                        <label htmlFor="edit-prompt" className="block text-sm font-medium text-slate-700 mb-2">{t('app.editPromptLabel')}</label>
+                        {isMasking && (
+                            <p className="text-xs text-slate-500 mb-2">
+                                {maskDataUrl ? t('app.maskReady') : t('app.maskHint')}
+                            </p>
+                        )}
+                        <RefinementPresets
+                            presets={presets}
+                            selectedIds={selectedPresetIds}
+                            onToggle={handleTogglePreset}
+                            onSave={savePreset}
+                            onDelete={deletePreset}
+                            onReset={resetPresets}
+                        />
                         <textarea
                             id="edit-prompt"
                             value={editPrompt}
                             onChange={(e) => setEditPrompt(e.target.value)}
-                            placeholder="Ex: adicione um ramo de alecrim ao lado do produto"
+                            placeholder={selectedPresets.length > 0 ? t('app.editPromptExtra') : t('app.editPromptPlaceholder')}
                             className="w-full p-2 border border-slate-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500 text-sm"
                             rows={2}
                         />
-                        <button onClick={() => handleRefinement(editPrompt)} disabled={!editPrompt.trim()} className="mt-2 w-full flex items-center justify-center gap-2 bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg shadow-sm hover:bg-indigo-700 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:bg-indigo-300 disabled:cursor-not-allowed">
+                        {selectedPresets.length > 0 && composedPrompt && (
+                            <div className="mt-2 p-2 bg-slate-50 border border-slate-200 rounded-md">
+                                <p className="text-xs font-medium text-slate-500 mb-1">{t('app.composedPrompt')}</p>
+                                <p className="text-xs text-slate-700 whitespace-pre-wrap">{composedPrompt}</p>
+                            </div>
+                        )}
+                        <button onClick={() => handleRefinement(composedPrompt)} disabled={!composedPrompt || (isMasking && !maskDataUrl)} className="mt-2 w-full flex items-center justify-center gap-2 bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg shadow-sm hover:bg-indigo-700 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:bg-indigo-300 disabled:cursor-not-allowed">
                             <EditIcon className="w-5 h-5" />
-                            Alterar com Prompt
+                            {t('app.applyPrompt')}
                         </button>
                     </div>
 
                     <div className="flex items-center">
                         <div className="flex-grow border-t border-slate-200"></div>
-                        <span className="flex-shrink mx-4 text-slate-400 text-xs font-medium">OU</span>
+                        <span className="flex-shrink mx-4 text-slate-400 text-xs font-medium">{t('app.or')}</span>
                         <div className="flex-grow border-t border-slate-200"></div>
                     </div>
 
-                     <button onClick={() => handleRefinement('Crie mais 4 variações desta imagem, mantendo o mesmo estilo geral, mas com pequenas alterações na composição, iluminação e nos elementos de fundo.')} className="w-full flex items-center justify-center gap-2 bg-white text-slate-700 font-semibold py-2 px-4 rounded-lg shadow-sm border border-slate-300 hover:bg-slate-50 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">
+                     <button onClick={() => handleRefinement(interpolate(getPromptTexts().moreVariations, { count: refinementCount }))} className="w-full flex items-center justify-center gap-2 bg-white text-slate-700 font-semibold py-2 px-4 rounded-lg shadow-sm border border-slate-300 hover:bg-slate-50 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">
                       <VariationIcon className="w-5 h-5" />
-                      Gerar Mais Variações
+                      {t('app.moreVariations')}
                     </button>
 
                     <div className="mt-6 pt-4 border-t border-slate-200 flex flex-wrap items-center justify-between gap-4">
                         <button onClick={handleBackToGrid} className="flex items-center justify-center gap-2 text-slate-600 hover:text-indigo-600 font-medium transition-colors group">
                             <BackIcon className="w-5 h-5 text-slate-500 group-hover:text-indigo-500 transition-colors" />
-                            Voltar
+                            {t('app.back')}
                         </button>
                         <div className="flex items-center gap-4">
                            <button onClick={handleDownload} className="flex items-center justify-center gap-2 bg-slate-700 text-white font-semibold py-2 px-4 rounded-lg shadow-sm hover:bg-slate-800 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-slate-600">
                               <DownloadIcon className="w-5 h-5" />
-                              Baixar
+                              {t('common.download')}
                             </button>
                             <button onClick={handleStartOver} className="text-slate-500 hover:text-red-600 text-sm font-medium transition-colors">
-                                Descartar
+                                {t('app.discard')}
                             </button>
                         </div>
                     </div>
                 </div>
             )
-        case 'ERROR':
+        case 'BATCH': {
+            const finishedCount = batch.items.filter(item => item.status === 'done' || item.status === 'failed').length;
+            const winnerCount = batch.items.filter(item => item.winnerUrl).length;
             return (
-                <div className="mt-8 flex flex-col sm:flex-row items-center justify-center gap-4 flex-wrap animate-fade-in">
-                    <button onClick={() => originalFile && handleInitialGeneration(originalFile)} className="w-full sm:w-auto flex items-center justify-center gap-2 bg-indigo-600 text-white font-semibold py-3 px-6 rounded-lg shadow-sm hover:bg-indigo-700 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">
-                        <RetryIcon className="w-5 h-5" />
-                        Tentar Novamente
+                <div className="mt-6 flex flex-col items-center justify-center gap-4 animate-fade-in">
+                    <p className="font-semibold text-slate-600 text-center">
+                        {t('app.batchProgress', { done: finishedCount, total: batch.items.length })}
+                    </p>
+                    <button onClick={handleDownloadWinners} disabled={winnerCount === 0} className="flex items-center justify-center gap-2 bg-slate-700 text-white font-semibold py-2 px-4 rounded-lg shadow-sm hover:bg-slate-800 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-slate-600 disabled:bg-slate-400 disabled:cursor-not-allowed">
+                        <DownloadIcon className="w-5 h-5" />
+                        {t('app.downloadWinners', { count: winnerCount })}
+                    </button>
+                    <button onClick={handleStartOver} className="text-slate-600 hover:text-indigo-600 font-medium transition-colors flex items-center justify-center gap-2 group">
+                        <StartOverIcon className="w-5 h-5 text-slate-500 group-hover:text-indigo-500 transition-colors" />
+                        {t('app.startOver')}
                     </button>
+                </div>
+            )
+        }
+        case 'ERROR': {
+            const kind = failure?.error.kind ?? 'unknown';
+            const isRefinement = failure?.action === 'refinement';
+            const canRetry = kind !== 'invalid-key' && kind !== 'invalid-input' && kind !== 'safety';
+            return (
+                <div className="mt-8 flex flex-col sm:flex-row items-center justify-center gap-4 flex-wrap animate-fade-in">
+                    {canRetry && (
+                        <button onClick={handleRetry} className="w-full sm:w-auto flex items-center justify-center gap-2 bg-indigo-600 text-white font-semibold py-3 px-6 rounded-lg shadow-sm hover:bg-indigo-700 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">
+                            <RetryIcon className="w-5 h-5" />
+                            {t('app.retry')}
+                        </button>
+                    )}
+                    {kind === 'safety' && isRefinement && (
+                        <button onClick={() => setAppState('EDITING')} className="w-full sm:w-auto flex items-center justify-center gap-2 bg-indigo-600 text-white font-semibold py-3 px-6 rounded-lg shadow-sm hover:bg-indigo-700 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">
+                            <EditIcon className="w-5 h-5" />
+                            {t('app.adjustPrompt')}
+                        </button>
+                    )}
+                    {kind === 'budget' && (
+                        <button onClick={() => setIsUsageOpen(true)} className="w-full sm:w-auto flex items-center justify-center gap-2 bg-white text-indigo-600 font-semibold py-3 px-6 rounded-lg shadow-sm border border-indigo-200 hover:bg-indigo-50 transition-colors">
+                            <ChartBarIcon className="w-5 h-5" />
+                            {t('app.openUsage')}
+                        </button>
+                    )}
+                    {(kind === 'invalid-input' || (kind === 'safety' && !isRefinement)) && (
+                        <button onClick={handleChooseAnotherPhoto} className="w-full sm:w-auto flex items-center justify-center gap-2 bg-indigo-600 text-white font-semibold py-3 px-6 rounded-lg shadow-sm hover:bg-indigo-700 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">
+                            <UploadIcon className="w-5 h-5" />
+                            {t('app.useAnother')}
+                        </button>
+                    )}
+                    {isRefinement && kind !== 'safety' && (
+                        <button onClick={() => setAppState('EDITING')} className="w-full sm:w-auto text-slate-600 hover:text-indigo-600 font-medium transition-colors flex items-center justify-center gap-2 group">
+                            <BackIcon className="w-5 h-5 text-slate-500 group-hover:text-indigo-500 transition-colors" />
+                            {t('app.backToEditing')}
+                        </button>
+                    )}
                     <button onClick={handleStartOver} className="w-full sm:w-auto text-slate-600 hover:text-indigo-600 font-medium transition-colors flex items-center justify-center gap-2 group">
                         <StartOverIcon className="w-5 h-5 text-slate-500 group-hover:text-indigo-500 transition-colors" />
-                        Começar de Novo
+                        {t('app.startOver')}
                     </button>
                 </div>
             )
+        }
         default:
             return null;
     }
@@ -276,34 +1162,80 @@ export default function App() {
     <div className="min-h-screen bg-slate-100 text-slate-800 flex items-center justify-center p-4 font-sans">
       <main className="w-full max-w-xl mx-auto flex flex-col items-center">
         <div className={`w-full transition-opacity duration-300 ${appState !== 'IDLE' ? 'animate-fade-in' : ''}`}>
-            <div className={`mb-6 w-full max-w-sm mx-auto bg-slate-200 rounded-lg p-1 flex transition-all duration-300 ${appState === 'PROCESSING' ? 'opacity-50 pointer-events-none' : ''}`}>
-                <button
-                onClick={() => setGenerationMode('ECOMMERCE')}
-                className={`w-1/2 rounded-md py-2 text-sm font-semibold transition-all duration-300 ease-in-out ${
-                    generationMode === 'ECOMMERCE'
-                    ? 'bg-white text-indigo-600 shadow-sm'
-                    : 'bg-transparent text-slate-500 hover:bg-slate-300/60'
-                }`}
-                aria-pressed={generationMode === 'ECOMMERCE'}
-                >
-                Foto de Estúdio
+            <div className={`mb-6 w-full max-w-lg mx-auto flex items-center gap-1 transition-all duration-300 ${appState === 'PROCESSING' ? 'opacity-50 pointer-events-none' : ''}`}>
+                <div className="flex-grow bg-slate-200 rounded-lg p-1 flex overflow-x-auto">
+                    {modes.map(mode => (
+                        <button
+                        key={mode.id}
+                        onClick={() => setGenerationModeId(mode.id)}
+                        className={`flex-1 min-w-max rounded-md py-2 px-3 text-sm font-semibold transition-all duration-300 ease-in-out ${
+                            generationMode.id === mode.id
+                            ? 'bg-white text-indigo-600 shadow-sm'
+                            : 'bg-transparent text-slate-500 hover:bg-slate-300/60'
+                        }`}
+                        aria-pressed={generationMode.id === mode.id}
+                        >
+                        {mode.label}
+                        </button>
+                    ))}
+                </div>
+                <button onClick={() => setIsModeManagerOpen(true)} className="p-2 text-slate-500 hover:text-indigo-600 transition-colors" aria-label={t('app.manageModes')}>
+                    <SettingsIcon className="w-5 h-5" />
                 </button>
-                <button
-                onClick={() => setGenerationMode('SOCIAL')}
-                className={`w-1/2 rounded-md py-2 text-sm font-semibold transition-all duration-300 ease-in-out ${
-                    generationMode === 'SOCIAL'
-                    ? 'bg-white text-indigo-600 shadow-sm'
-                    : 'bg-transparent text-slate-500 hover:bg-slate-300/60'
-                }`}
-                aria-pressed={generationMode === 'SOCIAL'}
-                >
-                Foto Ambiente
+                <button onClick={() => setIsBrandKitOpen(true)} className={`p-2 transition-colors ${brandKitActive ? 'text-indigo-600' : 'text-slate-500 hover:text-indigo-600'}`} aria-label={brandKitActive ? t('app.brandKitActiveLabel') : t('app.brandKit')} title={brandKitActive ? t('app.brandKitActive') : t('app.brandKit')}>
+                    <SwatchIcon className="w-5 h-5" />
+                </button>
+                <button onClick={() => setIsGenerationSettingsOpen(true)} className="p-2 text-slate-500 hover:text-indigo-600 transition-colors" aria-label={t('app.generationSettings')} title={t('app.generationSettings')}>
+                    <AdjustmentsIcon className="w-5 h-5" />
+                </button>
+                <button onClick={() => setIsFidelitySettingsOpen(true)} className="p-2 text-slate-500 hover:text-indigo-600 transition-colors" aria-label={t('app.fidelity')} title={t('app.fidelity')}>
+                    <ShieldCheckIcon className="w-5 h-5" />
+                </button>
+                <button onClick={() => setIsHistoryOpen(true)} className="p-2 text-slate-500 hover:text-indigo-600 transition-colors" aria-label={t('app.history')} title={t('app.history')}>
+                    <HistoryIcon className="w-5 h-5" />
+                </button>
+                <button onClick={() => setIsCatalogOpen(true)} className="p-2 text-slate-500 hover:text-indigo-600 transition-colors" aria-label={t('app.catalog')} title={t('app.catalog')}>
+                    <ShoppingBagIcon className="w-5 h-5" />
                 </button>
+                <button onClick={() => setIsUsageOpen(true)} className="p-2 text-slate-500 hover:text-indigo-600 transition-colors" aria-label={t('app.usage')} title={t('app.usage')}>
+                    <ChartBarIcon className="w-5 h-5" />
+                </button>
+                <select
+                    value={language}
+                    onChange={(e) => changeLanguage(e.target.value as Language)}
+                    className="p-1 text-xs text-slate-500 bg-transparent rounded-md hover:text-indigo-600 focus:ring-indigo-500 focus:border-indigo-500"
+                    aria-label={t('app.language')}
+                    title={t('app.language')}
+                >
+                    {LANGUAGES.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+                </select>
             </div>
 
-            <input type="file" ref={fileInputRef} id="file-upload" style={{ display: 'none' }} accept="image/*" onChange={handleFileChange} />
+            {budgetStatus.nearLimit && (
+                <button onClick={() => setIsUsageOpen(true)} className={`w-full mb-4 rounded-lg border p-3 text-sm text-left flex items-start gap-2 ${budgetStatus.exceeded ? 'bg-red-50 border-red-300 text-red-800' : 'bg-amber-50 border-amber-300 text-amber-800'}`}>
+                    <WarningIcon className="w-5 h-5 flex-shrink-0" />
+                    <span>
+                        {budgetStatus.exceeded
+                            ? `${t('app.budgetExceeded', { spent: formatUsd(budgetStatus.spentUsd), budget: formatUsd(budgetStatus.budgetUsd ?? 0) })}${budgetStatus.blocked ? ` ${t('app.budgetBlocked')}` : ''}`
+                            : t('app.budgetNear', { percent: Math.round(budgetStatus.ratio * 100), spent: formatUsd(budgetStatus.spentUsd), budget: formatUsd(budgetStatus.budgetUsd ?? 0) })}
+                    </span>
+                </button>
+            )}
+
+            {(!offline.isOnline || offline.items.length > 0) && (
+                <div className="w-full mb-4 rounded-lg border border-slate-300 bg-slate-50 p-3 text-sm text-slate-700 flex items-start gap-2">
+                    <CloudOffIcon className="w-5 h-5 flex-shrink-0" />
+                    <span>
+                        {offline.isOnline ? t('offline.sending') : t('offline.banner')}
+                        {offline.items.length > 0 && ` ${t('offline.queued', { count: offline.items.length })}`}
+                    </span>
+                </div>
+            )}
+
+            <input type="file" ref={fileInputRef} id="file-upload" style={{ display: 'none' }} accept="image/*" multiple onChange={handleFileChange} />
             <div
-            className={`w-full aspect-square rounded-2xl shadow-lg border-2 border-dashed  overflow-hidden relative transition-all duration-300 
+            style={{ aspectRatio: mainAspectRatio }}
+            className={`w-full rounded-2xl shadow-lg border-2 border-dashed  overflow-hidden relative transition-all duration-300 
                 ${appState === 'IDLE' ? 'border-slate-300 bg-white hover:border-slate-400 cursor-pointer' : 'border-transparent bg-slate-200'}
                 ${isDragging ? 'border-indigo-600 bg-indigo-50 scale-105' : ''}`
             }
@@ -312,9 +1244,62 @@ export default function App() {
             >
             {renderMainModule()}
             </div>
-            {error && appState === 'IDLE' && <p className="mt-4 text-center text-sm text-red-600 animate-fade-in">{error}</p>}
+            {error && (appState === 'IDLE' || appState === 'KIT' || appState === 'EDITING') && <p className="mt-4 text-center text-sm text-red-600 animate-fade-in">{error}</p>}
             {renderActionButtons()}
         </div>
+        {isModeManagerOpen && (
+          <ModeManager
+            modes={modes}
+            onSave={saveMode}
+            onDuplicate={duplicateMode}
+            onDelete={deleteMode}
+            onClose={() => setIsModeManagerOpen(false)}
+          />
+        )}
+        {isUsageOpen && <UsageDashboard onClose={() => setIsUsageOpen(false)} />}
+        {isCatalogOpen && (
+          <CatalogPanel
+            onClose={() => {
+              setIsCatalogOpen(false);
+              setCatalogProducts(loadCatalogProducts());
+            }}
+          />
+        )}
+        {isExportOpen && selectedImageUrl && (
+          <ExportDialog
+            imageUrl={exportImageUrl ?? selectedImageUrl}
+            baseFileName={`${getBaseFileName(originalFile)}-${generationMode.id.toLowerCase()}`}
+            onClose={() => {
+              setIsExportOpen(false);
+              setExportImageUrl(null);
+            }}
+          />
+        )}
+        {isGenerationSettingsOpen && (
+          <GenerationSettingsPanel
+            settings={generationSettings}
+            mode={selectedMode}
+            onSave={(settings) => setGenerationSettings(saveGenerationSettings(settings))}
+            onClose={() => setIsGenerationSettingsOpen(false)}
+          />
+        )}
+        {isFidelitySettingsOpen && (
+          <FidelitySettingsPanel onClose={() => setIsFidelitySettingsOpen(false)} />
+        )}
+        {isHistoryOpen && (
+          <HistoryGallery
+            onOpen={handleOpenHistoryEntry}
+            onClose={() => setIsHistoryOpen(false)}
+          />
+        )}
+        {isBrandKitOpen && (
+          <BrandKitEditor
+            onClose={() => {
+              setIsBrandKitOpen(false);
+              setBrandKitActive(isBrandKitActive(loadBrandKit()));
+            }}
+          />
+        )}
       </main>
     </div>
   );
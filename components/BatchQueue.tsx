@@ -0,0 +1,67 @@
+import React from 'react';
+import { BatchItem, BatchItemStatus } from '../hooks/useBatchQueue';
+import { RetryIcon } from './Icons';
+import { TranslationKey } from '../services/i18n';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface BatchQueueProps {
+  items: BatchItem[];
+  onRetry: (id: string) => void;
+  onPickWinner: (id: string, url: string) => void;
+}
+
+const statusLabels: Record<BatchItemStatus, TranslationKey> = {
+  queued: 'batch.queued',
+  generating: 'batch.generating',
+  done: 'batch.done',
+  failed: 'batch.failed',
+};
+
+const statusStyles: Record<BatchItemStatus, string> = {
+  queued: 'bg-slate-100 text-slate-600',
+  generating: 'bg-indigo-100 text-indigo-700 animate-pulse',
+  done: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+export const BatchQueue: React.FC<BatchQueueProps> = ({ items, onRetry, onPickWinner }) => {
+  const { t } = useTranslation();
+  return (
+    <ul className="w-full h-full overflow-y-auto bg-white divide-y divide-slate-200">
+      {items.map(item => (
+        <li key={item.id} className="p-3 flex flex-col gap-2">
+          <div className="flex items-center gap-3">
+            <img src={item.previewUrl} alt={item.file.name} className="w-12 h-12 rounded-md object-cover flex-shrink-0 border border-slate-200" />
+            <div className="flex-grow min-w-0">
+              <p className="text-sm font-medium text-slate-700 truncate">{item.file.name}</p>
+              {item.error && <p className="text-xs text-red-600">{item.error}</p>}
+              {item.status === 'done' && !item.winnerUrl && <p className="text-xs text-slate-400">{t('batch.pickWinner')}</p>}
+            </div>
+            <span className={`text-xs font-semibold px-2 py-1 rounded-full flex-shrink-0 ${statusStyles[item.status]}`}>
+              {t(statusLabels[item.status])}
+            </span>
+            {item.status === 'failed' && (
+              <button onClick={() => onRetry(item.id)} className="text-slate-500 hover:text-indigo-600 transition-colors" aria-label={t('batch.retry', { name: item.file.name })}>
+                <RetryIcon className="w-5 h-5" />
+              </button>
+            )}
+          </div>
+          {item.resultUrls.length > 0 && (
+            <div className="grid grid-cols-4 gap-1">
+              {item.resultUrls.map((url, index) => (
+                <button
+                  key={index}
+                  onClick={() => onPickWinner(item.id, url)}
+                  className={`aspect-square rounded-md overflow-hidden border-2 transition-colors ${item.winnerUrl === url ? 'border-indigo-600' : 'border-transparent hover:border-slate-300'}`}
+                  aria-pressed={item.winnerUrl === url}
+                >
+                  <img src={url} alt={t('common.variationOf', { index: index + 1, name: item.file.name })} className="w-full h-full object-cover" />
+                </button>
+              ))}
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
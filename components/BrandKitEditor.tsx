@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { Modal } from './Modal';
+import { PlusIcon, TrashIcon } from './Icons';
+import { BrandKit, MAX_REFERENCE_IMAGES, REFERENCE_IMAGE_MAX_EDGE, loadBrandKit, saveBrandKit } from '../services/brandKitService';
+import { readFileAsDataUrl, resizeImageToDataUrl } from '../services/imageUtils';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface BrandKitEditorProps {
+  onClose: () => void;
+}
+
+const inputClassName = 'w-full p-2 border border-slate-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500 text-sm';
+
+export const BrandKitEditor: React.FC<BrandKitEditorProps> = ({ onClose }) => {
+  const { t } = useTranslation();
+  const [kit, setKit] = useState<BrandKit>(loadBrandKit);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateColor = (index: number, color: string) => {
+    setKit({ ...kit, colors: kit.colors.map((c, i) => i === index ? color : c) });
+  };
+
+  const handleReferenceChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files ?? []).filter(file => file.type.startsWith('image/'));
+    e.target.value = '';
+    const available = MAX_REFERENCE_IMAGES - kit.referenceImages.length;
+    try {
+      const resized = await Promise.all(files.slice(0, available).map(async file =>
+        resizeImageToDataUrl(await readFileAsDataUrl(file), REFERENCE_IMAGE_MAX_EDGE)
+      ));
+      setKit(prev => ({ ...prev, referenceImages: [...prev.referenceImages, ...resized].slice(0, MAX_REFERENCE_IMAGES) }));
+    } catch (err) {
+      console.error(err);
+      setError(t('brandKit.referenceError'));
+    }
+  };
+
+  const handleSave = () => {
+    try {
+      saveBrandKit(kit);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <Modal title={t('brandKit.title')} onClose={onClose}>
+      <div className="space-y-4">
+        <label className="flex items-center gap-2 text-sm font-medium text-slate-700">
+          <input type="checkbox" checked={kit.enabled} onChange={(e) => setKit({ ...kit, enabled: e.target.checked })} className="rounded text-indigo-600 focus:ring-indigo-500" />
+          {t('brandKit.enabled')}
+        </label>
+
+        <div>
+          <p className="block text-sm font-medium text-slate-700 mb-1">{t('brandKit.colors')}</p>
+          <div className="flex flex-wrap items-center gap-2">
+            {kit.colors.map((color, index) => (
+              <div key={index} className="flex items-center gap-1 border border-slate-200 rounded-md p-1">
+                <input type="color" value={color} onChange={(e) => updateColor(index, e.target.value)} className="w-8 h-8 cursor-pointer" aria-label={t('brandKit.color', { index: index + 1 })} />
+                <span className="text-xs font-mono text-slate-500">{color}</span>
+                <button onClick={() => setKit({ ...kit, colors: kit.colors.filter((_, i) => i !== index) })} className="text-slate-400 hover:text-red-600 transition-colors" aria-label={t('brandKit.removeColor', { color })}>
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            <button onClick={() => setKit({ ...kit, colors: [...kit.colors, '#8b5e3c'] })} className="p-2 text-slate-500 hover:text-indigo-600 border border-dashed border-slate-300 rounded-md transition-colors" aria-label={t('brandKit.addColor')}>
+              <PlusIcon className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="brand-surfaces" className="block text-sm font-medium text-slate-700 mb-1">{t('brandKit.surfaces')}</label>
+          <textarea id="brand-surfaces" value={kit.surfaces} onChange={(e) => setKit({ ...kit, surfaces: e.target.value })} placeholder={t('brandKit.surfacesPlaceholder')} className={inputClassName} rows={2} />
+        </div>
+
+        <div>
+          <label htmlFor="brand-forbidden" className="block text-sm font-medium text-slate-700 mb-1">{t('brandKit.forbidden')}</label>
+          <textarea id="brand-forbidden" value={kit.forbidden} onChange={(e) => setKit({ ...kit, forbidden: e.target.value })} placeholder={t('brandKit.forbiddenPlaceholder')} className={inputClassName} rows={2} />
+        </div>
+
+        <div>
+          <label htmlFor="brand-notes" className="block text-sm font-medium text-slate-700 mb-1">{t('brandKit.notes')}</label>
+          <textarea id="brand-notes" value={kit.notes} onChange={(e) => setKit({ ...kit, notes: e.target.value })} placeholder={t('brandKit.notesPlaceholder')} className={inputClassName} rows={2} />
+        </div>
+
+        <div>
+          <p className="block text-sm font-medium text-slate-700 mb-1">{t('brandKit.references', { count: kit.referenceImages.length, max: MAX_REFERENCE_IMAGES })}</p>
+          <div className="flex flex-wrap gap-2">
+            {kit.referenceImages.map((url, index) => (
+              <div key={index} className="relative w-20 h-20 rounded-md overflow-hidden border border-slate-200">
+                <img src={url} alt={t('brandKit.reference', { index: index + 1 })} className="w-full h-full object-cover" />
+                <button onClick={() => setKit({ ...kit, referenceImages: kit.referenceImages.filter((_, i) => i !== index) })} className="absolute top-1 right-1 bg-white/90 rounded p-0.5 text-slate-500 hover:text-red-600 transition-colors" aria-label={t('brandKit.removeReference', { index: index + 1 })}>
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            {kit.referenceImages.length < MAX_REFERENCE_IMAGES && (
+              <label className="w-20 h-20 flex items-center justify-center border border-dashed border-slate-300 rounded-md text-slate-500 hover:text-indigo-600 cursor-pointer transition-colors" aria-label={t('brandKit.addReference')}>
+                <PlusIcon className="w-6 h-6" />
+                <input type="file" accept="image/*" multiple className="hidden" onChange={handleReferenceChange} />
+              </label>
+            )}
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-end gap-3 pt-2">
+          <button onClick={onClose} className="text-slate-600 hover:text-slate-800 font-medium text-sm transition-colors">
+            {t('common.cancel')}
+          </button>
+          <button onClick={handleSave} className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg shadow-sm hover:bg-indigo-700 transition-colors text-sm">
+            {t('brandKit.save')}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
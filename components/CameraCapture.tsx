@@ -0,0 +1,107 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CameraIcon } from './Icons';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface CameraCaptureProps {
+  onCapture: (file: File) => void;
+}
+
+const CAPTURE_QUALITY = 0.92;
+
+export const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture }) => {
+  const { t } = useTranslation();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [unavailable, setUnavailable] = useState<boolean>(false);
+
+  useEffect(() => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setUnavailable(true);
+      return;
+    }
+    let active = true;
+    let opened: MediaStream | null = null;
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment', width: { ideal: 3840 }, height: { ideal: 2160 } }, audio: false })
+      .then(media => {
+        opened = media;
+        if (active) setStream(media);
+        else media.getTracks().forEach(track => track.stop());
+      })
+      .catch(error => {
+        console.error("Não foi possível abrir a câmera:", error);
+        if (active) setUnavailable(true);
+      });
+    return () => {
+      active = false;
+      opened?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  useEffect(() => {
+    if (videoRef.current && stream) {
+      videoRef.current.srcObject = stream;
+    }
+  }, [stream]);
+
+  const handleShutter = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0);
+    canvas.toBlob(blob => {
+      if (blob) onCapture(new File([blob], `foto-${Date.now()}.jpg`, { type: 'image/jpeg' }));
+    }, 'image/jpeg', CAPTURE_QUALITY);
+  };
+
+  // Without camera access (desktop, HTTP, permission denied) the OS camera app is used through a file input.
+  const handleFallback = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onCapture(file);
+    e.target.value = '';
+  };
+
+  if (unavailable) {
+    return (
+      <div className="w-full h-full flex flex-col items-center justify-center text-center p-4 space-y-4" onClick={(e) => e.stopPropagation()}>
+        <p className="text-sm text-slate-600 max-w-xs">{t('camera.unavailable')}</p>
+        <button
+          onClick={() => inputRef.current?.click()}
+          className="flex items-center justify-center bg-indigo-600 text-white font-bold py-3 px-6 rounded-lg hover:bg-indigo-700 transition-all duration-300 shadow-md"
+        >
+          <CameraIcon className="w-5 h-5 mr-2" />
+          {t('camera.openSystemCamera')}
+        </button>
+        <input ref={inputRef} type="file" accept="image/*" capture="environment" className="hidden" onChange={handleFallback} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative w-full h-full bg-black" onClick={(e) => e.stopPropagation()}>
+      <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover" />
+      <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+        <div className="relative w-3/4 max-w-sm aspect-square">
+          <span className="absolute top-0 left-0 w-8 h-8 border-t-4 border-l-4 border-white/90 rounded-tl-lg" />
+          <span className="absolute top-0 right-0 w-8 h-8 border-t-4 border-r-4 border-white/90 rounded-tr-lg" />
+          <span className="absolute bottom-0 left-0 w-8 h-8 border-b-4 border-l-4 border-white/90 rounded-bl-lg" />
+          <span className="absolute bottom-0 right-0 w-8 h-8 border-b-4 border-r-4 border-white/90 rounded-br-lg" />
+          <span className="absolute top-1/2 left-1/2 w-4 h-4 -mt-2 -ml-2 border border-white/70 rounded-full" />
+        </div>
+      </div>
+      <p className="absolute top-3 inset-x-0 mx-auto w-max max-w-[90%] bg-black/60 rounded-full px-3 py-1 text-white text-xs font-medium text-center">
+        {t('camera.framingHint')}
+      </p>
+      <button
+        onClick={handleShutter}
+        disabled={!stream}
+        className="absolute bottom-4 left-1/2 -translate-x-1/2 w-16 h-16 rounded-full bg-white border-4 border-indigo-600 shadow-lg hover:bg-indigo-50 disabled:opacity-50"
+        aria-label={t('camera.shutter')}
+        title={t('camera.shutter')}
+      />
+    </div>
+  );
+};
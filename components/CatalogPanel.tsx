@@ -0,0 +1,249 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Modal } from './Modal';
+import { DownloadIcon, EditIcon, PlusIcon, TrashIcon, UploadIcon } from './Icons';
+import {
+  CatalogImage,
+  CatalogProduct,
+  CatalogSettings,
+  deleteCatalogImage,
+  deleteCatalogImagesForSku,
+  formatPrice,
+  listCatalogImages,
+  loadCatalogProducts,
+  loadCatalogSettings,
+  mergeProducts,
+  parsePrice,
+  parseProductsCsv,
+  saveCatalogProducts,
+  saveCatalogSettings,
+} from '../services/catalogService';
+import { createCatalogBundle } from '../services/catalogExportService';
+import { downloadBlob } from '../services/downloadService';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface CatalogPanelProps {
+  onClose: () => void;
+}
+
+interface ProductDraft {
+  originalSku: string | null;
+  sku: string;
+  name: string;
+  category: string;
+  price: string;
+  description: string;
+}
+
+const toDraft = (product?: CatalogProduct): ProductDraft => ({
+  originalSku: product?.sku ?? null,
+  sku: product?.sku ?? '',
+  name: product?.name ?? '',
+  category: product?.category ?? '',
+  price: product?.price?.toFixed(2).replace('.', ',') ?? '',
+  description: product?.description ?? '',
+});
+
+const inputClassName = 'w-full p-2 border border-slate-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500';
+
+export const CatalogPanel: React.FC<CatalogPanelProps> = ({ onClose }) => {
+  const { t } = useTranslation();
+  const csvInputRef = useRef<HTMLInputElement>(null);
+  const [products, setProducts] = useState<CatalogProduct[]>(loadCatalogProducts);
+  const [images, setImages] = useState<CatalogImage[]>([]);
+  const [settings, setSettings] = useState<CatalogSettings>(loadCatalogSettings);
+  const [draft, setDraft] = useState<ProductDraft | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+
+  const refreshImages = useCallback(async () => {
+    try {
+      setImages(await listCatalogImages());
+    } catch (err) {
+      console.error(err);
+      setError(t('catalog.loadError'));
+    }
+  }, [t]);
+
+  useEffect(() => {
+    refreshImages();
+  }, [refreshImages]);
+
+  const updateProducts = (next: CatalogProduct[]) => {
+    saveCatalogProducts(next);
+    setProducts(next);
+  };
+
+  const updateSettings = (changes: Partial<CatalogSettings>) => {
+    const next = { ...settings, ...changes };
+    saveCatalogSettings(next);
+    setSettings(next);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft || !draft.sku.trim() || !draft.name.trim()) return;
+    const product: CatalogProduct = {
+      sku: draft.sku.trim(),
+      name: draft.name.trim(),
+      category: draft.category.trim(),
+      price: parsePrice(draft.price),
+      description: draft.description.trim(),
+    };
+    if (product.sku !== draft.originalSku && products.some(p => p.sku === product.sku)) {
+      setError(t('catalog.duplicateSku', { sku: product.sku }));
+      return;
+    }
+    updateProducts(draft.originalSku
+      ? products.map(p => p.sku === draft.originalSku ? product : p)
+      : [...products, product]);
+    setDraft(null);
+    setError(null);
+  };
+
+  const handleDelete = async (product: CatalogProduct) => {
+    if (!window.confirm(t('catalog.deleteConfirm', { name: product.name }))) return;
+    updateProducts(products.filter(p => p.sku !== product.sku));
+    await deleteCatalogImagesForSku(product.sku);
+    refreshImages();
+  };
+
+  const handleDeleteImage = async (image: CatalogImage) => {
+    await deleteCatalogImage(image.id);
+    refreshImages();
+  };
+
+  const handleImportCsv = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { products: imported, skipped } = parseProductsCsv(await file.text());
+      updateProducts(mergeProducts(products, imported));
+      setMessage(skipped
+        ? t('catalog.importedWithSkipped', { count: imported.length, skipped })
+        : t('catalog.imported', { count: imported.length }));
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError((err as Error).message);
+    }
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      downloadBlob(await createCatalogBundle(products, images, settings), 'catalogo.zip');
+    } catch (err) {
+      console.error(err);
+      setError((err as Error).message);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  if (draft) {
+    return (
+      <Modal title={draft.originalSku ? t('catalog.editProduct') : t('catalog.newProduct')} onClose={() => setDraft(null)}>
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="flex gap-3">
+            <input type="text" value={draft.sku} onChange={(e) => setDraft({ ...draft, sku: e.target.value })} placeholder={t('catalog.sku')} className={inputClassName} required autoFocus />
+            <input type="text" inputMode="decimal" value={draft.price} onChange={(e) => setDraft({ ...draft, price: e.target.value })} placeholder={t('catalog.price')} className={inputClassName} />
+          </div>
+          <input type="text" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder={t('catalog.name')} className={inputClassName} required />
+          <input type="text" value={draft.category} onChange={(e) => setDraft({ ...draft, category: e.target.value })} placeholder={t('catalog.category')} className={inputClassName} />
+          <textarea value={draft.description} onChange={(e) => setDraft({ ...draft, description: e.target.value })} placeholder={t('catalog.description')} rows={3} className={inputClassName} />
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex justify-end gap-3 pt-2">
+            <button type="button" onClick={() => setDraft(null)} className="text-slate-600 hover:text-slate-800 font-medium text-sm transition-colors">
+              {t('common.cancel')}
+            </button>
+            <button type="submit" className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg shadow-sm hover:bg-indigo-700 transition-colors text-sm">
+              {t('catalog.saveProduct')}
+            </button>
+          </div>
+        </form>
+      </Modal>
+    );
+  }
+
+  return (
+    <Modal title={t('catalog.title')} onClose={onClose}>
+      <div className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <button onClick={() => setDraft(toDraft())} className="flex items-center gap-1 py-1.5 px-3 rounded-md text-sm font-medium text-indigo-600 bg-indigo-50 hover:bg-indigo-100 transition-colors">
+            <PlusIcon className="w-4 h-4" />
+            {t('catalog.addProduct')}
+          </button>
+          <button onClick={() => csvInputRef.current?.click()} className="flex items-center gap-1 py-1.5 px-3 rounded-md text-sm font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 transition-colors">
+            <UploadIcon className="w-4 h-4" />
+            {t('catalog.importCsv')}
+          </button>
+          <input ref={csvInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleImportCsv} />
+        </div>
+        <p className="text-xs text-slate-400">{t('catalog.csvHint')}</p>
+        {message && <p className="text-sm text-green-700">{message}</p>}
+
+        {products.length === 0 ? (
+          <p className="text-sm text-slate-500 text-center py-6">{t('catalog.empty')}</p>
+        ) : (
+          <ul className="divide-y divide-slate-100">
+            {products.map(product => {
+              const productImages = images.filter(image => image.sku === product.sku);
+              return (
+                <li key={product.sku} className="py-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-semibold text-slate-700 truncate">{product.name}</p>
+                      <p className="text-xs text-slate-400">{product.sku}{product.category && ` · ${product.category}`} · {formatPrice(product.price, settings.currency)}</p>
+                    </div>
+                    <div className="flex gap-1 flex-shrink-0">
+                      <button onClick={() => setDraft(toDraft(product))} className="p-1 text-slate-400 hover:text-indigo-600 transition-colors" aria-label={t('common.editItem', { name: product.name })}>
+                        <EditIcon className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => handleDelete(product)} className="p-1 text-slate-400 hover:text-red-600 transition-colors" aria-label={t('common.deleteItem', { name: product.name })}>
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                  {productImages.length > 0 ? (
+                    <div className="flex flex-wrap gap-2 mt-2">
+                      {productImages.map(image => (
+                        <div key={image.id} className="relative group">
+                          <img src={image.imageUrl} alt={product.name} className="w-14 h-14 object-cover rounded-md border border-slate-200" />
+                          <button onClick={() => handleDeleteImage(image)} className="absolute -top-1.5 -right-1.5 p-0.5 bg-white rounded-full shadow text-slate-400 hover:text-red-600 opacity-0 group-hover:opacity-100 transition-opacity" aria-label={t('catalog.removePhoto')}>
+                            <TrashIcon className="w-3.5 h-3.5" />
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-xs text-amber-600 mt-1">{t('catalog.noPhotos')}</p>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <div className="border-t border-slate-100 pt-3 space-y-2">
+          <p className="text-sm font-medium text-slate-700">{t('catalog.export')}</p>
+          <input type="url" value={settings.imageBaseUrl} onChange={(e) => updateSettings({ imageBaseUrl: e.target.value })} placeholder={t('catalog.imageBaseUrl')} className={inputClassName} />
+          <input type="url" value={settings.storeUrl} onChange={(e) => updateSettings({ storeUrl: e.target.value })} placeholder={t('catalog.storeUrl')} className={inputClassName} />
+          <input type="text" value={settings.brand} onChange={(e) => updateSettings({ brand: e.target.value })} placeholder={t('catalog.brand')} className={inputClassName} />
+          <p className="text-xs text-slate-400">{t('catalog.exportHint')}</p>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-end">
+          <button onClick={handleExport} disabled={isExporting || products.length === 0} className="flex items-center justify-center gap-2 bg-slate-700 text-white font-semibold py-2 px-4 rounded-lg shadow-sm hover:bg-slate-800 transition-colors text-sm disabled:bg-slate-400 disabled:cursor-not-allowed">
+            <DownloadIcon className="w-5 h-5" />
+            {isExporting ? t('catalog.exporting') : t('catalog.exportZip')}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
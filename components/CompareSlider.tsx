@@ -0,0 +1,35 @@
+import React, { useState } from 'react';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface CompareSliderProps {
+  beforeUrl: string;
+  afterUrl: string;
+  beforeLabel: string;
+  afterLabel: string;
+}
+
+export const CompareSlider: React.FC<CompareSliderProps> = ({ beforeUrl, afterUrl, beforeLabel, afterLabel }) => {
+  const { t } = useTranslation();
+  const [position, setPosition] = useState<number>(50);
+
+  return (
+    <div className="relative w-full h-full bg-white select-none">
+      <img src={afterUrl} alt={afterLabel} className="absolute inset-0 w-full h-full object-contain" />
+      <div className="absolute inset-0" style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}>
+        <img src={beforeUrl} alt={beforeLabel} className="w-full h-full object-contain bg-white" />
+      </div>
+      <div className="absolute inset-y-0 w-0.5 bg-indigo-600 pointer-events-none" style={{ left: `${position}%` }} />
+      <span className="absolute top-2 left-2 bg-black/60 text-white text-xs font-semibold px-2 py-1 rounded">{beforeLabel}</span>
+      <span className="absolute top-2 right-2 bg-black/60 text-white text-xs font-semibold px-2 py-1 rounded">{afterLabel}</span>
+      <input
+        type="range"
+        min={0}
+        max={100}
+        value={position}
+        onChange={(e) => setPosition(Number(e.target.value))}
+        className="absolute inset-0 w-full h-full opacity-0 cursor-ew-resize"
+        aria-label={t('compare.slider')}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,23 @@
+import React from 'react';
+import { ComplianceReport } from '../services/complianceService';
+import { ShoppingBagIcon, WarningIcon } from './Icons';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface ComplianceBadgeProps {
+  report: ComplianceReport;
+  className?: string;
+}
+
+export const ComplianceBadge: React.FC<ComplianceBadgeProps> = ({ report, className = '' }) => {
+  const { t } = useTranslation();
+  const title = report.passed ? t('compliance.passedHint', { width: report.width, height: report.height }) : report.issues.join('\n');
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-semibold shadow-sm ${report.passed ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'} ${className}`}
+      title={title}
+    >
+      {report.passed ? <ShoppingBagIcon className="w-3.5 h-3.5" /> : <WarningIcon className="w-3.5 h-3.5" />}
+      {report.passed ? t('compliance.passed') : t('compliance.failed')}
+    </span>
+  );
+};
@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from 'react';
+import { Modal } from './Modal';
+import { DownloadIcon } from './Icons';
+import {
+  EXPORT_FORMATS,
+  EXPORT_PRESETS,
+  ExportFormat,
+  ExportPreset,
+  getExportFileName,
+  getMimeTypeFromDataUrl,
+  renderExport,
+} from '../services/exportService';
+import { ImageResolution, UpscaleSettings, loadUpscaleSettings, measureResolution, saveUpscaleSettings } from '../services/upscaleService';
+import { UpscaleOptions } from './UpscaleOptions';
+import { createZip } from '../services/zipService';
+import { downloadBlob } from '../services/downloadService';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface ExportDialogProps {
+  imageUrl: string;
+  baseFileName: string;
+  onClose: () => void;
+}
+
+const getDefaultFormat = (preset: ExportPreset, imageUrl: string): ExportFormat => {
+  if (preset.id !== 'original') return preset.format;
+  const sourceMimeType = getMimeTypeFromDataUrl(imageUrl);
+  return EXPORT_FORMATS.some(f => f.value === sourceMimeType) ? sourceMimeType as ExportFormat : preset.format;
+};
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ imageUrl, baseFileName, onClose }) => {
+  const { t } = useTranslation();
+  const [preset, setPreset] = useState<ExportPreset>(EXPORT_PRESETS[0]);
+  const [format, setFormat] = useState<ExportFormat>(() => getDefaultFormat(EXPORT_PRESETS[0], imageUrl));
+  const [quality, setQuality] = useState<number>(EXPORT_PRESETS[0].quality);
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [upscale, setUpscale] = useState<UpscaleSettings>(loadUpscaleSettings);
+  const [resolution, setResolution] = useState<ImageResolution | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    measureResolution(imageUrl)
+      .then(measured => { if (active) setResolution(measured); })
+      .catch(err => console.error("Não foi possível medir a resolução da imagem:", err));
+    return () => { active = false; };
+  }, [imageUrl]);
+
+  const handlePresetChange = (next: ExportPreset) => {
+    setPreset(next);
+    setFormat(getDefaultFormat(next, imageUrl));
+    setQuality(next.quality);
+  };
+
+  const runExport = async (task: () => Promise<void>) => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      await task();
+    } catch (err) {
+      console.error(err);
+      setError(t('export.error'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const applyUpscale = () => {
+    const saved = saveUpscaleSettings(upscale);
+    setUpscale(saved);
+    return saved;
+  };
+
+  const handleExport = () => runExport(async () => {
+    const blob = await renderExport(imageUrl, preset, { format, quality, upscale: applyUpscale() });
+    downloadBlob(blob, getExportFileName(baseFileName, preset, format));
+  });
+
+  // Enlarging once per social format would be slow and pointless, so only the print file gets the print stage.
+  const handleExportAll = () => runExport(async () => {
+    const printUpscale = applyUpscale();
+    const entries = await Promise.all(EXPORT_PRESETS.map(async p => {
+      const presetFormat = getDefaultFormat(p, imageUrl);
+      return {
+        name: getExportFileName(baseFileName, p, presetFormat),
+        data: await renderExport(imageUrl, p, { format: presetFormat, quality: p.quality, upscale: p.id === 'print' ? printUpscale : undefined }),
+      };
+    }));
+    downloadBlob(await createZip(entries), `${baseFileName}.zip`);
+  });
+
+  return (
+    <Modal title={t('export.title')} onClose={onClose}>
+      <div className="space-y-4">
+        <div className="space-y-2">
+          {EXPORT_PRESETS.map(p => (
+            <label key={p.id} className={`flex items-center gap-3 p-3 border rounded-lg cursor-pointer transition-colors ${preset.id === p.id ? 'border-indigo-500 bg-indigo-50' : 'border-slate-200 hover:bg-slate-50'}`}>
+              <input type="radio" name="export-preset" checked={preset.id === p.id} onChange={() => handlePresetChange(p)} className="text-indigo-600 focus:ring-indigo-500" />
+              <div>
+                <p className="text-sm font-semibold text-slate-700">{t(p.labelKey)}</p>
+                <p className="text-xs text-slate-400">{t(p.descriptionKey)}</p>
+              </div>
+            </label>
+          ))}
+        </div>
+
+        <div className="flex gap-4">
+          <div className="flex-1">
+            <label htmlFor="export-format" className="block text-sm font-medium text-slate-700 mb-1">{t('export.format')}</label>
+            <select
+              id="export-format"
+              value={format}
+              onChange={(e) => setFormat(e.target.value as ExportFormat)}
+              className="w-full p-2 border border-slate-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500 text-sm"
+            >
+              {EXPORT_FORMATS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+            </select>
+          </div>
+          <div className="flex-1">
+            <label htmlFor="export-quality" className="block text-sm font-medium text-slate-700 mb-1">{t('export.quality', { percent: Math.round(quality * 100) })}</label>
+            <input
+              id="export-quality"
+              type="range"
+              min={0.5}
+              max={1}
+              step={0.01}
+              value={quality}
+              disabled={format === 'image/png' || format === 'image/tiff'}
+              onChange={(e) => setQuality(Number(e.target.value))}
+              className="w-full disabled:opacity-50"
+            />
+          </div>
+        </div>
+
+        <UpscaleOptions resolution={resolution} settings={upscale} onChange={setUpscale} />
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex flex-wrap justify-end gap-3 pt-2">
+          <button onClick={handleExportAll} disabled={isExporting} className="flex items-center justify-center gap-2 bg-white text-slate-700 font-semibold py-2 px-4 rounded-lg shadow-sm border border-slate-300 hover:bg-slate-50 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed">
+            {t('export.allFormats')}
+          </button>
+          <button onClick={handleExport} disabled={isExporting} className="flex items-center justify-center gap-2 bg-slate-700 text-white font-semibold py-2 px-4 rounded-lg shadow-sm hover:bg-slate-800 transition-colors text-sm disabled:bg-slate-400 disabled:cursor-not-allowed">
+            <DownloadIcon className="w-5 h-5" />
+            {isExporting ? t('export.exporting') : t('common.download')}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
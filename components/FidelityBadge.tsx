@@ -0,0 +1,23 @@
+import React from 'react';
+import { FidelityReport } from '../services/fidelityService';
+import { ShieldCheckIcon, WarningIcon } from './Icons';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface FidelityBadgeProps {
+  report: FidelityReport;
+  className?: string;
+}
+
+export const FidelityBadge: React.FC<FidelityBadgeProps> = ({ report, className = '' }) => {
+  const { t } = useTranslation();
+  const title = report.passed ? t('fidelity.passedHint') : report.issues.join('\n');
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-semibold shadow-sm ${report.passed ? 'bg-green-100 text-green-700' : 'bg-amber-100 text-amber-800'} ${className}`}
+      title={title}
+    >
+      {report.passed ? <ShieldCheckIcon className="w-3.5 h-3.5" /> : <WarningIcon className="w-3.5 h-3.5" />}
+      {report.passed ? t('fidelity.passed') : t('fidelity.check')}
+    </span>
+  );
+};
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { Modal } from './Modal';
+import { FidelitySettings, isTextDetectionSupported, loadFidelitySettings, saveFidelitySettings } from '../services/fidelityService';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface FidelitySettingsPanelProps {
+  onClose: () => void;
+}
+
+interface ThresholdFieldProps {
+  id: string;
+  label: string;
+  value: number;
+  disabled?: boolean;
+  onChange: (value: number) => void;
+}
+
+const ThresholdField: React.FC<ThresholdFieldProps> = ({ id, label, value, disabled, onChange }) => {
+  const { t } = useTranslation();
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-slate-700 mb-1">{t('fidelitySettings.threshold', { label, percent: Math.round(value * 100) })}</label>
+      <input id={id} type="range" min={0} max={1} step={0.01} value={value} disabled={disabled} onChange={(e) => onChange(Number(e.target.value))} className="w-full disabled:opacity-50" />
+    </div>
+  );
+};
+
+export const FidelitySettingsPanel: React.FC<FidelitySettingsPanelProps> = ({ onClose }) => {
+  const { t } = useTranslation();
+  const [settings, setSettings] = useState<FidelitySettings>(loadFidelitySettings);
+  const textSupported = isTextDetectionSupported();
+
+  const update = (changes: Partial<FidelitySettings>) => setSettings({ ...settings, ...changes });
+
+  const handleSave = () => {
+    saveFidelitySettings(settings);
+    onClose();
+  };
+
+  return (
+    <Modal title={t('fidelitySettings.title')} onClose={onClose}>
+      <div className="space-y-4">
+        <p className="text-sm text-slate-500">
+          {t('fidelitySettings.intro')}
+        </p>
+        <label className="flex items-center gap-2 text-sm font-medium text-slate-700">
+          <input type="checkbox" checked={settings.enabled} onChange={(e) => update({ enabled: e.target.checked })} className="rounded text-indigo-600 focus:ring-indigo-500" />
+          {t('fidelitySettings.enabled')}
+        </label>
+
+        <ThresholdField id="fidelity-color" label={t('fidelitySettings.color')} value={settings.minColorSimilarity} disabled={!settings.enabled} onChange={(value) => update({ minColorSimilarity: value })} />
+        <ThresholdField id="fidelity-shape" label={t('fidelitySettings.shape')} value={settings.minShapeSimilarity} disabled={!settings.enabled} onChange={(value) => update({ minShapeSimilarity: value })} />
+
+        <div>
+          <label className="flex items-center gap-2 text-sm font-medium text-slate-700">
+            <input type="checkbox" checked={settings.checkLabelText} disabled={!settings.enabled || !textSupported} onChange={(e) => update({ checkLabelText: e.target.checked })} className="rounded text-indigo-600 focus:ring-indigo-500" />
+            {t('fidelitySettings.labelText')}
+          </label>
+          {!textSupported && <p className="text-xs text-slate-400 mt-1">{t('fidelitySettings.noTextDetection')}</p>}
+        </div>
+        {settings.checkLabelText && textSupported && (
+          <ThresholdField id="fidelity-text" label={t('fidelitySettings.text')} value={settings.minTextSimilarity} disabled={!settings.enabled} onChange={(value) => update({ minTextSimilarity: value })} />
+        )}
+
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-sm font-medium text-slate-700">
+            <input type="checkbox" checked={settings.autoRegenerate} disabled={!settings.enabled} onChange={(e) => update({ autoRegenerate: e.target.checked })} className="rounded text-indigo-600 focus:ring-indigo-500" />
+            {t('fidelitySettings.autoRegenerate')}
+          </label>
+          <input
+            type="number"
+            min={1}
+            max={3}
+            value={settings.maxRegenerations}
+            disabled={!settings.enabled || !settings.autoRegenerate}
+            onChange={(e) => update({ maxRegenerations: Math.min(3, Math.max(1, Number(e.target.value) || 1)) })}
+            className="w-16 p-1 border border-slate-300 rounded-md text-sm disabled:opacity-50"
+            aria-label={t('fidelitySettings.maxRegenerations')}
+          />
+        </div>
+        <p className="text-xs text-slate-400">{t('fidelitySettings.costHint')}</p>
+
+        <div className="flex justify-end gap-3 pt-2">
+          <button onClick={onClose} className="text-slate-600 hover:text-slate-800 font-medium text-sm transition-colors">
+            {t('common.cancel')}
+          </button>
+          <button onClick={handleSave} className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg shadow-sm hover:bg-indigo-700 transition-colors text-sm">
+            {t('common.save')}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { Modal } from './Modal';
+import { ASPECT_RATIOS, AspectRatio, GenerationMode, MAX_VARIATION_COUNT, MIN_VARIATION_COUNT } from '../services/modeService';
+import { GENERATION_MODELS } from '../services/providers';
+import {
+  GenerationSettings,
+  DEFAULT_GENERATION_SETTINGS,
+  MAX_TEMPERATURE,
+  MIN_TEMPERATURE,
+  createSeed,
+} from '../services/generationSettingsService';
+import { LANGUAGES, Language } from '../services/i18n';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface GenerationSettingsPanelProps {
+  settings: GenerationSettings;
+  mode: GenerationMode;
+  onSave: (settings: GenerationSettings) => void;
+  onClose: () => void;
+}
+
+const VARIATION_OPTIONS = Array.from({ length: MAX_VARIATION_COUNT - MIN_VARIATION_COUNT + 1 }, (_, i) => MIN_VARIATION_COUNT + i);
+const DEFAULT_TEMPERATURE = 1;
+
+export const GenerationSettingsPanel: React.FC<GenerationSettingsPanelProps> = ({ settings: initialSettings, mode, onSave, onClose }) => {
+  const { t, promptLanguage: initialPromptLanguage, changePromptLanguage } = useTranslation();
+  const [settings, setSettings] = useState<GenerationSettings>(initialSettings);
+  const [promptLanguage, setPromptLanguage] = useState<Language>(initialPromptLanguage);
+
+  const update = (changes: Partial<GenerationSettings>) => setSettings({ ...settings, ...changes });
+
+  const handleSave = () => {
+    onSave(settings);
+    changePromptLanguage(promptLanguage);
+    onClose();
+  };
+
+  return (
+    <Modal title={t('generationSettings.title')} onClose={onClose}>
+      <div className="space-y-4">
+        <div className="flex gap-4">
+          <div className="flex-1">
+            <label htmlFor="settings-count" className="block text-sm font-medium text-slate-700 mb-1">{t('generationSettings.variations')}</label>
+            <select
+              id="settings-count"
+              value={settings.variationCount ?? ''}
+              onChange={(e) => update({ variationCount: e.target.value ? Number(e.target.value) : null })}
+              className="w-full p-2 border border-slate-300 rounded-md bg-white text-sm focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              <option value="">{t('generationSettings.modeDefault', { value: mode.variationCount })}</option>
+              {VARIATION_OPTIONS.map(count => <option key={count} value={count}>{count}</option>)}
+            </select>
+          </div>
+          <div className="flex-1">
+            <label htmlFor="settings-aspect" className="block text-sm font-medium text-slate-700 mb-1">{t('generationSettings.aspectRatio')}</label>
+            <select
+              id="settings-aspect"
+              value={settings.aspectRatio ?? ''}
+              onChange={(e) => update({ aspectRatio: (e.target.value || null) as AspectRatio | null })}
+              className="w-full p-2 border border-slate-300 rounded-md bg-white text-sm focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              <option value="">{t('generationSettings.modeDefault', { value: mode.aspectRatio })}</option>
+              {ASPECT_RATIOS.map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="settings-model" className="block text-sm font-medium text-slate-700 mb-1">{t('generationSettings.model')}</label>
+          <select
+            id="settings-model"
+            value={settings.model ?? ''}
+            onChange={(e) => update({ model: e.target.value || null })}
+            className="w-full p-2 border border-slate-300 rounded-md bg-white text-sm focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            <option value="">{t('generationSettings.serverDefault')}</option>
+            {GENERATION_MODELS.map(model => <option key={model.id} value={model.id}>{model.label}</option>)}
+          </select>
+        </div>
+
+        <div>
+          <label className="flex items-center gap-2 text-sm font-medium text-slate-700 mb-1">
+            <input
+              type="checkbox"
+              checked={settings.temperature !== null}
+              onChange={(e) => update({ temperature: e.target.checked ? DEFAULT_TEMPERATURE : null })}
+              className="rounded text-indigo-600 focus:ring-indigo-500"
+            />
+            {t('generationSettings.temperature')}{settings.temperature !== null && ` (${settings.temperature.toFixed(1)})`}
+          </label>
+          <input
+            type="range"
+            min={MIN_TEMPERATURE}
+            max={MAX_TEMPERATURE}
+            step={0.1}
+            value={settings.temperature ?? DEFAULT_TEMPERATURE}
+            disabled={settings.temperature === null}
+            onChange={(e) => update({ temperature: Number(e.target.value) })}
+            className="w-full disabled:opacity-50"
+            aria-label={t('generationSettings.temperature')}
+          />
+          <p className="text-xs text-slate-400">{t('generationSettings.temperatureHint')}</p>
+        </div>
+
+        <div>
+          <label className="flex items-center gap-2 text-sm font-medium text-slate-700 mb-1">
+            <input
+              type="checkbox"
+              checked={settings.seed !== null}
+              onChange={(e) => update({ seed: e.target.checked ? createSeed() : null })}
+              className="rounded text-indigo-600 focus:ring-indigo-500"
+            />
+            {t('generationSettings.fixedSeed')}
+          </label>
+          <input
+            type="number"
+            min={0}
+            value={settings.seed ?? ''}
+            disabled={settings.seed === null}
+            onChange={(e) => update({ seed: e.target.value ? Math.max(0, Math.floor(Number(e.target.value))) : 0 })}
+            placeholder={t('generationSettings.randomSeed')}
+            className="w-full p-2 border border-slate-300 rounded-md text-sm disabled:opacity-50"
+            aria-label={t('generationSettings.seed')}
+          />
+          <p className="text-xs text-slate-400">{t('generationSettings.seedHint')}</p>
+        </div>
+
+        <div>
+          <label htmlFor="settings-prompt-language" className="block text-sm font-medium text-slate-700 mb-1">{t('generationSettings.promptLanguage')}</label>
+          <select
+            id="settings-prompt-language"
+            value={promptLanguage}
+            onChange={(e) => setPromptLanguage(e.target.value as Language)}
+            className="w-full p-2 border border-slate-300 rounded-md bg-white text-sm focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            {LANGUAGES.map(language => <option key={language.id} value={language.id}>{language.label}</option>)}
+          </select>
+          <p className="text-xs text-slate-400">{t('generationSettings.promptLanguageHint')}</p>
+        </div>
+
+        <p className="text-xs text-slate-400">{t('generationSettings.costHint')}</p>
+
+        <div className="flex items-center justify-between pt-2">
+          <button onClick={() => setSettings(DEFAULT_GENERATION_SETTINGS)} className="text-slate-500 hover:text-slate-700 font-medium text-sm transition-colors">
+            {t('common.restoreDefaults')}
+          </button>
+          <div className="flex gap-3">
+            <button onClick={onClose} className="text-slate-600 hover:text-slate-800 font-medium text-sm transition-colors">
+              {t('common.cancel')}
+            </button>
+            <button onClick={handleSave} className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg shadow-sm hover:bg-indigo-700 transition-colors text-sm">
+              {t('common.save')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,117 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Modal } from './Modal';
+import { Loader } from './Loader';
+import { StarIcon, TrashIcon } from './Icons';
+import {
+  HistoryEntry,
+  clearHistory,
+  deleteHistoryEntry,
+  groupHistoryByProduct,
+  listHistoryEntries,
+  updateHistoryEntry,
+} from '../services/historyService';
+import { getLanguage } from '../services/i18n';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface HistoryGalleryProps {
+  onOpen: (entry: HistoryEntry, imageUrl: string) => void;
+  onClose: () => void;
+}
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString(getLanguage(), { dateStyle: 'short', timeStyle: 'short' });
+
+export const HistoryGallery: React.FC<HistoryGalleryProps> = ({ onOpen, onClose }) => {
+  const { t } = useTranslation();
+  const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+  const [showFavoritesOnly, setShowFavoritesOnly] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setEntries(await listHistoryEntries());
+    } catch (err) {
+      console.error(err);
+      setError(t('history.loadError'));
+      setEntries([]);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleToggleFavorite = async (entry: HistoryEntry) => {
+    await updateHistoryEntry(entry.id, { favorite: !entry.favorite });
+    refresh();
+  };
+
+  const handleDelete = async (entry: HistoryEntry) => {
+    if (!window.confirm(t('history.deleteConfirm'))) return;
+    await deleteHistoryEntry(entry.id);
+    refresh();
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm(t('history.clearConfirm'))) return;
+    await clearHistory();
+    refresh();
+  };
+
+  const visibleEntries = (entries ?? []).filter(entry => !showFavoritesOnly || entry.favorite);
+  const groups = groupHistoryByProduct(visibleEntries);
+
+  return (
+    <Modal title={t('history.title')} onClose={onClose}>
+      {entries === null ? (
+        <div className="py-8"><Loader /></div>
+      ) : (
+        <div className="space-y-6">
+          <div className="flex items-center justify-between gap-4">
+            <label className="flex items-center gap-2 text-sm text-slate-600">
+              <input type="checkbox" checked={showFavoritesOnly} onChange={(e) => setShowFavoritesOnly(e.target.checked)} className="rounded text-indigo-600 focus:ring-indigo-500" />
+              {t('history.favoritesOnly')}
+            </label>
+            <button onClick={handleClear} disabled={entries.length === 0} className="text-slate-500 hover:text-red-600 text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+              {t('history.clear')}
+            </button>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {groups.length === 0 && !error && (
+            <p className="text-sm text-slate-400 text-center py-6">{t('history.empty')}</p>
+          )}
+
+          {groups.map(([productName, productEntries]) => (
+            <section key={productName}>
+              <h3 className="text-sm font-bold text-slate-700 mb-2 truncate">{productName}</h3>
+              <div className="space-y-3">
+                {productEntries.map(entry => (
+                  <div key={entry.id} className="border border-slate-200 rounded-lg p-2">
+                    <div className="flex items-center gap-2 mb-2">
+                      <p className="flex-grow min-w-0 text-xs text-slate-500 truncate" title={entry.prompt}>
+                        {entry.kind === 'refinement' ? t('history.refinement', { prompt: entry.prompt }) : entry.modeLabel} · {formatDate(entry.createdAt)}
+                      </p>
+                      <button onClick={() => handleToggleFavorite(entry)} className={`transition-colors ${entry.favorite ? 'text-amber-500' : 'text-slate-400 hover:text-amber-500'}`} aria-label={entry.favorite ? t('history.unfavorite') : t('history.favorite')} aria-pressed={entry.favorite}>
+                        <StarIcon className="w-5 h-5" filled={entry.favorite} />
+                      </button>
+                      <button onClick={() => handleDelete(entry)} className="text-slate-400 hover:text-red-600 transition-colors" aria-label={t('history.delete')}>
+                        <TrashIcon className="w-5 h-5" />
+                      </button>
+                    </div>
+                    <div className="grid grid-cols-4 gap-1">
+                      {entry.resultUrls.map((url, index) => (
+                        <button key={index} onClick={() => onOpen(entry, url)} className="aspect-square rounded-md overflow-hidden border-2 border-transparent hover:border-indigo-500 transition-colors" aria-label={t('history.openVariation', { index: index + 1 })}>
+                          <img src={url} alt={t('common.variationOf', { index: index + 1, name: productName })} className="w-full h-full object-cover" />
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </section>
+          ))}
+        </div>
+      )}
+    </Modal>
+  );
+};
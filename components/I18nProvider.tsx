@@ -0,0 +1,35 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { I18nContext } from '../hooks/useTranslation';
+import { Language, getLanguage, getPromptLanguage, setLanguage, setPromptLanguage } from '../services/i18n';
+
+interface I18nProviderProps {
+  children: React.ReactNode;
+}
+
+export const I18nProvider: React.FC<I18nProviderProps> = ({ children }) => {
+  const [language, setLanguageState] = useState<Language>(getLanguage);
+  const [promptLanguage, setPromptLanguageState] = useState<Language>(getPromptLanguage);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const changeLanguage = useCallback((next: Language) => {
+    setLanguage(next);
+    setLanguageState(next);
+    // Follows the new interface language unless a prompt language was chosen.
+    setPromptLanguageState(getPromptLanguage());
+  }, []);
+
+  const changePromptLanguage = useCallback((next: Language) => {
+    setPromptLanguage(next);
+    setPromptLanguageState(next);
+  }, []);
+
+  const value = useMemo(
+    () => ({ language, promptLanguage, changeLanguage, changePromptLanguage }),
+    [language, promptLanguage, changeLanguage, changePromptLanguage],
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
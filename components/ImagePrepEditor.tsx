@@ -0,0 +1,208 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import {
+  CropRect,
+  FULL_CROP,
+  MAX_EDGE_OPTIONS,
+  PreparationOptions,
+  Rotation,
+  decodeImageFile,
+  detectProductCrop,
+  getPreparedSize,
+  rotateCanvas,
+  saveMaxEdge,
+} from '../services/preprocessService';
+import { Loader } from './Loader';
+import { RotateLeftIcon, RotateRightIcon } from './Icons';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface ImagePrepEditorProps {
+  file: File;
+  options: PreparationOptions;
+  onChange: (options: PreparationOptions) => void;
+  onSourceReady: (source: HTMLCanvasElement) => void;
+  onError: (error: unknown) => void;
+}
+
+interface DisplayRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+type DragHandle = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+const PREVIEW_EDGE = 1280;
+const MIN_CROP = 0.05;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const applyDrag = (start: CropRect, handle: DragHandle, dx: number, dy: number): CropRect => {
+  if (handle === 'move') {
+    return { ...start, x: clamp(start.x + dx, 0, 1 - start.width), y: clamp(start.y + dy, 0, 1 - start.height) };
+  }
+  let left = start.x, top = start.y, right = start.x + start.width, bottom = start.y + start.height;
+  if (handle === 'nw' || handle === 'sw') left = clamp(left + dx, 0, right - MIN_CROP);
+  if (handle === 'ne' || handle === 'se') right = clamp(right + dx, left + MIN_CROP, 1);
+  if (handle === 'nw' || handle === 'ne') top = clamp(top + dy, 0, bottom - MIN_CROP);
+  if (handle === 'sw' || handle === 'se') bottom = clamp(bottom + dy, top + MIN_CROP, 1);
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+const handleClasses: Record<Exclude<DragHandle, 'move'>, string> = {
+  nw: '-left-1.5 -top-1.5 cursor-nwse-resize',
+  ne: '-right-1.5 -top-1.5 cursor-nesw-resize',
+  sw: '-left-1.5 -bottom-1.5 cursor-nesw-resize',
+  se: '-right-1.5 -bottom-1.5 cursor-nwse-resize',
+};
+
+export const ImagePrepEditor: React.FC<ImagePrepEditorProps> = ({ file, options, onChange, onSourceReady, onError }) => {
+  const { t } = useTranslation();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ handle: DragHandle; startX: number; startY: number; startCrop: CropRect } | null>(null);
+  const [source, setSource] = useState<HTMLCanvasElement | null>(null);
+  const [displayRect, setDisplayRect] = useState<DisplayRect | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSource(null);
+    decodeImageFile(file)
+      .then(canvas => {
+        if (cancelled) return;
+        setSource(canvas);
+        onSourceReady(canvas);
+      })
+      .catch(error => {
+        if (!cancelled) onError(error);
+      });
+    return () => { cancelled = true; };
+  }, [file]);
+
+  const preview = useMemo(() => {
+    if (!source) return null;
+    const canvas = rotateCanvas(source, options.rotation, PREVIEW_EDGE);
+    return { canvas, url: canvas.toDataURL('image/jpeg', 0.85) };
+  }, [source, options.rotation]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !preview) return;
+    const updateRect = () => {
+      const scale = Math.min(container.clientWidth / preview.canvas.width, container.clientHeight / preview.canvas.height);
+      const width = preview.canvas.width * scale;
+      const height = preview.canvas.height * scale;
+      setDisplayRect({ left: (container.clientWidth - width) / 2, top: (container.clientHeight - height) / 2, width, height });
+    };
+    updateRect();
+    const observer = new ResizeObserver(updateRect);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [preview]);
+
+  const crop = options.crop ?? FULL_CROP;
+
+  const handlePointerDown = (handle: DragHandle) => (e: React.PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { handle, startX: e.clientX, startY: e.clientY, startCrop: crop };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !displayRect) return;
+    const dx = (e.clientX - drag.startX) / displayRect.width;
+    const dy = (e.clientY - drag.startY) / displayRect.height;
+    onChange({ ...options, crop: applyDrag(drag.startCrop, drag.handle, dx, dy) });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const rotate = (delta: 90 | -90) => {
+    onChange({ ...options, rotation: ((options.rotation + delta + 360) % 360) as Rotation, crop: null });
+  };
+
+  const handleFitToProduct = () => {
+    if (preview) onChange({ ...options, crop: detectProductCrop(preview.canvas) });
+  };
+
+  const handleMaxEdgeChange = (maxEdge: number) => {
+    saveMaxEdge(maxEdge);
+    onChange({ ...options, maxEdge });
+  };
+
+  if (!source || !preview) {
+    return (
+      <div className="w-full h-full flex flex-col items-center justify-center text-center p-4">
+        <Loader />
+        <p className="text-slate-500 mt-4 text-sm font-medium">{t('prep.loading')}</p>
+      </div>
+    );
+  }
+
+  const outputSize = getPreparedSize(source.width, source.height, options);
+
+  return (
+    <div className="relative w-full h-full bg-slate-800" onClick={(e) => e.stopPropagation()}>
+      <div ref={containerRef} className="absolute inset-0 bottom-14">
+        {displayRect && (
+          <div className="absolute" style={displayRect}>
+            <img src={preview.url} alt={t('prep.previewAlt')} className="w-full h-full select-none" draggable={false} />
+            <div
+              className="absolute border-2 border-white cursor-move touch-none"
+              style={{
+                left: `${crop.x * 100}%`,
+                top: `${crop.y * 100}%`,
+                width: `${crop.width * 100}%`,
+                height: `${crop.height * 100}%`,
+                boxShadow: '0 0 0 9999px rgba(15, 23, 42, 0.55)',
+              }}
+              onPointerDown={handlePointerDown('move')}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            >
+              {(Object.keys(handleClasses) as Exclude<DragHandle, 'move'>[]).map(handle => (
+                <div
+                  key={handle}
+                  className={`absolute w-3 h-3 bg-white rounded-sm shadow ${handleClasses[handle]}`}
+                  onPointerDown={handlePointerDown(handle)}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={handlePointerUp}
+                  onPointerCancel={handlePointerUp}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+      <div className="absolute inset-x-0 bottom-0 h-14 px-2 flex items-center gap-2 bg-white/95 border-t border-slate-200 text-xs">
+        <button onClick={() => rotate(-90)} className="p-1.5 rounded-md text-slate-600 hover:bg-slate-100 transition-colors" aria-label={t('prep.rotateLeft')} title={t('prep.rotateLeft')}>
+          <RotateLeftIcon className="w-5 h-5" />
+        </button>
+        <button onClick={() => rotate(90)} className="p-1.5 rounded-md text-slate-600 hover:bg-slate-100 transition-colors" aria-label={t('prep.rotateRight')} title={t('prep.rotateRight')}>
+          <RotateRightIcon className="w-5 h-5" />
+        </button>
+        <button onClick={handleFitToProduct} className="px-2 py-1 rounded-md font-semibold text-indigo-600 hover:bg-indigo-50 transition-colors">
+          {t('prep.fitToProduct')}
+        </button>
+        {options.crop && (
+          <button onClick={() => onChange({ ...options, crop: null })} className="px-2 py-1 rounded-md font-semibold text-slate-500 hover:bg-slate-100 transition-colors">
+            {t('prep.noCrop')}
+          </button>
+        )}
+        <select
+          value={options.maxEdge}
+          onChange={(e) => handleMaxEdgeChange(Number(e.target.value))}
+          className="ml-auto p-1 border border-slate-300 rounded-md bg-white"
+          aria-label={t('prep.maxEdge')}
+          title={t('prep.maxEdgeHint')}
+        >
+          {MAX_EDGE_OPTIONS.map(edge => <option key={edge} value={edge}>{edge}px</option>)}
+        </select>
+        <span className="text-slate-400 whitespace-nowrap">{outputSize.width}×{outputSize.height}</span>
+      </div>
+    </div>
+  );
+};
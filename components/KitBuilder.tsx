@@ -0,0 +1,81 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { KitSetup, MAX_KIT_PRODUCTS, MIN_KIT_PRODUCTS, moveKitProduct, removeKitProduct } from '../services/kitService';
+import { ChevronLeftIcon, ChevronRightIcon, CloseIcon, PlusIcon, StarIcon } from './Icons';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface KitBuilderProps {
+  kit: KitSetup;
+  onChange: (kit: KitSetup) => void;
+}
+
+export const KitBuilder: React.FC<KitBuilderProps> = ({ kit, onChange }) => {
+  const { t } = useTranslation();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const previewUrls = useMemo(() => kit.files.map(file => URL.createObjectURL(file)), [kit.files]);
+
+  useEffect(() => () => previewUrls.forEach(url => URL.revokeObjectURL(url)), [previewUrls]);
+
+  const handleAdd = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const added = Array.from<File>(e.target.files ?? []).filter(file => file.type.startsWith('image/'));
+    onChange({ ...kit, files: [...kit.files, ...added].slice(0, MAX_KIT_PRODUCTS) });
+    e.target.value = '';
+  };
+
+  return (
+    <div className="w-full h-full bg-white overflow-y-auto p-4 space-y-4" onClick={(e) => e.stopPropagation()}>
+      <div>
+        <label htmlFor="kit-name" className="block text-sm font-medium text-slate-700 mb-1">{t('kit.name')}</label>
+        <input
+          id="kit-name"
+          type="text"
+          value={kit.name}
+          onChange={(e) => onChange({ ...kit, name: e.target.value })}
+          placeholder={t('kit.namePlaceholder')}
+          className="w-full p-2 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        />
+      </div>
+      <p className="text-xs text-slate-500">
+        {t('kit.hint', { min: MIN_KIT_PRODUCTS, max: MAX_KIT_PRODUCTS })}
+      </p>
+      <div className="grid grid-cols-3 gap-3">
+        {previewUrls.map((url, index) => {
+          const isHero = index === kit.heroIndex;
+          return (
+            <div key={url} className={`relative rounded-lg overflow-hidden border-2 ${isHero ? 'border-amber-400' : 'border-slate-200'}`}>
+              <img src={url} alt={t('kit.productAlt', { index: index + 1 })} className="w-full aspect-square object-cover" />
+              <span className="absolute top-1 left-1 bg-white/90 rounded-full w-5 h-5 text-xs font-semibold text-slate-700 flex items-center justify-center">{index + 1}</span>
+              <button
+                onClick={() => onChange(removeKitProduct(kit, index))}
+                className="absolute top-1 right-1 bg-white/90 rounded-full p-0.5 text-slate-600 hover:text-red-600"
+                aria-label={t('kit.removeProduct', { index: index + 1 })}
+              >
+                <CloseIcon className="w-3.5 h-3.5" />
+              </button>
+              <div className="absolute inset-x-0 bottom-0 flex items-center justify-between bg-white/90 px-1 py-0.5">
+                <button onClick={() => onChange(moveKitProduct(kit, index, index - 1))} disabled={index === 0} className="p-0.5 text-slate-600 hover:text-indigo-600 disabled:opacity-30" aria-label={t('kit.moveLeft')}>
+                  <ChevronLeftIcon className="w-4 h-4" />
+                </button>
+                <button onClick={() => onChange({ ...kit, heroIndex: index })} className={`p-0.5 ${isHero ? 'text-amber-500' : 'text-slate-400 hover:text-amber-500'}`} aria-pressed={isHero} aria-label={t('kit.hero')} title={t('kit.hero')}>
+                  <StarIcon className="w-4 h-4" filled={isHero} />
+                </button>
+                <button onClick={() => onChange(moveKitProduct(kit, index, index + 1))} disabled={index === kit.files.length - 1} className="p-0.5 text-slate-600 hover:text-indigo-600 disabled:opacity-30" aria-label={t('kit.moveRight')}>
+                  <ChevronRightIcon className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+        {kit.files.length < MAX_KIT_PRODUCTS && (
+          <button
+            onClick={() => inputRef.current?.click()}
+            className="aspect-square rounded-lg border-2 border-dashed border-slate-300 text-slate-400 hover:border-indigo-400 hover:text-indigo-500 flex flex-col items-center justify-center gap-1 text-xs font-medium transition-colors"
+          >
+            <PlusIcon className="w-6 h-6" />
+            {t('kit.addProduct')}
+          </button>
+        )}
+      </div>
+      <input ref={inputRef} type="file" accept="image/*" multiple className="hidden" onChange={handleAdd} />
+    </div>
+  );
+};
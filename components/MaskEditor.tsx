@@ -0,0 +1,216 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { MaskMode, exportMask } from '../services/maskService';
+import { loadImage } from '../services/imageUtils';
+import { TranslationKey } from '../services/i18n';
+import { useTranslation } from '../hooks/useTranslation';
+
+type MaskTool = 'brush' | 'lasso' | 'eraser';
+
+interface MaskEditorProps {
+  imageUrl: string;
+  onChange: (maskDataUrl: string | null) => void;
+}
+
+interface DisplayRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+const MODE_COLORS: Record<MaskMode, string> = {
+  edit: '#ef4444',
+  protect: '#3b82f6',
+};
+
+const toolLabels: Record<MaskTool, TranslationKey> = {
+  brush: 'mask.brush',
+  lasso: 'mask.lasso',
+  eraser: 'mask.eraser',
+};
+
+export const MaskEditor: React.FC<MaskEditorProps> = ({ imageUrl, onChange }) => {
+  const { t } = useTranslation();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+  const [displayRect, setDisplayRect] = useState<DisplayRect | null>(null);
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [mode, setMode] = useState<MaskMode>('edit');
+  const [brushSize, setBrushSize] = useState<number>(40);
+  const [lassoPoints, setLassoPoints] = useState<{ x: number; y: number }[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(imageUrl).then(img => {
+      if (!cancelled) setNaturalSize({ width: img.naturalWidth, height: img.naturalHeight });
+    });
+    return () => { cancelled = true; };
+  }, [imageUrl]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !naturalSize) return;
+    const updateRect = () => {
+      const scale = Math.min(container.clientWidth / naturalSize.width, container.clientHeight / naturalSize.height);
+      const width = naturalSize.width * scale;
+      const height = naturalSize.height * scale;
+      setDisplayRect({ left: (container.clientWidth - width) / 2, top: (container.clientHeight - height) / 2, width, height });
+    };
+    updateRect();
+    const observer = new ResizeObserver(updateRect);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [naturalSize]);
+
+  const emitMask = useCallback((currentMode: MaskMode) => {
+    if (canvasRef.current) onChange(exportMask(canvasRef.current, currentMode));
+  }, [onChange]);
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const getContext = () => canvasRef.current?.getContext('2d') ?? null;
+
+  const drawSegment = (from: { x: number; y: number }, to: { x: number; y: number }) => {
+    const ctx = getContext();
+    const canvas = canvasRef.current;
+    if (!ctx || !canvas || !displayRect) return;
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = MODE_COLORS[mode];
+    ctx.lineWidth = brushSize * (canvas.width / displayRect.width);
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = getPoint(e);
+    if (tool === 'lasso') {
+      setLassoPoints([point]);
+    } else {
+      drawSegment(point, point);
+    }
+    lastPointRef.current = point;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!lastPointRef.current) return;
+    const point = getPoint(e);
+    if (tool === 'lasso') {
+      setLassoPoints(prev => [...prev, point]);
+    } else {
+      drawSegment(lastPointRef.current, point);
+    }
+    lastPointRef.current = point;
+  };
+
+  const handlePointerUp = () => {
+    if (!lastPointRef.current) return;
+    lastPointRef.current = null;
+    const ctx = getContext();
+    if (tool === 'lasso' && ctx && lassoPoints.length > 2) {
+      ctx.globalCompositeOperation = 'source-over';
+      ctx.fillStyle = MODE_COLORS[mode];
+      ctx.beginPath();
+      lassoPoints.forEach((point, index) => index === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y));
+      ctx.closePath();
+      ctx.fill();
+    }
+    setLassoPoints([]);
+    emitMask(mode);
+  };
+
+  const handleModeChange = (nextMode: MaskMode) => {
+    const ctx = getContext();
+    const canvas = canvasRef.current;
+    if (ctx && canvas) {
+      ctx.globalCompositeOperation = 'source-in';
+      ctx.fillStyle = MODE_COLORS[nextMode];
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    setMode(nextMode);
+    emitMask(nextMode);
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    onChange(null);
+  };
+
+  return (
+    <div className="relative w-full h-full bg-white">
+      <div ref={containerRef} className="absolute inset-0 bottom-14">
+        <img src={imageUrl} alt={t('editing.selectedImageAlt')} className="w-full h-full object-contain" />
+        {naturalSize && displayRect && (
+          <>
+            <canvas
+              ref={canvasRef}
+              width={naturalSize.width}
+              height={naturalSize.height}
+              className="absolute opacity-50 touch-none cursor-crosshair"
+              style={displayRect}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            />
+            {lassoPoints.length > 1 && (
+              <svg className="absolute pointer-events-none" style={displayRect} viewBox={`0 0 ${naturalSize.width} ${naturalSize.height}`}>
+                <polyline
+                  points={lassoPoints.map(p => `${p.x},${p.y}`).join(' ')}
+                  fill="none"
+                  stroke={MODE_COLORS[mode]}
+                  strokeWidth={naturalSize.width / 200}
+                  strokeDasharray={naturalSize.width / 100}
+                />
+              </svg>
+            )}
+          </>
+        )}
+      </div>
+      <div className="absolute inset-x-0 bottom-0 h-14 px-2 flex items-center gap-2 bg-white/95 border-t border-slate-200 text-xs">
+        <div className="flex bg-slate-200 rounded-md p-0.5">
+          {(Object.keys(toolLabels) as MaskTool[]).map(option => (
+            <button key={option} onClick={() => setTool(option)} className={`px-2 py-1 rounded font-semibold transition-colors ${tool === option ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`} aria-pressed={tool === option}>
+              {t(toolLabels[option])}
+            </button>
+          ))}
+        </div>
+        <div className="flex bg-slate-200 rounded-md p-0.5">
+          <button onClick={() => handleModeChange('edit')} className={`px-2 py-1 rounded font-semibold transition-colors ${mode === 'edit' ? 'bg-white text-red-600 shadow-sm' : 'text-slate-500'}`} aria-pressed={mode === 'edit'}>
+            {t('mask.edit')}
+          </button>
+          <button onClick={() => handleModeChange('protect')} className={`px-2 py-1 rounded font-semibold transition-colors ${mode === 'protect' ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'}`} aria-pressed={mode === 'protect'}>
+            {t('mask.protect')}
+          </button>
+        </div>
+        <input
+          type="range"
+          min={5}
+          max={120}
+          value={brushSize}
+          onChange={(e) => setBrushSize(Number(e.target.value))}
+          disabled={tool === 'lasso'}
+          className="w-20 flex-shrink disabled:opacity-40"
+          aria-label={t('mask.brushSize')}
+        />
+        <button onClick={handleClear} className="ml-auto text-slate-500 hover:text-red-600 font-semibold transition-colors">
+          {t('mask.clear')}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { Modal } from './Modal';
+import { PlusIcon, CopyIcon, TrashIcon, EditIcon } from './Icons';
+import {
+  ASPECT_RATIOS,
+  ASPECT_RATIO_PLACEHOLDER,
+  AspectRatio,
+  GenerationMode,
+  MAX_VARIATION_COUNT,
+  MIN_VARIATION_COUNT,
+  clampVariationCount,
+  createModeId,
+} from '../services/modeService';
+import { getPromptTexts, interpolate } from '../services/i18n';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface ModeManagerProps {
+  modes: GenerationMode[];
+  onSave: (mode: GenerationMode) => void;
+  onDuplicate: (mode: GenerationMode) => GenerationMode;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const newModeDraft = (): GenerationMode => ({
+  id: '',
+  label: '',
+  promptTemplate: interpolate(getPromptTexts().newMode, { placeholder: ASPECT_RATIO_PLACEHOLDER }),
+  aspectRatio: '1:1',
+  variationCount: 4,
+});
+
+export const ModeManager: React.FC<ModeManagerProps> = ({ modes, onSave, onDuplicate, onDelete, onClose }) => {
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState<GenerationMode | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft || !draft.label.trim() || !draft.promptTemplate.trim()) return;
+    onSave({
+      ...draft,
+      id: draft.id || createModeId(draft.label),
+      label: draft.label.trim(),
+      variationCount: clampVariationCount(draft.variationCount),
+    });
+    setDraft(null);
+  };
+
+  const handleDelete = (mode: GenerationMode) => {
+    if (window.confirm(t('modes.confirmDelete', { label: mode.label }))) {
+      onDelete(mode.id);
+    }
+  };
+
+  if (draft) {
+    return (
+      <Modal title={draft.id ? t('modes.edit') : t('modes.new')} onClose={() => setDraft(null)}>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="mode-label" className="block text-sm font-medium text-slate-700 mb-1">{t('modes.name')}</label>
+            <input
+              id="mode-label"
+              value={draft.label}
+              onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+              placeholder={t('modes.namePlaceholder')}
+              className="w-full p-2 border border-slate-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500 text-sm"
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="mode-prompt" className="block text-sm font-medium text-slate-700 mb-1">{t('modes.prompt')}</label>
+            <textarea
+              id="mode-prompt"
+              value={draft.promptTemplate}
+              onChange={(e) => setDraft({ ...draft, promptTemplate: e.target.value })}
+              className="w-full p-2 border border-slate-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500 text-sm font-mono"
+              rows={10}
+              required
+            />
+            <p className="text-xs text-slate-400 mt-1">{t('modes.placeholderHint', { placeholder: ASPECT_RATIO_PLACEHOLDER })}</p>
+          </div>
+          <div className="flex gap-4">
+            <div className="flex-1">
+              <label htmlFor="mode-aspect" className="block text-sm font-medium text-slate-700 mb-1">{t('generationSettings.aspectRatio')}</label>
+              <select
+                id="mode-aspect"
+                value={draft.aspectRatio}
+                onChange={(e) => setDraft({ ...draft, aspectRatio: e.target.value as AspectRatio })}
+                className="w-full p-2 border border-slate-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500 text-sm"
+              >
+                {ASPECT_RATIOS.map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+              </select>
+            </div>
+            <div className="flex-1">
+              <label htmlFor="mode-count" className="block text-sm font-medium text-slate-700 mb-1">{t('generationSettings.variations')}</label>
+              <input
+                id="mode-count"
+                type="number"
+                min={MIN_VARIATION_COUNT}
+                max={MAX_VARIATION_COUNT}
+                value={draft.variationCount}
+                onChange={(e) => setDraft({ ...draft, variationCount: Number(e.target.value) })}
+                className="w-full p-2 border border-slate-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500 text-sm"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-3 pt-2">
+            <button type="button" onClick={() => setDraft(null)} className="text-slate-600 hover:text-slate-800 font-medium text-sm transition-colors">
+              {t('common.cancel')}
+            </button>
+            <button type="submit" className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg shadow-sm hover:bg-indigo-700 transition-colors text-sm">
+              {t('modes.save')}
+            </button>
+          </div>
+        </form>
+      </Modal>
+    );
+  }
+
+  return (
+    <Modal title={t('modes.title')} onClose={onClose}>
+      <ul className="divide-y divide-slate-200 mb-4">
+        {modes.map(mode => (
+          <li key={mode.id} className="py-3 flex items-center gap-3">
+            <div className="flex-grow min-w-0">
+              <p className="text-sm font-semibold text-slate-700 truncate">{mode.label}</p>
+              <p className="text-xs text-slate-400">
+                {mode.aspectRatio} · {t('modes.variationCount', { count: mode.variationCount })}{mode.builtIn ? ` · ${t('modes.builtIn')}` : ''}
+              </p>
+            </div>
+            {!mode.builtIn && (
+              <button onClick={() => setDraft(mode)} className="text-slate-500 hover:text-indigo-600 transition-colors" aria-label={t('common.editItem', { name: mode.label })}>
+                <EditIcon className="w-5 h-5" />
+              </button>
+            )}
+            <button onClick={() => setDraft(onDuplicate(mode))} className="text-slate-500 hover:text-indigo-600 transition-colors" aria-label={t('modes.duplicate', { label: mode.label })}>
+              <CopyIcon className="w-5 h-5" />
+            </button>
+            {!mode.builtIn && (
+              <button onClick={() => handleDelete(mode)} className="text-slate-500 hover:text-red-600 transition-colors" aria-label={t('common.deleteItem', { name: mode.label })}>
+                <TrashIcon className="w-5 h-5" />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+      <button onClick={() => setDraft(newModeDraft())} className="w-full flex items-center justify-center gap-2 bg-white text-slate-700 font-semibold py-2 px-4 rounded-lg shadow-sm border border-slate-300 hover:bg-slate-50 transition-colors">
+        <PlusIcon className="w-5 h-5" />
+        {t('modes.new')}
+      </button>
+    </Modal>
+  );
+};
@@ -0,0 +1,128 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { OVERLAY_PADDING, OverlayLayer, getBorderRadius, getFontFamily, getFontWeight } from '../services/overlayService';
+import { loadImage } from '../services/imageUtils';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface OverlayLayersProps {
+  imageUrl: string;
+  layers: OverlayLayer[];
+  selectedId?: string | null;
+  onSelect?: (id: string | null) => void;
+  onMove?: (id: string, x: number, y: number) => void;
+}
+
+interface DisplayRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+// Live preview of the overlay; without onMove it is read-only.
+export const OverlayLayers: React.FC<OverlayLayersProps> = ({ imageUrl, layers, selectedId, onSelect, onMove }) => {
+  const { t } = useTranslation();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ id: string; startX: number; startY: number; layerX: number; layerY: number } | null>(null);
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+  const [displayRect, setDisplayRect] = useState<DisplayRect | null>(null);
+  const interactive = Boolean(onMove);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(imageUrl).then(img => {
+      if (!cancelled) setNaturalSize({ width: img.naturalWidth, height: img.naturalHeight });
+    });
+    return () => { cancelled = true; };
+  }, [imageUrl]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !naturalSize) return;
+    const updateRect = () => {
+      const scale = Math.min(container.clientWidth / naturalSize.width, container.clientHeight / naturalSize.height);
+      const width = naturalSize.width * scale;
+      const height = naturalSize.height * scale;
+      setDisplayRect({ left: (container.clientWidth - width) / 2, top: (container.clientHeight - height) / 2, width, height });
+    };
+    updateRect();
+    const observer = new ResizeObserver(updateRect);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [naturalSize]);
+
+  const handlePointerDown = (layer: OverlayLayer) => (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!interactive) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    onSelect?.(layer.id);
+    dragRef.current = { id: layer.id, startX: e.clientX, startY: e.clientY, layerX: layer.x, layerY: layer.y };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !displayRect) return;
+    onMove?.(
+      drag.id,
+      clamp(drag.layerX + (e.clientX - drag.startX) / displayRect.width),
+      clamp(drag.layerY + (e.clientY - drag.startY) / displayRect.height),
+    );
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <div ref={containerRef} className="relative w-full h-full bg-white overflow-hidden" onPointerDown={() => onSelect?.(null)}>
+      <img src={imageUrl} alt={t('editing.selectedImageAlt')} className="w-full h-full object-contain" />
+      {displayRect && (
+        <div className="absolute" style={displayRect}>
+          {layers.map(layer => {
+            const isSelected = interactive && layer.id === selectedId;
+            const style: React.CSSProperties = {
+              left: `${layer.x * 100}%`,
+              top: `${layer.y * 100}%`,
+              transform: 'translate(-50%, -50%)',
+              opacity: layer.opacity,
+            };
+            return (
+              <div
+                key={layer.id}
+                className={`absolute select-none touch-none ${interactive ? 'cursor-move' : 'pointer-events-none'} ${isSelected ? 'outline outline-2 outline-offset-2 outline-indigo-500' : ''}`}
+                style={style}
+                onPointerDown={handlePointerDown(layer)}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+              >
+                {layer.kind === 'logo' ? (
+                  layer.imageUrl && <img src={layer.imageUrl} alt={t('overlay.logo')} draggable={false} style={{ width: layer.size * displayRect.width, maxWidth: 'none' }} />
+                ) : (
+                  <div
+                    style={{
+                      fontFamily: getFontFamily(layer.font),
+                      fontWeight: getFontWeight(layer),
+                      fontSize: layer.size * displayRect.width,
+                      lineHeight: OVERLAY_PADDING.lineHeight,
+                      color: layer.color,
+                      background: layer.background ?? 'transparent',
+                      padding: layer.background ? `${OVERLAY_PADDING.y}em ${OVERLAY_PADDING.x}em` : 0,
+                      borderRadius: getBorderRadius(layer),
+                      textShadow: layer.background ? 'none' : '0 0 0.15em rgba(0, 0, 0, 0.45)',
+                      textAlign: 'center',
+                      whiteSpace: 'pre',
+                    }}
+                  >
+                    {layer.text}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
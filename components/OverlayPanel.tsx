@@ -0,0 +1,205 @@
+import React, { useRef, useState } from 'react';
+import {
+  OVERLAY_FONTS,
+  OverlayFontId,
+  OverlayKind,
+  OverlayLayer,
+  OverlayTemplate,
+  cloneLayers,
+  createOverlayLayer,
+  getBadgePresets,
+  loadOverlayTemplates,
+  saveOverlayTemplates,
+} from '../services/overlayService';
+import { readFileAsDataUrl, resizeImageToDataUrl } from '../services/imageUtils';
+import { PlusIcon, TrashIcon } from './Icons';
+import { TranslationKey } from '../services/i18n';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface OverlayPanelProps {
+  layers: OverlayLayer[];
+  selectedId: string | null;
+  onChange: (layers: OverlayLayer[]) => void;
+  onSelect: (id: string | null) => void;
+}
+
+const LOGO_MAX_EDGE = 512;
+
+const kindLabels: Record<OverlayKind, TranslationKey> = {
+  text: 'overlay.text',
+  price: 'overlay.price',
+  badge: 'overlay.badge',
+  logo: 'overlay.logo',
+};
+
+export const OverlayPanel: React.FC<OverlayPanelProps> = ({ layers, selectedId, onChange, onSelect }) => {
+  const { t } = useTranslation();
+  const logoInputRef = useRef<HTMLInputElement>(null);
+  const [templates, setTemplates] = useState<OverlayTemplate[]>(loadOverlayTemplates);
+  const [templateName, setTemplateName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const selected = layers.find(layer => layer.id === selectedId) ?? null;
+
+  const addLayer = (layer: OverlayLayer) => {
+    onChange([...layers, layer]);
+    onSelect(layer.id);
+  };
+
+  const updateSelected = (changes: Partial<OverlayLayer>) => {
+    if (!selected) return;
+    onChange(layers.map(layer => layer.id === selected.id ? { ...layer, ...changes } : layer));
+  };
+
+  const removeSelected = () => {
+    if (!selected) return;
+    onChange(layers.filter(layer => layer.id !== selected.id));
+    onSelect(null);
+  };
+
+  const handleLogoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const logoUrl = await resizeImageToDataUrl(await readFileAsDataUrl(file), LOGO_MAX_EDGE, 'image/png');
+    addLayer(createOverlayLayer('logo', logoUrl));
+  };
+
+  const updateTemplates = (next: OverlayTemplate[]) => {
+    try {
+      saveOverlayTemplates(next);
+      setTemplates(next);
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleSaveTemplate = () => {
+    const name = templateName.trim();
+    if (!name || layers.length === 0) return;
+    updateTemplates([...templates.filter(template => template.name !== name), { id: `template-${Date.now()}`, name, layers }]);
+    setTemplateName('');
+  };
+
+  const applyTemplate = (template: OverlayTemplate) => {
+    onChange(cloneLayers(template.layers));
+    onSelect(null);
+  };
+
+  return (
+    <div className="p-4 border border-slate-200 rounded-lg bg-white space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium text-slate-700 mr-1">{t('overlay.add')}</span>
+        {(['text', 'price', 'badge'] as OverlayKind[]).map(kind => (
+          <button key={kind} onClick={() => addLayer(createOverlayLayer(kind))} className="flex items-center gap-1 py-1 px-2 rounded-md text-sm font-medium text-indigo-600 bg-indigo-50 hover:bg-indigo-100 transition-colors">
+            <PlusIcon className="w-4 h-4" />
+            {t(kindLabels[kind])}
+          </button>
+        ))}
+        <button onClick={() => logoInputRef.current?.click()} className="flex items-center gap-1 py-1 px-2 rounded-md text-sm font-medium text-indigo-600 bg-indigo-50 hover:bg-indigo-100 transition-colors">
+          <PlusIcon className="w-4 h-4" />
+          {t(kindLabels.logo)}
+        </button>
+        <input ref={logoInputRef} type="file" accept="image/*" className="hidden" onChange={handleLogoUpload} />
+      </div>
+
+      {selected ? (
+        <div className="space-y-3 border-t border-slate-100 pt-3">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-semibold text-slate-700">{t(kindLabels[selected.kind])}</p>
+            <button onClick={removeSelected} className="p-1 text-slate-400 hover:text-red-600 transition-colors" aria-label={t('overlay.removeLayer')}>
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          </div>
+          {selected.kind !== 'logo' && (
+            <>
+              {selected.kind === 'badge' && (
+                <div className="flex flex-wrap gap-1">
+                  {getBadgePresets().map(preset => (
+                    <button key={preset} onClick={() => updateSelected({ text: preset })} className={`py-0.5 px-2 rounded-full text-xs font-semibold transition-colors ${selected.text === preset ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}>
+                      {preset}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <textarea
+                value={selected.text}
+                onChange={(e) => updateSelected({ text: e.target.value })}
+                rows={selected.kind === 'text' ? 2 : 1}
+                className="w-full p-2 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                aria-label={t('overlay.text')}
+              />
+              <div className="flex flex-wrap items-center gap-3 text-sm text-slate-600">
+                <select value={selected.font} onChange={(e) => updateSelected({ font: e.target.value as OverlayFontId })} className="p-1 border border-slate-300 rounded-md bg-white" aria-label={t('overlay.font')}>
+                  {OVERLAY_FONTS.map(font => <option key={font.id} value={font.id} style={{ fontFamily: font.family }}>{t(font.labelKey)}</option>)}
+                </select>
+                <label className="flex items-center gap-1">
+                  {t('overlay.color')}
+                  <input type="color" value={selected.color} onChange={(e) => updateSelected({ color: e.target.value })} className="w-8 h-7 p-0 border border-slate-300 rounded" />
+                </label>
+                <label className="flex items-center gap-1">
+                  <input type="checkbox" checked={selected.background !== null} onChange={(e) => updateSelected({ background: e.target.checked ? '#b45309' : null })} className="rounded text-indigo-600 focus:ring-indigo-500" />
+                  {t('overlay.background')}
+                </label>
+                {selected.background !== null && (
+                  <input type="color" value={selected.background} onChange={(e) => updateSelected({ background: e.target.value })} className="w-8 h-7 p-0 border border-slate-300 rounded" aria-label={t('overlay.backgroundColor')} />
+                )}
+              </div>
+            </>
+          )}
+          <div className="grid grid-cols-2 gap-3 text-xs text-slate-500">
+            <label>
+              {t('overlay.size')}
+              <input
+                type="range"
+                min={selected.kind === 'logo' ? 0.05 : 0.02}
+                max={selected.kind === 'logo' ? 0.5 : 0.2}
+                step={0.005}
+                value={selected.size}
+                onChange={(e) => updateSelected({ size: Number(e.target.value) })}
+                className="w-full"
+              />
+            </label>
+            <label>
+              {t('overlay.opacity')}
+              <input type="range" min={0.1} max={1} step={0.05} value={selected.opacity} onChange={(e) => updateSelected({ opacity: Number(e.target.value) })} className="w-full" />
+            </label>
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-slate-400">
+          {layers.length > 0 ? t('overlay.selectHint') : t('overlay.emptyHint')}
+        </p>
+      )}
+
+      <div className="border-t border-slate-100 pt-3 space-y-2">
+        <p className="text-sm font-medium text-slate-700">{t('overlay.templates')}</p>
+        {templates.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {templates.map(template => (
+              <span key={template.id} className="flex items-center gap-1 bg-slate-100 rounded-full pl-3 pr-1 py-0.5 text-sm text-slate-700">
+                <button onClick={() => applyTemplate(template)} className="hover:text-indigo-600 transition-colors">{template.name}</button>
+                <button onClick={() => updateTemplates(templates.filter(other => other.id !== template.id))} className="p-0.5 text-slate-400 hover:text-red-600 transition-colors" aria-label={t('overlay.deleteTemplate', { name: template.name })}>
+                  <TrashIcon className="w-3.5 h-3.5" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={templateName}
+            onChange={(e) => setTemplateName(e.target.value)}
+            placeholder={t('overlay.templateName')}
+            className="flex-grow p-1.5 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          />
+          <button onClick={handleSaveTemplate} disabled={!templateName.trim() || layers.length === 0} className="py-1.5 px-3 rounded-md text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 transition-colors disabled:bg-indigo-300 disabled:cursor-not-allowed">
+            {t('overlay.saveTemplate')}
+          </button>
+        </div>
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { MAX_REFERENCE_PHOTOS, PRODUCT_ANGLES } from '../services/angleService';
+import { CloseIcon, PlusIcon } from './Icons';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface ReferencePhotosProps {
+  files: File[];
+  angleSet: boolean;
+  onFilesChange: (files: File[]) => void;
+  onAngleSetChange: (angleSet: boolean) => void;
+}
+
+export const ReferencePhotos: React.FC<ReferencePhotosProps> = ({ files, angleSet, onFilesChange, onAngleSetChange }) => {
+  const { t } = useTranslation();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const previewUrls = useMemo(() => files.map(file => URL.createObjectURL(file)), [files]);
+
+  useEffect(() => () => previewUrls.forEach(url => URL.revokeObjectURL(url)), [previewUrls]);
+
+  const handleAdd = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const added = Array.from<File>(e.target.files ?? []).filter(file => file.type.startsWith('image/'));
+    onFilesChange([...files, ...added].slice(0, MAX_REFERENCE_PHOTOS));
+    e.target.value = '';
+  };
+
+  return (
+    <div className="w-full bg-white rounded-lg border border-slate-200 p-3 space-y-3">
+      <div>
+        <p className="text-sm font-medium text-slate-700">{t('references.title')} <span className="text-slate-400 font-normal">{t('common.optional')}</span></p>
+        <p className="text-xs text-slate-400">{t('references.hint')}</p>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {previewUrls.map((url, index) => (
+          <div key={url} className="relative w-16 h-16 rounded-md overflow-hidden border border-slate-200">
+            <img src={url} alt={t('references.photoAlt', { index: index + 1 })} className="w-full h-full object-cover" />
+            <button
+              onClick={() => onFilesChange(files.filter((_, i) => i !== index))}
+              className="absolute top-0.5 right-0.5 bg-white/90 rounded-full p-0.5 text-slate-600 hover:text-red-600"
+              aria-label={t('references.remove')}
+            >
+              <CloseIcon className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+        {files.length < MAX_REFERENCE_PHOTOS && (
+          <button
+            onClick={() => inputRef.current?.click()}
+            className="w-16 h-16 rounded-md border-2 border-dashed border-slate-300 text-slate-400 hover:border-indigo-400 hover:text-indigo-500 flex items-center justify-center transition-colors"
+            aria-label={t('references.add')}
+          >
+            <PlusIcon className="w-6 h-6" />
+          </button>
+        )}
+        <input ref={inputRef} type="file" accept="image/*" multiple className="hidden" onChange={handleAdd} />
+      </div>
+      <label className="flex items-center gap-2 text-sm text-slate-700">
+        <input type="checkbox" checked={angleSet} onChange={(e) => onAngleSetChange(e.target.checked)} className="rounded text-indigo-600 focus:ring-indigo-500" />
+        {t('references.angleSet', { angles: PRODUCT_ANGLES.map(angle => t(`angle.${angle}`)).join(', ') })}
+      </label>
+    </div>
+  );
+};
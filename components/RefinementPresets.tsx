@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { PromptPreset, createPresetId } from '../services/presetService';
+import { useTranslation } from '../hooks/useTranslation';
+import { EditIcon, PlusIcon, TrashIcon } from './Icons';
+
+interface RefinementPresetsProps {
+  presets: PromptPreset[];
+  selectedIds: string[];
+  onToggle: (id: string) => void;
+  onSave: (preset: PromptPreset) => void;
+  onDelete: (id: string) => void;
+  onReset: () => void;
+}
+
+const emptyDraft = (): PromptPreset => ({ id: '', label: '', instruction: '' });
+
+export const RefinementPresets: React.FC<RefinementPresetsProps> = ({ presets, selectedIds, onToggle, onSave, onDelete, onReset }) => {
+  const { t } = useTranslation();
+  const [isManaging, setIsManaging] = useState<boolean>(false);
+  const [draft, setDraft] = useState<PromptPreset | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft || !draft.label.trim() || !draft.instruction.trim()) return;
+    onSave({ id: draft.id || createPresetId(), label: draft.label.trim(), instruction: draft.instruction.trim() });
+    setDraft(null);
+  };
+
+  const handleReset = () => {
+    if (window.confirm(t('presets.resetConfirm'))) {
+      onReset();
+      setDraft(null);
+    }
+  };
+
+  if (draft) {
+    return (
+      <form onSubmit={handleSubmit} className="space-y-2 mb-3">
+        <input
+          type="text"
+          value={draft.label}
+          onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+          placeholder={t('presets.namePlaceholder')}
+          className="w-full p-2 border border-slate-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500"
+          required
+          autoFocus
+        />
+        <textarea
+          value={draft.instruction}
+          onChange={(e) => setDraft({ ...draft, instruction: e.target.value })}
+          placeholder={t('presets.instructionPlaceholder')}
+          rows={3}
+          className="w-full p-2 border border-slate-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500"
+          required
+        />
+        <div className="flex justify-end gap-3">
+          <button type="button" onClick={() => setDraft(null)} className="text-slate-600 hover:text-slate-800 font-medium text-sm transition-colors">
+            {t('common.cancel')}
+          </button>
+          <button type="submit" className="bg-indigo-600 text-white font-semibold py-1.5 px-3 rounded-md hover:bg-indigo-700 transition-colors text-sm">
+            {t('presets.save')}
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div className="mb-3">
+      <div className="flex flex-wrap gap-2">
+        {presets.map(preset => {
+          const selected = selectedIds.includes(preset.id);
+          return isManaging ? (
+            <span key={preset.id} className="flex items-center gap-1 bg-slate-100 rounded-full pl-3 pr-1 py-0.5 text-sm text-slate-700">
+              {preset.label}
+              <button onClick={() => setDraft(preset)} className="p-0.5 text-slate-400 hover:text-indigo-600 transition-colors" aria-label={t('presets.edit', { label: preset.label })}>
+                <EditIcon className="w-3.5 h-3.5" />
+              </button>
+              <button onClick={() => onDelete(preset.id)} className="p-0.5 text-slate-400 hover:text-red-600 transition-colors" aria-label={t('presets.delete', { label: preset.label })}>
+                <TrashIcon className="w-3.5 h-3.5" />
+              </button>
+            </span>
+          ) : (
+            <button
+              key={preset.id}
+              onClick={() => onToggle(preset.id)}
+              title={preset.instruction}
+              aria-pressed={selected}
+              className={`py-1 px-3 rounded-full text-sm font-medium transition-colors ${selected ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'}`}
+            >
+              {preset.label}
+            </button>
+          );
+        })}
+        {isManaging && (
+          <button onClick={() => setDraft(emptyDraft())} className="flex items-center gap-1 py-1 px-3 rounded-full text-sm font-medium text-indigo-600 bg-indigo-50 hover:bg-indigo-100 transition-colors">
+            <PlusIcon className="w-4 h-4" />
+            {t('presets.new')}
+          </button>
+        )}
+      </div>
+      <div className="flex justify-end gap-3 mt-1">
+        {isManaging && (
+          <button onClick={handleReset} className="text-xs text-slate-500 hover:text-slate-700 font-medium transition-colors">
+            {t('common.restoreDefaults')}
+          </button>
+        )}
+        <button onClick={() => setIsManaging(!isManaging)} className="text-xs text-indigo-600 hover:text-indigo-700 font-medium transition-colors">
+          {isManaging ? t('presets.done') : t('presets.manage')}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,23 @@
+import React from 'react';
+import { ImageResolution, PRINT_DPI, REQUESTED_EDGE, formatCm, getPrintSizeCm, isBelowRequested } from '../services/upscaleService';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface ResolutionBadgeProps {
+  resolution: ImageResolution;
+  className?: string;
+}
+
+export const ResolutionBadge: React.FC<ResolutionBadgeProps> = ({ resolution, className = '' }) => {
+  const { t } = useTranslation();
+  const belowRequested = isBelowRequested(resolution);
+  const printSize = getPrintSizeCm(resolution, PRINT_DPI);
+  const printHint = t('upscale.printSize', { width: formatCm(printSize.width), height: formatCm(printSize.height), dpi: PRINT_DPI });
+  return (
+    <span
+      className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold shadow-sm ${belowRequested ? 'bg-amber-100 text-amber-800' : 'bg-white/90 text-slate-700'} ${className}`}
+      title={belowRequested ? `${t('upscale.belowRequested', { edge: REQUESTED_EDGE })}\n${printHint}` : printHint}
+    >
+      {resolution.width}×{resolution.height}
+    </span>
+  );
+};
@@ -0,0 +1,107 @@
+import React from 'react';
+import {
+  ImageResolution,
+  MAX_DPI,
+  MAX_SHARPEN,
+  MIN_DPI,
+  REQUESTED_EDGE,
+  UPSCALE_TARGETS,
+  UpscaleSettings,
+  formatCm,
+  getPrintSizeCm,
+  isBelowRequested,
+  isUpscaleActive,
+  resolveUpscaleSize,
+  sanitizeUpscaleSettings,
+} from '../services/upscaleService';
+import { WarningIcon } from './Icons';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface UpscaleOptionsProps {
+  resolution: ImageResolution | null;
+  settings: UpscaleSettings;
+  onChange: (settings: UpscaleSettings) => void;
+}
+
+export const UpscaleOptions: React.FC<UpscaleOptionsProps> = ({ resolution, settings, onChange }) => {
+  const { t } = useTranslation();
+  // The DPI field may hold a half-typed value; sizes are shown for what will actually be exported.
+  const effective = sanitizeUpscaleSettings(settings);
+
+  const describe = (size: ImageResolution) => {
+    const printSize = getPrintSizeCm(size, effective.dpi);
+    return t('upscale.sizeSummary', {
+      width: size.width,
+      height: size.height,
+      printWidth: formatCm(printSize.width),
+      printHeight: formatCm(printSize.height),
+      dpi: effective.dpi,
+    });
+  };
+
+  const output = resolution && resolveUpscaleSize(resolution, effective);
+
+  return (
+    <div className="space-y-3 p-3 border border-slate-200 rounded-lg">
+      <p className="text-sm font-semibold text-slate-700">{t('upscale.title')}</p>
+      {resolution && (
+        <div className="text-xs text-slate-500 space-y-1">
+          <p>{t('upscale.actual')} {describe(resolution)}</p>
+          {isBelowRequested(resolution) && (
+            <p className="flex items-start gap-1 text-amber-700">
+              <WarningIcon className="w-4 h-4 flex-shrink-0" />
+              {t('upscale.belowRequested', { edge: REQUESTED_EDGE })}
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="flex gap-4">
+        <div className="flex-1">
+          <label htmlFor="upscale-target" className="block text-sm font-medium text-slate-700 mb-1">{t('upscale.target')}</label>
+          <select
+            id="upscale-target"
+            value={settings.targetId}
+            onChange={(e) => onChange({ ...settings, targetId: e.target.value })}
+            className="w-full p-2 border border-slate-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500 text-sm"
+          >
+            {UPSCALE_TARGETS.map(target => <option key={target.id} value={target.id}>{t(target.labelKey)}</option>)}
+          </select>
+        </div>
+        <div className="w-24">
+          <label htmlFor="upscale-dpi" className="block text-sm font-medium text-slate-700 mb-1">{t('upscale.dpi')}</label>
+          <input
+            id="upscale-dpi"
+            type="number"
+            min={MIN_DPI}
+            max={MAX_DPI}
+            step={1}
+            value={settings.dpi}
+            onChange={(e) => onChange({ ...settings, dpi: Math.round(Number(e.target.value)) })}
+            className="w-full p-2 border border-slate-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500 text-sm"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="upscale-sharpen" className="block text-sm font-medium text-slate-700 mb-1">
+          {settings.sharpen > 0 ? t('upscale.sharpen', { percent: Math.round(settings.sharpen * 100) }) : t('upscale.sharpenOff')}
+        </label>
+        <input
+          id="upscale-sharpen"
+          type="range"
+          min={0}
+          max={MAX_SHARPEN}
+          step={0.05}
+          value={settings.sharpen}
+          onChange={(e) => onChange({ ...settings, sharpen: Number(e.target.value) })}
+          className="w-full"
+        />
+      </div>
+
+      {output && isUpscaleActive(effective) && (
+        <p className="text-xs text-slate-500">{t('upscale.output')} {describe(output)}</p>
+      )}
+    </div>
+  );
+};
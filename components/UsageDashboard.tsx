@@ -0,0 +1,185 @@
+import React, { useMemo, useState } from 'react';
+import { Modal } from './Modal';
+import {
+  BudgetAction,
+  UsageOperation,
+  UsageSettings,
+  clearUsageRecords,
+  formatUsd,
+  getBudgetStatus,
+  getDailyUsage,
+  getUsageRecords,
+  loadUsageSettings,
+  saveUsageSettings,
+  summarizeUsage,
+} from '../services/usageService';
+import { TranslationKey } from '../services/i18n';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface UsageDashboardProps {
+  onClose: () => void;
+}
+
+const SUMMARY_DAYS = 30;
+const CHART_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const operationLabels: Record<UsageOperation, TranslationKey> = {
+  generation: 'usage.generation',
+  refinement: 'usage.refinement',
+  kit: 'usage.kit',
+};
+
+const StatCard: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="bg-slate-50 rounded-lg p-3">
+    <p className="text-xs text-slate-500">{label}</p>
+    <p className="text-lg font-semibold text-slate-800">{value}</p>
+  </div>
+);
+
+export const UsageDashboard: React.FC<UsageDashboardProps> = ({ onClose }) => {
+  const { t } = useTranslation();
+  const [settings, setSettings] = useState<UsageSettings>(loadUsageSettings);
+  const [budgetInput, setBudgetInput] = useState<string>(settings.monthlyBudgetUsd?.toString() ?? '');
+  const [version, setVersion] = useState(0);
+
+  const { summary, daily, byOperation, budget } = useMemo(() => {
+    const since = Date.now() - SUMMARY_DAYS * DAY_MS;
+    const recent = getUsageRecords().filter(r => r.timestamp >= since);
+    return {
+      summary: summarizeUsage(recent),
+      daily: getDailyUsage(CHART_DAYS),
+      byOperation: (Object.keys(operationLabels) as UsageOperation[]).map(operation => ({
+        operation,
+        ...summarizeUsage(recent.filter(r => r.operation === operation)),
+      })),
+      budget: getBudgetStatus(settings),
+    };
+  }, [settings, version]);
+
+  const maxCalls = Math.max(1, ...daily.map(d => d.calls));
+
+  const handleSaveSettings = (changes: Partial<UsageSettings>) => {
+    const next = { ...settings, ...changes };
+    saveUsageSettings(next);
+    setSettings(next);
+  };
+
+  const handleBudgetBlur = () => {
+    const value = Number(budgetInput.replace(',', '.'));
+    handleSaveSettings({ monthlyBudgetUsd: budgetInput.trim() && value > 0 ? value : null });
+  };
+
+  const handleClear = () => {
+    if (window.confirm(t('usage.clearConfirm'))) {
+      clearUsageRecords();
+      setVersion(v => v + 1);
+    }
+  };
+
+  return (
+    <Modal title={t('usage.title')} onClose={onClose}>
+      <div className="space-y-5">
+        <section className="space-y-2">
+          <div className="flex items-baseline justify-between">
+            <p className="text-sm font-medium text-slate-700">{t('usage.monthSpent')}</p>
+            <p className="text-sm font-semibold text-slate-800">
+              {formatUsd(budget.spentUsd)}{budget.budgetUsd !== null && <span className="text-slate-400 font-normal"> {t('usage.ofBudget', { budget: formatUsd(budget.budgetUsd) })}</span>}
+            </p>
+          </div>
+          {budget.budgetUsd !== null && (
+            <div className="h-2 bg-slate-200 rounded-full overflow-hidden">
+              <div
+                className={`h-full ${budget.exceeded ? 'bg-red-500' : budget.nearLimit ? 'bg-amber-500' : 'bg-indigo-500'}`}
+                style={{ width: `${Math.min(100, budget.ratio * 100)}%` }}
+              />
+            </div>
+          )}
+          <div className="flex flex-wrap items-center gap-3 text-sm text-slate-600">
+            <label className="flex items-center gap-2">
+              {t('usage.monthlyBudget')}
+              <input
+                type="text"
+                inputMode="decimal"
+                value={budgetInput}
+                onChange={(e) => setBudgetInput(e.target.value)}
+                onBlur={handleBudgetBlur}
+                placeholder={t('usage.noLimit')}
+                className="w-24 p-1 border border-slate-300 rounded-md text-sm"
+              />
+            </label>
+            <select
+              value={settings.budgetAction}
+              onChange={(e) => handleSaveSettings({ budgetAction: e.target.value as BudgetAction })}
+              className="p-1 border border-slate-300 rounded-md bg-white text-sm"
+              aria-label={t('usage.budgetAction')}
+            >
+              <option value="warn">{t('usage.warn')}</option>
+              <option value="block">{t('usage.block')}</option>
+            </select>
+          </div>
+        </section>
+
+        <section>
+          <p className="text-sm font-medium text-slate-700 mb-2">{t('usage.lastDays', { days: SUMMARY_DAYS })}</p>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            <StatCard label={t('usage.calls')} value={String(summary.calls)} />
+            <StatCard label={t('usage.estimatedCost')} value={formatUsd(summary.costUsd)} />
+            <StatCard label={t('usage.failureRate')} value={`${Math.round(summary.failureRate * 100)}%`} />
+            <StatCard label={t('usage.averageLatency')} value={`${(summary.averageLatencyMs / 1000).toFixed(1)}s`} />
+          </div>
+        </section>
+
+        <section>
+          <p className="text-sm font-medium text-slate-700 mb-2">{t('usage.callsPerDay')}</p>
+          <div className="flex items-end gap-1 h-24">
+            {daily.map(day => (
+              <div
+                key={day.day}
+                className="flex-1 flex flex-col justify-end h-full"
+                title={t('usage.dayTooltip', { day: day.day.split('-').reverse().join('/'), calls: day.calls, failures: day.failures, cost: formatUsd(day.costUsd) })}
+              >
+                <div className="bg-red-400 rounded-t-sm" style={{ height: `${(day.failures / maxCalls) * 100}%` }} />
+                <div className={`bg-indigo-400 ${day.failures ? '' : 'rounded-t-sm'}`} style={{ height: `${((day.calls - day.failures) / maxCalls) * 100}%` }} />
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between text-[10px] text-slate-400 mt-1">
+            <span>{daily[0]?.day.split('-').reverse().slice(0, 2).join('/')}</span>
+            <span>{t('usage.today')}</span>
+          </div>
+        </section>
+
+        <section>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-slate-500">
+                <th className="font-medium pb-1">{t('usage.type')}</th>
+                <th className="font-medium pb-1 text-right">{t('usage.calls')}</th>
+                <th className="font-medium pb-1 text-right">{t('usage.failures')}</th>
+                <th className="font-medium pb-1 text-right">{t('usage.cost')}</th>
+              </tr>
+            </thead>
+            <tbody className="text-slate-700">
+              {byOperation.map(row => (
+                <tr key={row.operation} className="border-t border-slate-100">
+                  <td className="py-1">{t(operationLabels[row.operation])}</td>
+                  <td className="py-1 text-right">{row.calls}</td>
+                  <td className="py-1 text-right">{row.failures}</td>
+                  <td className="py-1 text-right">{formatUsd(row.costUsd)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+
+        <div className="flex items-center justify-between pt-2">
+          <p className="text-xs text-slate-400">{t('usage.disclaimer')}</p>
+          <button onClick={handleClear} className="text-sm text-slate-500 hover:text-red-600 font-medium transition-colors whitespace-nowrap ml-3">
+            {t('usage.clear')}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,51 @@
+import React from 'react';
+import { CompareIcon } from './Icons';
+import { VersionTree, flattenVersionTree, getVersionLabel, getVersionPath } from '../services/versionTree';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface VersionTreePanelProps {
+  tree: VersionTree;
+  selectedId: string;
+  compareId: string | null;
+  onSelect: (id: string) => void;
+  onCompare: (id: string) => void;
+}
+
+export const VersionTreePanel: React.FC<VersionTreePanelProps> = ({ tree, selectedId, compareId, onSelect, onCompare }) => {
+  const { t } = useTranslation();
+  const activePath = new Set(getVersionPath(tree, selectedId).map(node => node.id));
+
+  return (
+    <div className="p-4 border border-slate-200 rounded-lg bg-white">
+      <p className="text-sm font-medium text-slate-700 mb-2">{t('versions.title')}</p>
+      <ul className="max-h-56 overflow-y-auto space-y-1">
+        {flattenVersionTree(tree).map(({ node, depth }) => (
+          <li key={node.id} className="flex items-center gap-2" style={{ paddingLeft: depth * 16 }}>
+            <button
+              onClick={() => onSelect(node.id)}
+              className={`flex-grow min-w-0 flex items-center gap-2 rounded-md p-1 text-left transition-colors ${
+                node.id === selectedId ? 'bg-indigo-50 ring-1 ring-indigo-500' : activePath.has(node.id) ? 'bg-slate-50' : 'hover:bg-slate-50'
+              }`}
+              aria-current={node.id === selectedId}
+            >
+              <img src={node.imageUrl} alt="" className="w-10 h-10 rounded object-cover flex-shrink-0 border border-slate-200" />
+              <span className="min-w-0">
+                <span className="block text-xs font-semibold text-slate-700">{getVersionLabel(tree, node.id)}</span>
+                {node.prompt && <span className="block text-xs text-slate-400 truncate" title={node.prompt}>{node.prompt}</span>}
+              </span>
+            </button>
+            <button
+              onClick={() => onCompare(node.id)}
+              disabled={node.id === selectedId}
+              className={`p-1 rounded transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${compareId === node.id ? 'text-indigo-600' : 'text-slate-400 hover:text-indigo-600'}`}
+              aria-label={t('versions.compareWith', { version: getVersionLabel(tree, node.id) })}
+              aria-pressed={compareId === node.id}
+            >
+              <CompareIcon className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { generateImages } from '../services/geminiService';
+import { GenerationMode, renderModePrompt } from '../services/modeService';
+import { recordHistory } from '../services/historyService';
+import { getBaseFileName } from '../services/downloadService';
+import { isAbortError } from '../services/requestPipeline';
+import { getErrorDetails, toImageGenerationError } from '../services/imageErrors';
+
+export const BATCH_CONCURRENCY = 2;
+
+export type BatchItemStatus = 'queued' | 'generating' | 'done' | 'failed';
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  previewUrl: string;
+  mode: GenerationMode;
+  status: BatchItemStatus;
+  resultUrls: string[];
+  winnerUrl: string | null;
+  error: string | null;
+}
+
+let nextBatchId = 0;
+
+export const useBatchQueue = (concurrency: number = BATCH_CONCURRENCY) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const startedIds = useRef<Set<string>>(new Set());
+  const controllers = useRef<Map<string, AbortController>>(new Map());
+  const doneCallbacks = useRef<Map<string, (file: File) => void>>(new Map());
+
+  const updateItem = useCallback((id: string, changes: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+  }, []);
+
+  useEffect(() => {
+    const running = items.filter(item => item.status === 'generating').length;
+    const slots = concurrency - running;
+    if (slots <= 0) return;
+
+    const next = items
+      .filter(item => item.status === 'queued' && !startedIds.current.has(item.id))
+      .slice(0, slots);
+    if (next.length === 0) return;
+
+    next.forEach(item => {
+      startedIds.current.add(item.id);
+      updateItem(item.id, { status: 'generating', error: null });
+      const controller = new AbortController();
+      controllers.current.set(item.id, controller);
+      generateImages([item.file], item.mode, { signal: controller.signal })
+        .then(resultUrls => {
+          updateItem(item.id, { status: 'done', resultUrls, winnerUrl: null });
+          doneCallbacks.current.get(item.id)?.(item.file);
+          doneCallbacks.current.delete(item.id);
+          recordHistory({
+            kind: 'generation',
+            productName: getBaseFileName(item.file),
+            originalFile: item.file,
+            modeId: item.mode.id,
+            modeLabel: item.mode.label,
+            prompt: renderModePrompt(item.mode),
+            sourceImageUrl: null,
+            resultUrls,
+          });
+        })
+        .catch(err => {
+          if (isAbortError(err)) return;
+          console.error(err);
+          updateItem(item.id, { status: 'failed', error: getErrorDetails(toImageGenerationError(err).kind).title });
+        })
+        .finally(() => {
+          startedIds.current.delete(item.id);
+          controllers.current.delete(item.id);
+        });
+    });
+  }, [items, concurrency, updateItem]);
+
+  // `onDone` runs once per file after its generation succeeds, including after a retry.
+  const enqueue = useCallback((files: File[], mode: GenerationMode, onDone?: (file: File) => void) => {
+    const newItems: BatchItem[] = files.map(file => ({
+      id: `batch-${nextBatchId++}`,
+      file,
+      previewUrl: URL.createObjectURL(file),
+      mode,
+      status: 'queued',
+      resultUrls: [],
+      winnerUrl: null,
+      error: null,
+    }));
+    if (onDone) newItems.forEach(item => doneCallbacks.current.set(item.id, onDone));
+    setItems(prev => [...prev, ...newItems]);
+  }, []);
+
+  const retry = useCallback((id: string) => {
+    updateItem(id, { status: 'queued', error: null, resultUrls: [], winnerUrl: null });
+  }, [updateItem]);
+
+  const pickWinner = useCallback((id: string, url: string) => {
+    updateItem(id, { winnerUrl: url });
+  }, [updateItem]);
+
+  const clear = useCallback(() => {
+    controllers.current.forEach(controller => controller.abort());
+    controllers.current.clear();
+    doneCallbacks.current.clear();
+    setItems(prev => {
+      prev.forEach(item => URL.revokeObjectURL(item.previewUrl));
+      return [];
+    });
+    startedIds.current.clear();
+  }, []);
+
+  return { items, enqueue, retry, pickWinner, clear };
+};
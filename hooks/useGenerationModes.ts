@@ -0,0 +1,35 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { translate } from '../services/i18n';
+import { useTranslation } from './useTranslation';
+import { getBuiltInModes, GenerationMode, createModeId, loadCustomModes, saveCustomModes } from '../services/modeService';
+
+export const useGenerationModes = () => {
+  const [customModes, setCustomModes] = useState<GenerationMode[]>(loadCustomModes);
+
+  useEffect(() => {
+    saveCustomModes(customModes);
+  }, [customModes]);
+
+  const { language, promptLanguage } = useTranslation();
+  const builtInModes = useMemo(getBuiltInModes, [language, promptLanguage]);
+  const modes = [...builtInModes, ...customModes];
+
+  const saveMode = useCallback((mode: GenerationMode) => {
+    setCustomModes(prev => prev.some(m => m.id === mode.id)
+      ? prev.map(m => m.id === mode.id ? { ...mode, builtIn: false } : m)
+      : [...prev, { ...mode, builtIn: false }]);
+  }, []);
+
+  const duplicateMode = useCallback((mode: GenerationMode): GenerationMode => {
+    const label = translate('modes.copy', { label: mode.label });
+    const copy: GenerationMode = { ...mode, id: createModeId(label), label, builtIn: false, processingMessage: undefined };
+    setCustomModes(prev => [...prev, copy]);
+    return copy;
+  }, []);
+
+  const deleteMode = useCallback((id: string) => {
+    setCustomModes(prev => prev.filter(m => m.id !== id));
+  }, []);
+
+  return { modes, saveMode, duplicateMode, deleteMode };
+};
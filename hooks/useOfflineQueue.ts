@@ -0,0 +1,52 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { GenerationMode } from '../services/modeService';
+import { OfflineQueueItem, addOfflineQueueItem, deleteOfflineQueueItem, listOfflineQueueItems } from '../services/offlineQueueService';
+
+export const useOfflineQueue = () => {
+  const [isOnline, setIsOnline] = useState<boolean>(() => navigator.onLine);
+  const [items, setItems] = useState<OfflineQueueItem[]>([]);
+  // Items already handed to the batch in this session; they stay stored until `complete` removes them.
+  const takenIds = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    listOfflineQueueItems()
+      .then(setItems)
+      .catch(error => console.error("Não foi possível carregar a fila offline:", error));
+
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  const queue = useCallback(async (files: File[], mode: GenerationMode) => {
+    const added = await Promise.all(files.map(file => addOfflineQueueItem(file, mode)));
+    setItems(prev => [...prev, ...added]);
+  }, []);
+
+  // Hands back what is waiting and was not handed out yet, oldest first, without removing it from storage.
+  const take = useCallback(async (): Promise<OfflineQueueItem[]> => {
+    const queued = await listOfflineQueueItems();
+    const pending = queued.filter(item => !takenIds.current.has(item.id));
+    pending.forEach(item => takenIds.current.add(item.id));
+    return pending;
+  }, []);
+
+  // Removes an item once its photo was processed, so a closed tab or a failed generation keeps the capture.
+  const complete = useCallback(async (id: string) => {
+    await deleteOfflineQueueItem(id);
+    takenIds.current.delete(id);
+    setItems(prev => prev.filter(item => item.id !== id));
+  }, []);
+
+  // Makes items handed out but never processed (e.g. dropped from the batch) available to `take` again.
+  const release = useCallback((ids: string[]) => {
+    ids.forEach(id => takenIds.current.delete(id));
+  }, []);
+
+  return { isOnline, items, queue, take, complete, release };
+};
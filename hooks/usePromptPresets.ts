@@ -0,0 +1,31 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { PromptPreset, getDefaultPromptPresets, loadPromptPresets, localizePreset, savePromptPresets } from '../services/presetService';
+import { useTranslation } from './useTranslation';
+
+export const usePromptPresets = () => {
+  const [storedPresets, setPresets] = useState<PromptPreset[]>(loadPromptPresets);
+  const { language, promptLanguage } = useTranslation();
+
+  useEffect(() => {
+    savePromptPresets(storedPresets);
+  }, [storedPresets]);
+
+  const presets = useMemo(() => storedPresets.map(localizePreset), [storedPresets, language, promptLanguage]);
+
+  const savePreset = useCallback((preset: PromptPreset) => {
+    const edited = { ...preset, builtIn: false };
+    setPresets(prev => prev.some(p => p.id === preset.id)
+      ? prev.map(p => p.id === preset.id ? edited : p)
+      : [...prev, edited]);
+  }, []);
+
+  const deletePreset = useCallback((id: string) => {
+    setPresets(prev => prev.filter(p => p.id !== id));
+  }, []);
+
+  const resetPresets = useCallback(() => {
+    setPresets(getDefaultPromptPresets());
+  }, []);
+
+  return { presets, savePreset, deletePreset, resetPresets };
+};
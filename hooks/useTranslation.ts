@@ -0,0 +1,27 @@
+import { createContext, useCallback, useContext } from 'react';
+import { Language, TranslationKey, TranslationParams, getLanguage, getPromptLanguage, translate } from '../services/i18n';
+
+export interface I18nContextValue {
+  language: Language;
+  promptLanguage: Language;
+  changeLanguage: (language: Language) => void;
+  changePromptLanguage: (language: Language) => void;
+}
+
+export const I18nContext = createContext<I18nContextValue>({
+  language: getLanguage(),
+  promptLanguage: getPromptLanguage(),
+  changeLanguage: () => {},
+  changePromptLanguage: () => {},
+});
+
+// Components read `t` from here so they re-render when the language changes; `t` changes identity with the
+// language, so callbacks and memos that list it as a dependency pick up the new messages.
+export const useTranslation = () => {
+  const context = useContext(I18nContext);
+  const t = useCallback(
+    (key: TranslationKey, params?: TranslationParams) => translate(key, params),
+    [context.language],
+  );
+  return { ...context, t };
+};
@@ -0,0 +1,94 @@
+import { useState, useCallback } from 'react';
+import { VersionNode, VersionTree, addVersionChildren, createVersionTree } from '../services/versionTree';
+
+interface VersionTreeState {
+  tree: VersionTree | null;
+  selectedId: string | null;
+  gridParentId: string | null;
+  redoStack: string[];
+}
+
+const EMPTY_STATE: VersionTreeState = { tree: null, selectedId: null, gridParentId: null, redoStack: [] };
+
+export const useVersionTree = () => {
+  const [state, setState] = useState<VersionTreeState>(EMPTY_STATE);
+  const { tree, selectedId, gridParentId, redoStack } = state;
+
+  const reset = useCallback((originalImageUrl: string | null) => {
+    setState(originalImageUrl ? { ...EMPTY_STATE, tree: createVersionTree(originalImageUrl) } : EMPTY_STATE);
+  }, []);
+
+  // Adds a set of variations under `parentId` (the root when omitted) and shows them in the grid.
+  const addVariations = useCallback((imageUrls: string[], prompt: string, parentId?: string, seeds?: (number | undefined)[]) => {
+    setState(prev => {
+      if (!prev.tree) return prev;
+      const parent = parentId ?? prev.tree.rootId;
+      const { tree: nextTree } = addVersionChildren(prev.tree, parent, imageUrls, prompt, seeds);
+      return { tree: nextTree, selectedId: null, gridParentId: parent, redoStack: [] };
+    });
+  }, []);
+
+  // Rebuilds a tree from a saved session: original -> (optional source image) -> variations.
+  const restore = useCallback((originalImageUrl: string, imageUrls: string[], prompt: string, selectedUrl: string, sourceImageUrl?: string | null, seeds?: (number | undefined)[]) => {
+    let nextTree = createVersionTree(originalImageUrl);
+    let parentId = nextTree.rootId;
+    if (sourceImageUrl) {
+      const source = addVersionChildren(nextTree, parentId, [sourceImageUrl], '');
+      nextTree = source.tree;
+      parentId = source.childIds[0];
+    }
+    const { tree: restoredTree, childIds } = addVersionChildren(nextTree, parentId, imageUrls, prompt, seeds);
+    const selected = childIds.find(id => restoredTree.nodes[id].imageUrl === selectedUrl) ?? null;
+    setState({ tree: restoredTree, selectedId: selected, gridParentId: parentId, redoStack: [] });
+  }, []);
+
+  const select = useCallback((nodeId: string) => {
+    setState(prev => {
+      const node = prev.tree?.nodes[nodeId];
+      if (!node) return prev;
+      return { ...prev, selectedId: nodeId, gridParentId: node.parentId ?? nodeId, redoStack: [] };
+    });
+  }, []);
+
+  const deselect = useCallback(() => {
+    setState(prev => ({ ...prev, selectedId: null }));
+  }, []);
+
+  const undo = useCallback(() => {
+    setState(prev => {
+      const node = prev.selectedId ? prev.tree?.nodes[prev.selectedId] : undefined;
+      const parent = node?.parentId ? prev.tree?.nodes[node.parentId] : undefined;
+      if (!node || !parent) return prev;
+      return { ...prev, selectedId: parent.id, gridParentId: parent.parentId ?? parent.id, redoStack: [...prev.redoStack, node.id] };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setState(prev => {
+      const nextId = prev.redoStack[prev.redoStack.length - 1];
+      const next = nextId ? prev.tree?.nodes[nextId] : undefined;
+      if (!next) return prev;
+      return { ...prev, selectedId: next.id, gridParentId: next.parentId ?? next.id, redoStack: prev.redoStack.slice(0, -1) };
+    });
+  }, []);
+
+  const selectedNode: VersionNode | null = (tree && selectedId && tree.nodes[selectedId]) || null;
+  const gridNodes: VersionNode[] = tree && gridParentId
+    ? tree.nodes[gridParentId].childIds.map(id => tree.nodes[id])
+    : [];
+
+  return {
+    tree,
+    selectedNode,
+    gridNodes,
+    reset,
+    addVariations,
+    restore,
+    select,
+    deselect,
+    undo,
+    redo,
+    canUndo: Boolean(selectedNode?.parentId),
+    canRedo: redoStack.length > 0,
+  };
+};
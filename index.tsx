@@ -2,6 +2,8 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { I18nProvider } from './components/I18nProvider';
+import { registerServiceWorker } from './services/pwaService';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -11,7 +13,10 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <I18nProvider>
+      <App />
+    </I18nProvider>
   </React.StrictMode>
 );
-   
\ No newline at end of file
+
+registerServiceWorker();
@@ -0,0 +1,119 @@
+// Service worker: keeps the app shell available offline and receives photos from the OS share sheet.
+const SHELL_CACHE = 'emporio-shell-v2';
+const RUNTIME_CACHE = 'emporio-runtime-v2';
+const SHARE_CACHE = 'emporio-share';
+const SHELL_URLS = ['/', '/manifest.webmanifest', '/icon.svg'];
+// Written by the build (see vite.config.ts): the hashed /assets/ bundles the shell needs.
+const PRECACHE_MANIFEST_URL = '/precache-manifest.json';
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'aistudiocdn.com'];
+
+// The page registers the worker after its bundles already loaded, so they are fetched again here.
+const precacheShell = async () => {
+  const cache = await caches.open(SHELL_CACHE);
+  await cache.addAll(SHELL_URLS);
+  const response = await fetch(PRECACHE_MANIFEST_URL, { cache: 'no-store' });
+  if (response.ok) await cache.addAll(await response.json());
+};
+
+self.addEventListener('install', event => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  const current = [SHELL_CACHE, RUNTIME_CACHE, SHARE_CACHE];
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => !current.includes(key)).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Shared files are parked in a cache until the page picks them up (see services/pwaService.ts).
+const receiveShare = async request => {
+  const formData = await request.formData();
+  const files = formData.getAll('photos').filter(entry => entry instanceof File && entry.type.startsWith('image/'));
+  await caches.delete(SHARE_CACHE);
+  const cache = await caches.open(SHARE_CACHE);
+  await Promise.all(files.map((file, index) => cache.put(
+    `/shared/${Date.now()}-${index}`,
+    new Response(file, {
+      headers: {
+        'content-type': file.type,
+        'x-file-name': encodeURIComponent(file.name || `foto-${index + 1}.jpg`),
+      },
+    })
+  )));
+  return Response.redirect('/?share-target', 303);
+};
+
+const networkFirst = async request => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.put('/', response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match('/');
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// Bundles under /assets/ are content-hashed, so a cached copy never goes stale.
+const cacheFirst = async request => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(RUNTIME_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+const staleWhileRevalidate = async request => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  const cached = await cache.match(request);
+  const update = fetch(request)
+    .then(response => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(error => {
+      if (cached) return cached;
+      throw error;
+    });
+  return cached || update;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (request.method === 'POST' && url.origin === self.location.origin && url.pathname === '/share-target') {
+    event.respondWith(receiveShare(request));
+    return;
+  }
+  if (request.method !== 'GET') return;
+
+  if (url.origin === self.location.origin) {
+    // Generation calls must always reach the proxy.
+    if (url.pathname.startsWith('/api')) return;
+    if (request.mode === 'navigate') {
+      event.respondWith(networkFirst(request));
+      return;
+    }
+    if (url.pathname.startsWith('/assets/')) {
+      event.respondWith(cacheFirst(request));
+      return;
+    }
+    event.respondWith(staleWhileRevalidate(request));
+    return;
+  }
+
+  if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
@@ -0,0 +1,85 @@
+import { GoogleGenAI, Modality } from "@google/genai";
+import { UsageMetadata } from '../services/providers/types';
+import { createCodedError, isSafetyReason } from '../services/imageErrors';
+import { DEFAULT_GEMINI_MODEL } from '../services/providers/models';
+import { Upstream } from './upstream';
+
+
+let ai: GoogleGenAI | null = null;
+
+const getClient = (): GoogleGenAI => {
+  if (!ai) {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+      throw createCodedError('invalid-key', 'errors.missingApiKey');
+    }
+    ai = new GoogleGenAI({ apiKey, ...(process.env.GEMINI_BASE_URL ? { httpOptions: { baseUrl: process.env.GEMINI_BASE_URL } } : {}) });
+  }
+  return ai;
+};
+
+const getModel = () => process.env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL;
+
+const readUsageMetadata = (response: any): UsageMetadata | undefined => {
+  const metadata = response.usageMetadata;
+  if (!metadata) return undefined;
+  return {
+    promptTokens: metadata.promptTokenCount,
+    outputTokens: metadata.candidatesTokenCount,
+    totalTokens: metadata.totalTokenCount,
+  };
+};
+
+const processApiResponse = (response: any): string[] => {
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) {
+      throw createCodedError('safety', 'errors.promptBlocked', { reason: blockReason }, { reason: blockReason });
+    }
+
+    const imageUrls: string[] = [];
+    if (response.candidates && response.candidates.length > 0) {
+        for (const candidate of response.candidates) {
+            const part = candidate.content?.parts?.find(p => p.inlineData && p.inlineData.mimeType.startsWith('image/'));
+            if (part) {
+                const mimeType = part.inlineData.mimeType;
+                const base64ImageBytes: string = part.inlineData.data;
+                imageUrls.push(`data:${mimeType};base64,${base64ImageBytes}`);
+            }
+        }
+    }
+
+    if (imageUrls.length === 0) {
+      const finishReason = response.candidates?.find(c => isSafetyReason(c.finishReason))?.finishReason;
+      if (finishReason) {
+        throw createCodedError('safety', 'errors.imageBlocked', { reason: finishReason }, { reason: finishReason });
+      }
+      throw createCodedError('empty-response', 'errors.noImages');
+    }
+    
+    return imageUrls;
+}
+
+export const geminiUpstream: Upstream = {
+  id: 'gemini',
+  getModel,
+  generate: async ({ images, prompt, aspectRatio, mask, model = getModel(), temperature, seed }, signal) => {
+    const response = await getClient().models.generateContent({
+      model,
+      contents: {
+        parts: [
+          ...images.map(inlineData => ({ inlineData })),
+          ...(mask ? [{ inlineData: mask }] : []),
+          { text: prompt },
+        ],
+      },
+      config: {
+        responseModalities: [Modality.IMAGE],
+        abortSignal: signal,
+        ...(temperature !== undefined ? { temperature } : {}),
+        ...(seed !== undefined ? { seed } : {}),
+        ...(aspectRatio ? { imageConfig: { aspectRatio } } : {}),
+      },
+    });
+    return { imageUrls: processApiResponse(response), usage: readUsageMetadata(response), model };
+  },
+};
@@ -0,0 +1,260 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { ImageGenerationRequest, InlineImage } from '../services/providers/types';
+import { isGenerationModel } from '../services/providers/models';
+import { ImageErrorKind, ImageGenerationError, createCodedError, toImageGenerationError } from '../services/imageErrors';
+import { MAX_REQUEST_BODY_BYTES } from '../services/inputLimits';
+import { getUpstream } from './upstream';
+import { createRateLimiter } from './rateLimiter';
+import { logRequest } from './requestLog';
+
+if (existsSync('.env.local')) {
+  process.loadEnvFile('.env.local');
+}
+
+const PORT = Number(process.env.PROXY_PORT ?? 8787);
+const RATE_LIMIT_PER_MINUTE = Number(process.env.PROXY_RATE_LIMIT_PER_MINUTE ?? 30);
+const STATIC_DIR = path.resolve(process.env.PROXY_STATIC_DIR ?? 'dist');
+const ALLOWED_ORIGIN = process.env.PROXY_ALLOWED_ORIGIN ?? '';
+const ROUTES: Record<string, string> = {
+  '/api/generate': 'generate',
+  '/api/refine': 'refine',
+};
+
+const ERROR_STATUS: Record<ImageErrorKind, number> = {
+  'invalid-key': 500,
+  quota: 429,
+  safety: 422,
+  'invalid-input': 400,
+  network: 502,
+  'empty-response': 502,
+  budget: 402,
+  unknown: 502,
+};
+
+const STATIC_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.webmanifest': 'application/manifest+json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+};
+
+const rateLimiter = createRateLimiter(RATE_LIMIT_PER_MINUTE, 60_000);
+setInterval(() => rateLimiter.prune(), 60_000).unref();
+
+const getClientId = (req: IncomingMessage): string => {
+  const forwarded = process.env.PROXY_TRUST_FORWARDED === '1' ? req.headers['x-forwarded-for'] : undefined;
+  const address = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim() || req.socket.remoteAddress || 'unknown';
+  return address;
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+// An oversized body is rejected right away but not destroyed: Node discards the rest after the 413 is sent,
+// so the browser reads the error instead of a reset connection it would retry.
+// `message` is in the server's language; the browser translates `code` with `params` instead when it knows it.
+const toErrorBody = (error: ImageGenerationError) => ({
+  kind: error.kind,
+  message: error.message,
+  reason: error.reason,
+  code: error.code,
+  params: error.params,
+});
+
+const readJsonBody = (req: IncomingMessage): Promise<unknown> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  const onData = (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_REQUEST_BODY_BYTES) {
+      req.off('data', onData);
+      chunks.length = 0;
+      reject(createCodedError('invalid-input', 'errors.requestTooLarge', { max: Math.round(MAX_REQUEST_BODY_BYTES / 1024 / 1024) }, { status: 413 }));
+      return;
+    }
+    chunks.push(chunk);
+  };
+  req.on('data', onData);
+  req.on('end', () => {
+    if (size > MAX_REQUEST_BODY_BYTES) return;
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+    } catch {
+      reject(createCodedError('invalid-input', 'errors.invalidJson'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isInlineImage = (value: unknown): value is InlineImage =>
+  isRecord(value) && typeof value.data === 'string' && typeof value.mimeType === 'string';
+
+const isOptionalInlineImage = (value: unknown): value is InlineImage | undefined => value === undefined || isInlineImage(value);
+
+const isInteger = (value: unknown): value is number => Number.isInteger(value);
+
+const parseGenerationRequest = (body: unknown): ImageGenerationRequest => {
+  if (!isRecord(body) || !Array.isArray(body.images) || body.images.length === 0 || !body.images.every(isInlineImage)) {
+    throw createCodedError('invalid-input', 'errors.missingImages');
+  }
+  if (typeof body.prompt !== 'string' || !body.prompt.trim()) {
+    throw createCodedError('invalid-input', 'errors.missingPrompt');
+  }
+  const { images, prompt, mask, variation, aspectRatio, model, temperature, seed } = body;
+  if (!isOptionalInlineImage(mask)) {
+    throw createCodedError('invalid-input', 'errors.invalidMask');
+  }
+  return {
+    images,
+    prompt,
+    variation: isInteger(variation) ? variation : 0,
+    aspectRatio: typeof aspectRatio === 'string' ? aspectRatio : undefined,
+    mask,
+    model: isGenerationModel(model) ? model : undefined,
+    temperature: typeof temperature === 'number' && temperature >= 0 && temperature <= 2 ? temperature : undefined,
+    seed: isInteger(seed) ? seed : undefined,
+  };
+};
+
+const handleGeneration = async (req: IncomingMessage, res: ServerResponse, route: string) => {
+  const startedAt = Date.now();
+  const clientId = getClientId(req);
+  const upstream = getUpstream();
+  let model = upstream.getModel();
+  let request: ImageGenerationRequest | null = null;
+
+  const finish = (status: number, error?: ImageGenerationError) => logRequest({
+    time: new Date(startedAt).toISOString(),
+    clientId,
+    route,
+    status,
+    latencyMs: Date.now() - startedAt,
+    upstream: upstream.id,
+    model,
+    imageCount: request ? request.images.length + (request.mask ? 1 : 0) : 0,
+    promptLength: request?.prompt.length ?? 0,
+    ...(error ? { errorKind: error.kind, error: error.message } : {}),
+  });
+
+  const limit = rateLimiter.check(clientId);
+  if (!limit.allowed) {
+    const error = createCodedError('quota', 'errors.rateLimited');
+    sendJson(res, 429, { error: toErrorBody(error) }, { 'Retry-After': String(Math.ceil(limit.retryAfterMs / 1000)) });
+    finish(429, error);
+    return;
+  }
+
+  // Stops the upstream call when the browser cancels or times out the request.
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  try {
+    request = parseGenerationRequest(await readJsonBody(req));
+    model = request.model ?? model;
+    const result = await upstream.generate(request, controller.signal);
+    sendJson(res, 200, { ...result, model: result.model ?? model }, { 'X-RateLimit-Remaining': String(limit.remaining) });
+    finish(200);
+  } catch (err) {
+    const error = toImageGenerationError(err);
+    const status = error.status && (error.status === 413 || error.status === 429 || error.status >= 500) ? error.status : ERROR_STATUS[error.kind] ?? 502;
+    if (!res.writableEnded && !res.destroyed) {
+      sendJson(res, status, { error: toErrorBody(error) }, status === 413 ? { Connection: 'close' } : {});
+    }
+    finish(controller.signal.aborted ? 499 : status, error);
+  }
+};
+
+const isInsideStaticDir = (filePath: string): boolean => {
+  const relative = path.relative(STATIC_DIR, filePath);
+  return !!relative && !relative.startsWith('..') && !path.isAbsolute(relative);
+};
+
+const serveStatic = async (req: IncomingMessage, res: ServerResponse) => {
+  let urlPath: string;
+  try {
+    urlPath = decodeURIComponent(new URL(req.url ?? '/', 'http://localhost').pathname);
+  } catch {
+    sendJson(res, 400, { error: { kind: 'invalid-input', message: 'Endereço inválido.' } });
+    return;
+  }
+  const filePath = path.join(STATIC_DIR, urlPath);
+  const target = isInsideStaticDir(filePath) && existsSync(filePath) && !filePath.endsWith(path.sep) && path.extname(filePath)
+    ? filePath
+    : path.join(STATIC_DIR, 'index.html');
+  try {
+    const content = await readFile(target);
+    res.writeHead(200, { 'Content-Type': STATIC_TYPES[path.extname(target)] ?? 'application/octet-stream' });
+    res.end(content);
+  } catch {
+    sendJson(res, 404, { error: { kind: 'unknown', message: 'Não encontrado.' } });
+  }
+};
+
+// Only the configured origin may call the API from another origin; same-origin requests need no headers.
+const getCorsHeaders = (req: IncomingMessage): Record<string, string> => {
+  if (!ALLOWED_ORIGIN || (ALLOWED_ORIGIN !== '*' && req.headers.origin !== ALLOWED_ORIGIN)) return {};
+  return {
+    'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Max-Age': '600',
+    Vary: 'Origin',
+  };
+};
+
+// A failed request must never take the whole proxy down.
+const handleUnexpectedError = (res: ServerResponse) => (error: unknown) => {
+  console.error('[proxy] erro inesperado:', error);
+  if (!res.headersSent && !res.destroyed) {
+    sendJson(res, 500, { error: { kind: 'unknown', message: 'Erro interno do proxy.' } });
+  } else if (!res.writableEnded) {
+    res.destroy();
+  }
+};
+
+const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+  const pathname = new URL(req.url ?? '/', 'http://localhost').pathname;
+  const route = ROUTES[pathname];
+
+  if (pathname.startsWith('/api/')) {
+    for (const [name, value] of Object.entries(getCorsHeaders(req))) res.setHeader(name, value);
+  }
+
+  if (pathname.startsWith('/api/') && req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+  } else if (route && req.method === 'POST') {
+    await handleGeneration(req, res, route);
+  } else if (pathname === '/api/health' && req.method === 'GET') {
+    const upstream = getUpstream();
+    sendJson(res, 200, { ok: true, upstream: upstream.id, model: upstream.getModel() });
+  } else if (pathname.startsWith('/api/')) {
+    sendJson(res, 404, { error: { kind: 'unknown', message: 'Rota não encontrada.' } });
+  } else if (req.method === 'GET' && existsSync(STATIC_DIR)) {
+    await serveStatic(req, res);
+  } else {
+    sendJson(res, 404, { error: { kind: 'unknown', message: 'Não encontrado.' } });
+  }
+};
+
+const server = createServer((req, res) => {
+  handleRequest(req, res).catch(handleUnexpectedError(res));
+});
+
+server.listen(PORT, () => {
+  const upstream = getUpstream();
+  console.log(`[proxy] ouvindo em http://localhost:${PORT} (upstream: ${upstream.id}, modelo: ${upstream.getModel()}, limite: ${RATE_LIMIT_PER_MINUTE}/min)`);
+});
@@ -0,0 +1,29 @@
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number;
+}
+
+// Sliding-window limiter keyed by client id; keeps the timestamps of each client's recent requests.
+export const createRateLimiter = (limit: number, windowMs: number) => {
+  const hits = new Map<string, number[]>();
+
+  const check = (clientId: string, now = Date.now()): RateLimitResult => {
+    const recent = (hits.get(clientId) ?? []).filter(time => now - time < windowMs);
+    if (recent.length >= limit) {
+      hits.set(clientId, recent);
+      return { allowed: false, remaining: 0, retryAfterMs: windowMs - (now - recent[0]) };
+    }
+    recent.push(now);
+    hits.set(clientId, recent);
+    return { allowed: true, remaining: limit - recent.length, retryAfterMs: 0 };
+  };
+
+  const prune = (now = Date.now()) => {
+    hits.forEach((times, clientId) => {
+      if (times.every(time => now - time >= windowMs)) hits.delete(clientId);
+    });
+  };
+
+  return { check, prune };
+};
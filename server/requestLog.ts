@@ -0,0 +1,32 @@
+import { appendFile, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+
+export interface RequestLogEntry {
+  time: string;
+  clientId: string;
+  route: string;
+  status: number;
+  latencyMs: number;
+  upstream: string;
+  model: string;
+  imageCount: number;
+  promptLength: number;
+  errorKind?: string;
+  error?: string;
+}
+
+const LOG_FILE = process.env.PROXY_LOG_FILE || path.join('logs', 'proxy-requests.log');
+
+let ready: Promise<unknown> | null = null;
+
+// Appends one JSON line per request. Prompts and images are never written, only their sizes.
+export const logRequest = async (entry: RequestLogEntry) => {
+  console.log(`[proxy] ${entry.time} ${entry.clientId} ${entry.route} ${entry.status} ${entry.latencyMs}ms${entry.errorKind ? ` ${entry.errorKind}` : ''}`);
+  try {
+    ready ??= mkdir(path.dirname(LOG_FILE), { recursive: true });
+    await ready;
+    await appendFile(LOG_FILE, `${JSON.stringify(entry)}\n`);
+  } catch (error) {
+    console.error("Não foi possível gravar o log de requisições:", error);
+  }
+};
@@ -0,0 +1,33 @@
+import { Upstream } from './upstream';
+import { createCodedError, isImageErrorKind } from '../services/imageErrors';
+import { sleep } from '../services/requestPipeline';
+
+const STUB_DELAY_MS = Number(process.env.STUB_DELAY_MS ?? 300);
+
+// Echoes the first input image back so the whole app can run end to end without a Gemini key.
+// Prompts containing "[stub:<kind>]" fail with that error kind, e.g. "[stub:safety]" or "[stub:quota]"; unknown kinds are ignored.
+export const stubUpstream: Upstream = {
+  id: 'stub',
+  getModel: () => 'stub',
+  generate: async ({ images, prompt }, signal) => {
+    await sleep(STUB_DELAY_MS, signal);
+
+    const forced = prompt.match(/\[stub:([a-z-]+)\]/)?.[1];
+    if (forced === 'quota') {
+      throw Object.assign(new Error('RESOURCE_EXHAUSTED: stub quota'), { status: 429 });
+    }
+    if (isImageErrorKind(forced)) {
+      throw createCodedError(forced, 'errors.stubFailure', { kind: forced }, { reason: forced === 'safety' ? 'SAFETY' : undefined });
+    }
+
+    const [first] = images;
+    if (!first) {
+      throw createCodedError('empty-response', 'errors.noImages');
+    }
+    return {
+      imageUrls: [`data:${first.mimeType};base64,${first.data}`],
+      model: 'stub',
+      usage: { promptTokens: Math.ceil(prompt.length / 4) + images.length * 258, outputTokens: 1290, totalTokens: Math.ceil(prompt.length / 4) + images.length * 258 + 1290 },
+    };
+  },
+};
@@ -0,0 +1,14 @@
+import { ImageGenerationRequest, ImageGenerationResult } from '../services/providers/types';
+import { geminiUpstream } from './geminiUpstream';
+import { stubUpstream } from './stubUpstream';
+
+export type UpstreamId = 'gemini' | 'stub';
+
+// The service the proxy forwards generation requests to; only the proxy ever holds its credentials.
+export interface Upstream {
+  id: UpstreamId;
+  getModel: () => string;
+  generate: (request: ImageGenerationRequest, signal?: AbortSignal) => Promise<ImageGenerationResult>;
+}
+
+export const getUpstream = (): Upstream => process.env.PROXY_UPSTREAM === 'stub' ? stubUpstream : geminiUpstream;
@@ -0,0 +1,17 @@
+import { getPromptTexts, interpolate } from './i18n';
+
+export type ProductAngleId = 'front' | 'back' | 'angle45' | 'detail';
+
+export const MAX_REFERENCE_PHOTOS = 4;
+
+export const PRODUCT_ANGLES: ProductAngleId[] = ['front', 'back', 'angle45', 'detail'];
+
+export const buildReferencePrompt = (photoCount: number): string => {
+  if (photoCount <= 1) return '';
+  return interpolate(getPromptTexts().referencePhotos, { count: photoCount });
+};
+
+export const buildAnglePrompt = (angle: ProductAngleId): string => {
+  const prompts = getPromptTexts();
+  return interpolate(prompts.angle, prompts.angles[angle]);
+};
@@ -0,0 +1,90 @@
+import { InlineImage } from './providers';
+import { dataUrlToInlineImage } from './imageUtils';
+import { getPromptTexts, interpolate, translate } from './i18n';
+
+export const MAX_REFERENCE_IMAGES = 3;
+export const REFERENCE_IMAGE_MAX_EDGE = 512;
+
+export interface BrandKit {
+  enabled: boolean;
+  colors: string[];
+  surfaces: string;
+  forbidden: string;
+  notes: string;
+  referenceImages: string[];
+}
+
+const STORAGE_KEY = 'emporio:brand-kit';
+
+export const DEFAULT_BRAND_KIT: BrandKit = {
+  enabled: false,
+  colors: [],
+  surfaces: '',
+  forbidden: '',
+  notes: '',
+  referenceImages: [],
+};
+
+export const loadBrandKit = (): BrandKit => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_BRAND_KIT;
+    const parsed = JSON.parse(stored);
+    return {
+      enabled: Boolean(parsed.enabled),
+      colors: Array.isArray(parsed.colors) ? parsed.colors.filter(c => typeof c === 'string') : [],
+      surfaces: typeof parsed.surfaces === 'string' ? parsed.surfaces : '',
+      forbidden: typeof parsed.forbidden === 'string' ? parsed.forbidden : '',
+      notes: typeof parsed.notes === 'string' ? parsed.notes : '',
+      referenceImages: Array.isArray(parsed.referenceImages)
+        ? parsed.referenceImages.filter(url => typeof url === 'string' && url.startsWith('data:image/')).slice(0, MAX_REFERENCE_IMAGES)
+        : [],
+    };
+  } catch (error) {
+    console.error("Não foi possível carregar o kit da marca:", error);
+    return DEFAULT_BRAND_KIT;
+  }
+};
+
+export const saveBrandKit = (kit: BrandKit) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(kit));
+  } catch (error) {
+    console.error("Não foi possível salvar o kit da marca:", error);
+    throw new Error(translate('brandKit.saveError'));
+  }
+};
+
+const hasContent = (kit: BrandKit) =>
+  kit.colors.length > 0 || kit.surfaces.trim() || kit.forbidden.trim() || kit.notes.trim() || kit.referenceImages.length > 0;
+
+export const isBrandKitActive = (kit: BrandKit): boolean => kit.enabled && Boolean(hasContent(kit));
+
+export const buildBrandKitPrompt = (kit: BrandKit, productImageCount = 1): string => {
+  if (!isBrandKitActive(kit)) return '';
+
+  const { brandKit: texts } = getPromptTexts();
+  const lines = [texts.header];
+  if (kit.colors.length > 0) {
+    lines.push(interpolate(texts.palette, { colors: kit.colors.join(', ') }));
+  }
+  if (kit.surfaces.trim()) {
+    lines.push(interpolate(texts.surfaces, { surfaces: kit.surfaces.trim() }));
+  }
+  if (kit.forbidden.trim()) {
+    lines.push(interpolate(texts.forbidden, { forbidden: kit.forbidden.trim() }));
+  }
+  if (kit.notes.trim()) {
+    lines.push(interpolate(texts.style, { notes: kit.notes.trim() }));
+  }
+  if (kit.referenceImages.length > 0) {
+    const productImages = productImageCount === 1 ? texts.singleProduct : interpolate(texts.multipleProducts, { count: productImageCount });
+    lines.push(interpolate(texts.references, { productImages, count: kit.referenceImages.length }));
+  }
+  return `\n\n${lines.join('\n')}\n`;
+};
+
+export const getBrandKitImages = (kit: BrandKit): InlineImage[] => {
+  if (!isBrandKitActive(kit)) return [];
+  return kit.referenceImages.map(dataUrlToInlineImage);
+};
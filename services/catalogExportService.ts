@@ -0,0 +1,137 @@
+import { CatalogImage, CatalogProduct, CatalogSettings, slugify } from './catalogService';
+import { EXPORT_PRESETS, renderExport } from './exportService';
+import { CsvRow, toCsv } from './csvService';
+import { ZipEntry, createZip } from './zipService';
+import { translate } from './i18n';
+
+export type CatalogFeedId = 'shopify' | 'nuvemshop' | 'meta' | 'json';
+
+export const CATALOG_FEEDS: { id: CatalogFeedId; fileName: string }[] = [
+  { id: 'shopify', fileName: 'shopify-produtos.csv' },
+  { id: 'nuvemshop', fileName: 'nuvemshop-produtos.csv' },
+  { id: 'meta', fileName: 'meta-catalogo.csv' },
+  { id: 'json', fileName: 'catalogo.json' },
+];
+
+const IMAGES_FOLDER = 'imagens';
+// Stores and Meta require square-friendly JPEGs on white; the marketplace preset already produces that.
+const CATALOG_IMAGE_PRESET = EXPORT_PRESETS.find(preset => preset.id === 'marketplace') ?? EXPORT_PRESETS[0];
+
+export interface CatalogListing {
+  product: CatalogProduct;
+  handle: string;
+  imageFiles: string[];
+  imageUrls: string[];
+}
+
+const joinUrl = (base: string, path: string) => base ? `${base.replace(/\/+$/, '')}/${path}` : path;
+
+export const buildListings = (products: CatalogProduct[], images: CatalogImage[], settings: CatalogSettings): CatalogListing[] => {
+  return products.map(product => {
+    const fileBase = slugify(product.sku) || 'produto';
+    const imageFiles = images
+      .filter(image => image.sku === product.sku)
+      .map((_, index) => `${IMAGES_FOLDER}/${fileBase}-${index + 1}.jpg`);
+    return {
+      product,
+      handle: slugify(product.name) || fileBase,
+      imageFiles,
+      imageUrls: imageFiles.map(file => joinUrl(settings.imageBaseUrl, file)),
+    };
+  });
+};
+
+const formatDecimal = (price: number | null) => price === null ? '' : price.toFixed(2);
+
+const buildShopifyCsv = (listings: CatalogListing[], settings: CatalogSettings): string => {
+  const header = ['Handle', 'Title', 'Body (HTML)', 'Vendor', 'Type', 'Published', 'Option1 Name', 'Option1 Value', 'Variant SKU', 'Variant Price', 'Variant Inventory Policy', 'Variant Fulfillment Service', 'Variant Requires Shipping', 'Image Src', 'Image Position', 'Image Alt Text', 'Status'];
+  const rows: CsvRow[] = [header];
+  listings.forEach(({ product, handle, imageUrls }) => {
+    rows.push([
+      handle, product.name, product.description, settings.brand, product.category, 'TRUE', 'Title', 'Default Title',
+      product.sku, formatDecimal(product.price), 'deny', 'manual', 'TRUE',
+      imageUrls[0] ?? '', imageUrls.length ? '1' : '', imageUrls.length ? product.name : '', 'active',
+    ]);
+    // Shopify attaches extra images through rows that repeat only the handle.
+    imageUrls.slice(1).forEach((url, index) => {
+      rows.push([handle, ...Array(12).fill(''), url, String(index + 2), product.name, '']);
+    });
+  });
+  return toCsv(rows);
+};
+
+const buildNuvemshopCsv = (listings: CatalogListing[]): string => {
+  const header = ['Identificador URL', 'Nome', 'Categorias', 'Preço', 'SKU', 'Exibir na loja', 'Descrição', 'Produto Físico'];
+  const rows: CsvRow[] = [header];
+  listings.forEach(({ product, handle }) => {
+    rows.push([handle, product.name, product.category, formatDecimal(product.price).replace('.', ','), product.sku, 'SIM', product.description, 'SIM']);
+  });
+  return toCsv(rows, ';');
+};
+
+const buildMetaCsv = (listings: CatalogListing[], settings: CatalogSettings): string => {
+  const header = ['id', 'title', 'description', 'availability', 'condition', 'price', 'link', 'image_link', 'additional_image_link', 'brand', 'product_type'];
+  const rows: CsvRow[] = [header];
+  listings.forEach(({ product, handle, imageUrls }) => {
+    rows.push([
+      product.sku,
+      product.name,
+      product.description || product.name,
+      'in stock',
+      'new',
+      product.price === null ? '' : `${product.price.toFixed(2)} ${settings.currency}`,
+      settings.storeUrl ? joinUrl(settings.storeUrl, `produtos/${handle}`) : '',
+      imageUrls[0] ?? '',
+      imageUrls.slice(1).join(','),
+      settings.brand,
+      product.category,
+    ]);
+  });
+  return toCsv(rows);
+};
+
+const buildJsonFeed = (listings: CatalogListing[], settings: CatalogSettings): string => JSON.stringify({
+  generatedAt: new Date().toISOString(),
+  brand: settings.brand,
+  currency: settings.currency,
+  products: listings.map(({ product, handle, imageFiles, imageUrls }) => ({
+    ...product,
+    handle,
+    images: imageFiles.map((file, index) => ({ file, url: imageUrls[index] })),
+  })),
+}, null, 2);
+
+export const buildCatalogFeed = (feed: CatalogFeedId, listings: CatalogListing[], settings: CatalogSettings): string => {
+  switch (feed) {
+    case 'shopify': return buildShopifyCsv(listings, settings);
+    case 'nuvemshop': return buildNuvemshopCsv(listings);
+    case 'meta': return buildMetaCsv(listings, settings);
+    case 'json': return buildJsonFeed(listings, settings);
+  }
+};
+
+// Products without approved photos are left out: stores reject listings without images.
+export const createCatalogBundle = async (products: CatalogProduct[], images: CatalogImage[], settings: CatalogSettings): Promise<Blob> => {
+  const listings = buildListings(products, images, settings).filter(listing => listing.imageFiles.length > 0);
+  if (listings.length === 0) {
+    throw new Error(translate('catalog.noApprovedPhotos'));
+  }
+
+  const entries: ZipEntry[] = [];
+  for (const { product, imageFiles } of listings) {
+    const productImages = images.filter(image => image.sku === product.sku);
+    for (let i = 0; i < productImages.length; i++) {
+      entries.push({
+        name: imageFiles[i],
+        data: await renderExport(productImages[i].imageUrl, CATALOG_IMAGE_PRESET, { format: 'image/jpeg', quality: CATALOG_IMAGE_PRESET.quality }),
+      });
+    }
+  }
+  CATALOG_FEEDS.forEach(feed => {
+    const type = feed.id === 'json' ? 'application/json' : 'text/csv';
+    // The BOM makes Excel open the pt-BR CSVs with the right accents.
+    const content = feed.id === 'json' ? buildCatalogFeed(feed.id, listings, settings) : '\uFEFF' + buildCatalogFeed(feed.id, listings, settings);
+    entries.push({ name: feed.fileName, data: new Blob([content], { type: `${type};charset=utf-8` }) });
+  });
+  return createZip(entries);
+};
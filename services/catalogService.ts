@@ -0,0 +1,193 @@
+import { CATALOG_IMAGES_STORE, runStoreTransaction } from './database';
+import { parseCsv } from './csvService';
+import { getLanguage, translate } from './i18n';
+
+export interface CatalogProduct {
+  sku: string;
+  name: string;
+  category: string;
+  price: number | null;
+  description: string;
+}
+
+export interface CatalogImage {
+  id: string;
+  sku: string;
+  imageUrl: string;
+  createdAt: number;
+}
+
+export interface CatalogSettings {
+  storeUrl: string;
+  imageBaseUrl: string;
+  brand: string;
+  currency: string;
+}
+
+export interface CsvImportResult {
+  products: CatalogProduct[];
+  skipped: number;
+}
+
+const PRODUCTS_KEY = 'emporio:catalog-products';
+const SETTINGS_KEY = 'emporio:catalog-settings';
+
+export const DEFAULT_CATALOG_SETTINGS: CatalogSettings = {
+  storeUrl: '',
+  imageBaseUrl: '',
+  brand: 'Empório Dona Raí',
+  currency: 'BRL',
+};
+
+// Header names accepted on import, normalized (lowercase, no accents).
+const COLUMN_ALIASES: Record<keyof CatalogProduct, string[]> = {
+  sku: ['sku', 'codigo', 'cod', 'variant sku', 'id', 'referencia'],
+  name: ['nome', 'name', 'title', 'titulo', 'produto'],
+  category: ['categoria', 'categorias', 'category', 'type', 'tipo'],
+  price: ['preco', 'price', 'valor', 'variant price'],
+  description: ['descricao', 'description', 'body (html)'],
+};
+
+const normalizeHeader = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+
+export const slugify = (value: string): string => value
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .toLowerCase()
+  .replace(/[^a-z0-9]+/g, '-')
+  .replace(/^-|-$/g, '');
+
+// Accepts "12.90", "12,90", "R$ 1.234,56", "1.234" and "1,234.56".
+export const parsePrice = (value: string): number | null => {
+  const cleaned = value.replace(/[^\d.,-]/g, '');
+  if (!cleaned) return null;
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+  // Without a comma, dots followed by exactly three digits group thousands (pt-BR "1.234"), unless a
+  // single group follows a zero integer part ("0.990" is a price in cents).
+  const dotsGroupThousands = lastComma === -1
+    && /^-?\d{1,3}(\.\d{3})+$/.test(cleaned)
+    && (!/^-?0\./.test(cleaned) || cleaned.split('.').length > 2);
+  const normalized = lastComma > lastDot || dotsGroupThousands
+    ? cleaned.replace(/\./g, '').replace(',', '.')
+    : cleaned.replace(/,/g, '');
+  const price = Number(normalized);
+  return Number.isFinite(price) && price >= 0 ? Math.round(price * 100) / 100 : null;
+};
+
+export const formatPrice = (price: number | null, currency = DEFAULT_CATALOG_SETTINGS.currency): string => {
+  if (price === null) return '—';
+  return price.toLocaleString(getLanguage(), { style: 'currency', currency });
+};
+
+export const parseProductsCsv = (text: string): CsvImportResult => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return { products: [], skipped: 0 };
+
+  const headers = header.map(normalizeHeader);
+  const columnOf = (field: keyof CatalogProduct) => headers.findIndex(h => COLUMN_ALIASES[field].includes(h));
+  const columns = {
+    sku: columnOf('sku'),
+    name: columnOf('name'),
+    category: columnOf('category'),
+    price: columnOf('price'),
+    description: columnOf('description'),
+  };
+  if (columns.sku < 0 || columns.name < 0) {
+    throw new Error(translate('catalog.csvColumnsError'));
+  }
+
+  const read = (row: string[], column: number) => (column >= 0 ? row[column] ?? '' : '').trim();
+  const products: CatalogProduct[] = [];
+  let skipped = 0;
+  rows.forEach(row => {
+    const sku = read(row, columns.sku);
+    const name = read(row, columns.name);
+    if (!sku || !name) {
+      skipped++;
+      return;
+    }
+    products.push({
+      sku,
+      name,
+      category: read(row, columns.category),
+      price: parsePrice(read(row, columns.price)),
+      description: read(row, columns.description),
+    });
+  });
+  return { products, skipped };
+};
+
+// Imported rows replace products with the same SKU and keep the others.
+export const mergeProducts = (current: CatalogProduct[], imported: CatalogProduct[]): CatalogProduct[] => {
+  const bySku = new Map(current.map(product => [product.sku, product]));
+  imported.forEach(product => bySku.set(product.sku, product));
+  return Array.from(bySku.values());
+};
+
+export const findProductForFile = (products: CatalogProduct[], baseFileName: string): CatalogProduct | null => {
+  const name = baseFileName.toLowerCase();
+  return products.find(product => product.sku.toLowerCase() === name || slugify(product.sku) === slugify(name)) ?? null;
+};
+
+export const loadCatalogProducts = (): CatalogProduct[] => {
+  try {
+    const stored = localStorage.getItem(PRODUCTS_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed.filter(product => product && typeof product.sku === 'string' && typeof product.name === 'string') : [];
+  } catch (error) {
+    console.error("Não foi possível carregar os produtos do catálogo:", error);
+    return [];
+  }
+};
+
+export const saveCatalogProducts = (products: CatalogProduct[]) => {
+  try {
+    localStorage.setItem(PRODUCTS_KEY, JSON.stringify(products));
+  } catch (error) {
+    console.error("Não foi possível salvar os produtos do catálogo:", error);
+  }
+};
+
+export const loadCatalogSettings = (): CatalogSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...DEFAULT_CATALOG_SETTINGS, ...JSON.parse(stored) } : DEFAULT_CATALOG_SETTINGS;
+  } catch (error) {
+    console.error("Não foi possível carregar as configurações do catálogo:", error);
+    return DEFAULT_CATALOG_SETTINGS;
+  }
+};
+
+export const saveCatalogSettings = (settings: CatalogSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Não foi possível salvar as configurações do catálogo:", error);
+  }
+};
+
+export const addCatalogImage = async (sku: string, imageUrl: string): Promise<CatalogImage> => {
+  const record: CatalogImage = {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    sku,
+    imageUrl,
+    createdAt: Date.now(),
+  };
+  await runStoreTransaction(CATALOG_IMAGES_STORE, 'readwrite', store => store.put(record));
+  return record;
+};
+
+export const listCatalogImages = async (): Promise<CatalogImage[]> => {
+  const images = await runStoreTransaction<CatalogImage[]>(CATALOG_IMAGES_STORE, 'readonly', store => store.getAll());
+  return images.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const deleteCatalogImage = async (id: string): Promise<void> => {
+  await runStoreTransaction(CATALOG_IMAGES_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const deleteCatalogImagesForSku = async (sku: string): Promise<void> => {
+  const images = await listCatalogImages();
+  await Promise.all(images.filter(image => image.sku === sku).map(image => deleteCatalogImage(image.id)));
+};
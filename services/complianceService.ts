@@ -0,0 +1,169 @@
+import { AspectRatio } from './modeService';
+import { createCanvas, findProductBounds, loadImage } from './imageUtils';
+import { translate } from './i18n';
+
+export interface ComplianceReport {
+  width: number;
+  height: number;
+  // Share of background pixels that are pure white (every channel >= PURE_WHITE).
+  backgroundPurity: number;
+  backgroundColor: string;
+  fillRatio: number;
+  // Distance between the product center and the image center, relative to the image size.
+  centerOffset: number;
+  passed: boolean;
+  issues: string[];
+}
+
+// Modes whose output goes to marketplaces that require a pure white background.
+export const COMPLIANCE_MODE_IDS = ['ECOMMERCE'];
+
+export const MIN_MARKETPLACE_EDGE = 1200;
+const TARGET_EDGE = 2048;
+const MIN_FILL = 0.8;
+const MAX_FILL = 0.95;
+const TARGET_FILL = 0.875;
+const MAX_CENTER_OFFSET = 0.03;
+const MIN_BACKGROUND_PURITY = 0.98;
+const PURE_WHITE = 254;
+// Background pixels this close to white are snapped to #FFFFFF by the fix.
+const NEAR_WHITE = 225;
+const MAX_NEAR_WHITE_SPREAD = 18;
+const ANALYSIS_EDGE = 512;
+
+export const isComplianceMode = (modeId: string): boolean => COMPLIANCE_MODE_IDS.includes(modeId);
+
+const toHex = (value: number) => Math.round(value).toString(16).padStart(2, '0');
+
+const getRatio = (aspectRatio: AspectRatio): number => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  return w / h;
+};
+
+const isNearWhite = (data: Uint8ClampedArray, i: number) => {
+  const min = Math.min(data[i], data[i + 1], data[i + 2]);
+  const max = Math.max(data[i], data[i + 1], data[i + 2]);
+  return min >= NEAR_WHITE && max - min <= MAX_NEAR_WHITE_SPREAD;
+};
+
+// Marks the near-white pixels connected to the image border, so white areas inside the product are left alone.
+const floodBackground = (data: Uint8ClampedArray, width: number, height: number): Uint8Array => {
+  const background = new Uint8Array(width * height);
+  const stack: number[] = [];
+  const push = (p: number) => {
+    if (!background[p] && isNearWhite(data, p * 4)) {
+      background[p] = 1;
+      stack.push(p);
+    }
+  };
+  for (let x = 0; x < width; x++) { push(x); push((height - 1) * width + x); }
+  for (let y = 0; y < height; y++) { push(y * width); push(y * width + width - 1); }
+  while (stack.length > 0) {
+    const p = stack.pop() as number;
+    const x = p % width;
+    if (x > 0) push(p - 1);
+    if (x < width - 1) push(p + 1);
+    if (p >= width) push(p - width);
+    if (p < width * (height - 1)) push(p + width);
+  }
+  return background;
+};
+
+export const analyzeCompliance = async (imageUrl: string, aspectRatio: AspectRatio = '1:1'): Promise<ComplianceReport> => {
+  const img = await loadImage(imageUrl);
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+  const scale = Math.min(1, ANALYSIS_EDGE / Math.max(width, height));
+  const sampleWidth = Math.max(1, Math.round(width * scale));
+  const sampleHeight = Math.max(1, Math.round(height * scale));
+  const { ctx } = createCanvas(sampleWidth, sampleHeight);
+  ctx.drawImage(img, 0, 0, sampleWidth, sampleHeight);
+  const { data } = ctx.getImageData(0, 0, sampleWidth, sampleHeight);
+
+  const bounds = findProductBounds(data, sampleWidth, sampleHeight);
+  let backgroundPixels = 0, pureWhitePixels = 0, r = 0, g = 0, b = 0;
+  for (let y = 0; y < sampleHeight; y++) {
+    for (let x = 0; x < sampleWidth; x++) {
+      if (x >= bounds.x && x < bounds.x + bounds.width && y >= bounds.y && y < bounds.y + bounds.height) continue;
+      const i = (y * sampleWidth + x) * 4;
+      backgroundPixels++;
+      r += data[i]; g += data[i + 1]; b += data[i + 2];
+      if (data[i] >= PURE_WHITE && data[i + 1] >= PURE_WHITE && data[i + 2] >= PURE_WHITE) pureWhitePixels++;
+    }
+  }
+  const backgroundPurity = backgroundPixels ? pureWhitePixels / backgroundPixels : 0;
+  const backgroundColor = backgroundPixels ? `#${toHex(r / backgroundPixels)}${toHex(g / backgroundPixels)}${toHex(b / backgroundPixels)}`.toUpperCase() : '#000000';
+  const fillRatio = Math.max(bounds.width / sampleWidth, bounds.height / sampleHeight);
+  const centerOffset = Math.max(
+    Math.abs(bounds.x + bounds.width / 2 - sampleWidth / 2) / sampleWidth,
+    Math.abs(bounds.y + bounds.height / 2 - sampleHeight / 2) / sampleHeight,
+  );
+
+  const issues: string[] = [];
+  if (backgroundPurity < MIN_BACKGROUND_PURITY) {
+    issues.push(translate('compliance.backgroundIssue', { color: backgroundColor, percent: Math.round(backgroundPurity * 100) }));
+  }
+  if (Math.min(width, height) < MIN_MARKETPLACE_EDGE) {
+    issues.push(translate('compliance.resolutionIssue', { width, height, min: MIN_MARKETPLACE_EDGE }));
+  }
+  if (Math.abs(width / height - getRatio(aspectRatio)) > 0.01) {
+    issues.push(translate('compliance.ratioIssue', { width, height, ratio: aspectRatio }));
+  }
+  if (fillRatio < MIN_FILL || fillRatio > MAX_FILL) {
+    issues.push(translate('compliance.fillIssue', { percent: Math.round(fillRatio * 100), min: Math.round(MIN_FILL * 100), max: Math.round(MAX_FILL * 100) }));
+  }
+  if (centerOffset > MAX_CENTER_OFFSET) {
+    issues.push(translate('compliance.centerIssue', { percent: Math.round(centerOffset * 100) }));
+  }
+
+  return { width, height, backgroundPurity, backgroundColor, fillRatio, centerOffset, passed: issues.length === 0, issues };
+};
+
+export const analyzeComplianceBatch = (imageUrls: string[], aspectRatio?: AspectRatio): Promise<ComplianceReport[]> => {
+  return Promise.all(imageUrls.map(url => analyzeCompliance(url, aspectRatio)));
+};
+
+// Snaps the near-white background to #FFFFFF, then re-centers the product at TARGET_FILL on a clean canvas.
+export const fixCompliance = async (imageUrl: string, aspectRatio: AspectRatio = '1:1'): Promise<string> => {
+  const img = await loadImage(imageUrl);
+  const { canvas: source, ctx: sourceCtx } = createCanvas(img.naturalWidth, img.naturalHeight);
+  sourceCtx.drawImage(img, 0, 0);
+  const imageData = sourceCtx.getImageData(0, 0, source.width, source.height);
+  const { data } = imageData;
+
+  const background = floodBackground(data, source.width, source.height);
+  let minX = source.width, minY = source.height, maxX = -1, maxY = -1;
+  for (let p = 0; p < background.length; p++) {
+    const i = p * 4;
+    if (background[p]) {
+      data[i] = data[i + 1] = data[i + 2] = data[i + 3] = 255;
+      continue;
+    }
+    const x = p % source.width;
+    const y = (p - x) / source.width;
+    if (x < minX) minX = x;
+    if (x > maxX) maxX = x;
+    if (y < minY) minY = y;
+    if (y > maxY) maxY = y;
+  }
+  sourceCtx.putImageData(imageData, 0, 0);
+  if (maxX < 0) {
+    throw new Error(translate('compliance.noProduct'));
+  }
+
+  const ratio = getRatio(aspectRatio);
+  const width = ratio >= 1 ? TARGET_EDGE : Math.round(TARGET_EDGE * ratio);
+  const height = ratio >= 1 ? Math.round(TARGET_EDGE / ratio) : TARGET_EDGE;
+  const productWidth = maxX - minX + 1;
+  const productHeight = maxY - minY + 1;
+  const scale = Math.min((width * TARGET_FILL) / productWidth, (height * TARGET_FILL) / productHeight);
+  const drawWidth = productWidth * scale;
+  const drawHeight = productHeight * scale;
+
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, minX, minY, productWidth, productHeight, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,55 @@
+export type CsvRow = string[];
+
+// Spreadsheets exported in pt-BR locales use ';' because ',' is the decimal separator.
+export const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  return (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+};
+
+export const parseCsv = (text: string, delimiter = detectDelimiter(text)): CsvRow[] => {
+  const rows: CsvRow[] = [];
+  let row: CsvRow = [];
+  let field = '';
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+};
+
+const escapeField = (value: string, delimiter: string): string => {
+  return /["\r\n]/.test(value) || value.includes(delimiter) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const toCsv = (rows: CsvRow[], delimiter = ','): string => {
+  return rows.map(row => row.map(value => escapeField(value, delimiter)).join(delimiter)).join('\r\n') + '\r\n';
+};
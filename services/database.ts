@@ -0,0 +1,49 @@
+// The app's single IndexedDB database; every store and its upgrade path are declared here.
+const DB_NAME = 'emporio-dona-rai';
+const DB_VERSION = 3;
+export const HISTORY_STORE = 'history';
+export const CATALOG_IMAGES_STORE = 'catalog-images';
+export const OFFLINE_QUEUE_STORE = 'offline-queue';
+
+export type StoreName = typeof HISTORY_STORE | typeof CATALOG_IMAGES_STORE | typeof OFFLINE_QUEUE_STORE;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+          const store = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+        }
+        if (!db.objectStoreNames.contains(CATALOG_IMAGES_STORE)) {
+          db.createObjectStore(CATALOG_IMAGES_STORE, { keyPath: 'id' }).createIndex('sku', 'sku');
+        }
+        if (!db.objectStoreNames.contains(OFFLINE_QUEUE_STORE)) {
+          db.createObjectStore(OFFLINE_QUEUE_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Resolves with the request's result once the transaction commits.
+export const runStoreTransaction = async <T>(storeName: StoreName, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
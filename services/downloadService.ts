@@ -0,0 +1,18 @@
+export const getBaseFileName = (file: File | null | undefined): string => {
+  return file?.name.split('.').slice(0, -1).join('.') || 'produto';
+};
+
+export const downloadDataUrl = (dataUrl: string, fileName: string) => {
+  const link = document.createElement('a');
+  link.href = dataUrl;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  downloadDataUrl(url, fileName);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
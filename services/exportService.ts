@@ -0,0 +1,181 @@
+import { createCanvas, loadImage } from './imageUtils';
+import { TranslationKey, translate } from './i18n';
+import { PRINT_DPI, UpscaleSettings, isUpscaleActive, upscaleImage } from './upscaleService';
+import { encodeTiff, setImageDpi } from './printService';
+
+export type ExportFormat = 'image/jpeg' | 'image/png' | 'image/webp' | 'image/tiff';
+export type ExportFit = 'crop' | 'pad';
+
+export interface ExportPreset {
+  id: string;
+  labelKey: TranslationKey;
+  descriptionKey: TranslationKey;
+  aspectRatio: [number, number] | null;
+  width?: number;
+  minEdge?: number;
+  fit: ExportFit;
+  format: ExportFormat;
+  quality: number;
+  background: string;
+}
+
+export interface ExportOptions {
+  format: ExportFormat;
+  quality: number;
+  // Runs before the preset's framing; also sets the DPI written into JPEG, PNG and TIFF files.
+  upscale?: UpscaleSettings;
+}
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'image/jpeg', label: 'JPEG' },
+  { value: 'image/png', label: 'PNG' },
+  { value: 'image/webp', label: 'WebP' },
+  { value: 'image/tiff', label: 'TIFF' },
+];
+
+export const EXPORT_PRESETS: ExportPreset[] = [
+  {
+    id: 'original',
+    labelKey: 'export.original',
+    descriptionKey: 'export.originalHint',
+    aspectRatio: null,
+    fit: 'pad',
+    format: 'image/png',
+    quality: 1,
+    background: '#ffffff',
+  },
+  {
+    id: 'instagram-feed',
+    labelKey: 'export.instagramFeed',
+    descriptionKey: 'export.instagramFeedHint',
+    aspectRatio: [4, 5],
+    width: 1080,
+    fit: 'crop',
+    format: 'image/jpeg',
+    quality: 0.92,
+    background: '#ffffff',
+  },
+  {
+    id: 'instagram-stories',
+    labelKey: 'export.stories',
+    descriptionKey: 'export.storiesHint',
+    aspectRatio: [9, 16],
+    width: 1080,
+    fit: 'pad',
+    format: 'image/jpeg',
+    quality: 0.92,
+    background: '#ffffff',
+  },
+  {
+    id: 'marketplace',
+    labelKey: 'export.marketplace',
+    descriptionKey: 'export.marketplaceHint',
+    aspectRatio: [1, 1],
+    minEdge: 1200,
+    fit: 'pad',
+    format: 'image/jpeg',
+    quality: 0.95,
+    background: '#ffffff',
+  },
+  {
+    id: 'whatsapp-catalog',
+    labelKey: 'export.whatsappCatalog',
+    descriptionKey: 'export.whatsappCatalogHint',
+    aspectRatio: [1, 1],
+    width: 800,
+    fit: 'pad',
+    format: 'image/jpeg',
+    quality: 0.8,
+    background: '#ffffff',
+  },
+  {
+    id: 'print',
+    labelKey: 'export.print',
+    descriptionKey: 'export.printHint',
+    aspectRatio: null,
+    fit: 'pad',
+    format: 'image/tiff',
+    quality: 1,
+    background: '#ffffff',
+  },
+];
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/tiff': 'tif',
+};
+
+export const getMimeTypeFromDataUrl = (dataUrl: string): string => {
+  return dataUrl.match(/^data:(.*?);/)?.[1] || 'image/png';
+};
+
+export const getExtension = (mimeType: string): string => EXTENSIONS[mimeType] || 'png';
+
+export const getExportFileName = (baseName: string, preset: ExportPreset, format: ExportFormat): string => {
+  return `${baseName}-${preset.id}.${getExtension(format)}`;
+};
+
+const resolveTargetSize = (preset: ExportPreset, sourceWidth: number, sourceHeight: number): { width: number; height: number } => {
+  if (!preset.aspectRatio) {
+    return { width: sourceWidth, height: sourceHeight };
+  }
+  const [ratioW, ratioH] = preset.aspectRatio;
+  let width = preset.width ?? (preset.fit === 'crop'
+    ? Math.min(sourceWidth, (sourceHeight * ratioW) / ratioH)
+    : Math.max(sourceWidth, (sourceHeight * ratioW) / ratioH));
+  let height = (width * ratioH) / ratioW;
+  if (preset.minEdge && Math.min(width, height) < preset.minEdge) {
+    const scale = preset.minEdge / Math.min(width, height);
+    width *= scale;
+    height *= scale;
+  }
+  return { width: Math.round(width), height: Math.round(height) };
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, format: ExportFormat, quality: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error(translate('export.encodeError')));
+      }
+    }, format, quality);
+  });
+};
+
+const loadSource = async (dataUrl: string, upscale?: UpscaleSettings): Promise<HTMLImageElement | HTMLCanvasElement> => {
+  if (upscale && isUpscaleActive(upscale)) return upscaleImage(dataUrl, upscale);
+  return loadImage(dataUrl);
+};
+
+export const renderExport = async (dataUrl: string, preset: ExportPreset, options: ExportOptions): Promise<Blob> => {
+  const source = await loadSource(dataUrl, options.upscale);
+  const sourceWidth = source instanceof HTMLImageElement ? source.naturalWidth : source.width;
+  const sourceHeight = source instanceof HTMLImageElement ? source.naturalHeight : source.height;
+  const { width, height } = resolveTargetSize(preset, sourceWidth, sourceHeight);
+  const { canvas, ctx } = createCanvas(width, height);
+
+  // JPEG and TIFF are written without alpha, so transparent areas get the preset background.
+  if (options.format === 'image/jpeg' || options.format === 'image/tiff' || preset.fit === 'pad') {
+    ctx.fillStyle = preset.background;
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  const scale = preset.fit === 'crop'
+    ? Math.max(width / sourceWidth, height / sourceHeight)
+    : Math.min(width / sourceWidth, height / sourceHeight);
+  const drawWidth = sourceWidth * scale;
+  const drawHeight = sourceHeight * scale;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+
+  const dpi = options.upscale?.dpi;
+  if (options.format === 'image/tiff') {
+    return encodeTiff(ctx.getImageData(0, 0, width, height), dpi ?? PRINT_DPI);
+  }
+  const blob = await canvasToBlob(canvas, options.format, options.quality);
+  return dpi ? setImageDpi(blob, dpi) : blob;
+};
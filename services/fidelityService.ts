@@ -0,0 +1,208 @@
+import { FOREGROUND_DISTANCE, createCanvas, findProductBounds, loadImage } from './imageUtils';
+import { translate } from './i18n';
+
+export interface FidelitySettings {
+  enabled: boolean;
+  minColorSimilarity: number;
+  minShapeSimilarity: number;
+  checkLabelText: boolean;
+  minTextSimilarity: number;
+  autoRegenerate: boolean;
+  maxRegenerations: number;
+}
+
+export interface FidelityReport {
+  colorSimilarity: number;
+  shapeSimilarity: number;
+  textSimilarity: number | null;
+  passed: boolean;
+  issues: string[];
+}
+
+interface ImageSignature {
+  histogram: Float32Array;
+  hash: boolean[];
+  text: string | null;
+}
+
+const STORAGE_KEY = 'emporio:fidelity-settings';
+const ANALYSIS_EDGE = 256;
+const HISTOGRAM_BINS_PER_CHANNEL = 4;
+
+export const DEFAULT_FIDELITY_SETTINGS: FidelitySettings = {
+  enabled: true,
+  minColorSimilarity: 0.8,
+  minShapeSimilarity: 0.7,
+  checkLabelText: false,
+  minTextSimilarity: 0.6,
+  autoRegenerate: false,
+  maxRegenerations: 1,
+};
+
+export const loadFidelitySettings = (): FidelitySettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_FIDELITY_SETTINGS, ...JSON.parse(stored) } : DEFAULT_FIDELITY_SETTINGS;
+  } catch (error) {
+    console.error("Não foi possível carregar as configurações de fidelidade:", error);
+    return DEFAULT_FIDELITY_SETTINGS;
+  }
+};
+
+export const saveFidelitySettings = (settings: FidelitySettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Não foi possível salvar as configurações de fidelidade:", error);
+  }
+};
+
+// Shape Detection API; only Chromium exposes it, and DOM typings don't include it yet.
+interface TextDetector {
+  detect: (image: ImageBitmapSource) => Promise<{ rawValue: string }[]>;
+}
+type TextDetectorConstructor = new () => TextDetector;
+
+const getTextDetector = (): TextDetectorConstructor | null => {
+  if (typeof window === 'undefined' || !('TextDetector' in window) || typeof window.TextDetector !== 'function') return null;
+  return window.TextDetector as TextDetectorConstructor;
+};
+
+export const isTextDetectionSupported = (): boolean => getTextDetector() !== null;
+
+const detectText = async (img: HTMLImageElement): Promise<string | null> => {
+  const TextDetectorClass = getTextDetector();
+  if (!TextDetectorClass) return null;
+  try {
+    const detector = new TextDetectorClass();
+    const blocks = await detector.detect(img);
+    return blocks.map(block => block.rawValue).join(' ');
+  } catch (error) {
+    console.warn("Detecção de texto indisponível:", error);
+    return null;
+  }
+};
+
+const computeSignature = async (imageUrl: string, withText: boolean): Promise<ImageSignature> => {
+  const img = await loadImage(imageUrl);
+  const scale = Math.min(1, ANALYSIS_EDGE / Math.max(img.naturalWidth, img.naturalHeight));
+  const width = Math.max(1, Math.round(img.naturalWidth * scale));
+  const height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(img, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const bounds = findProductBounds(data, width, height);
+
+  const bins = HISTOGRAM_BINS_PER_CHANNEL;
+  const histogram = new Float32Array(bins * bins * bins);
+  let total = 0;
+  for (let y = bounds.y; y < bounds.y + bounds.height; y++) {
+    for (let x = bounds.x; x < bounds.x + bounds.width; x++) {
+      const i = (y * width + x) * 4;
+      if (bounds.background && Math.hypot(data[i] - bounds.background[0], data[i + 1] - bounds.background[1], data[i + 2] - bounds.background[2]) <= FOREGROUND_DISTANCE) {
+        continue;
+      }
+      const bin = Math.floor(data[i] * bins / 256) * bins * bins + Math.floor(data[i + 1] * bins / 256) * bins + Math.floor(data[i + 2] * bins / 256);
+      histogram[bin]++;
+      total++;
+    }
+  }
+  if (total > 0) histogram.forEach((value, index) => { histogram[index] = value / total; });
+
+  // Difference hash of the product crop, resized to 9x8 in grayscale.
+  const { ctx: hashCtx } = createCanvas(9, 8);
+  hashCtx.drawImage(canvas, bounds.x, bounds.y, bounds.width, bounds.height, 0, 0, 9, 8);
+  const hashData = hashCtx.getImageData(0, 0, 9, 8).data;
+  const gray = (x: number, y: number) => {
+    const i = (y * 9 + x) * 4;
+    return hashData[i] * 0.299 + hashData[i + 1] * 0.587 + hashData[i + 2] * 0.114;
+  };
+  const hash: boolean[] = [];
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      hash.push(gray(x, y) > gray(x + 1, y));
+    }
+  }
+
+  return { histogram, hash, text: withText ? await detectText(img) : null };
+};
+
+const normalizeText = (text: string) => text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+
+const textSimilarity = (a: string, b: string): number => {
+  const s = normalizeText(a);
+  const t = normalizeText(b);
+  if (!s && !t) return 1;
+  const previous = Array.from({ length: t.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= s.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= t.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (s[i - 1] === t[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return 1 - previous[t.length] / Math.max(s.length, t.length);
+};
+
+const compareSignatures = (original: ImageSignature, result: ImageSignature, settings: FidelitySettings): FidelityReport => {
+  let colorSimilarity = 0;
+  original.histogram.forEach((value, index) => { colorSimilarity += Math.sqrt(value * result.histogram[index]); });
+  const hammingDistance = original.hash.reduce((distance, bit, index) => distance + (bit === result.hash[index] ? 0 : 1), 0);
+  const shapeSimilarity = 1 - hammingDistance / original.hash.length;
+  const labelSimilarity = settings.checkLabelText && original.text && result.text !== null
+    ? textSimilarity(original.text, result.text)
+    : null;
+
+  const issues: string[] = [];
+  if (colorSimilarity < settings.minColorSimilarity) {
+    issues.push(translate('fidelity.colorIssue', { percent: Math.round(colorSimilarity * 100) }));
+  }
+  if (shapeSimilarity < settings.minShapeSimilarity) {
+    issues.push(translate('fidelity.shapeIssue', { percent: Math.round(shapeSimilarity * 100) }));
+  }
+  if (labelSimilarity !== null && labelSimilarity < settings.minTextSimilarity) {
+    issues.push(translate('fidelity.labelIssue', { percent: Math.round(labelSimilarity * 100) }));
+  }
+
+  return { colorSimilarity, shapeSimilarity, textSimilarity: labelSimilarity, passed: issues.length === 0, issues };
+};
+
+export const checkFidelity = async (originalUrl: string, resultUrls: string[], settings: FidelitySettings): Promise<FidelityReport[]> => {
+  const original = await computeSignature(originalUrl, settings.checkLabelText);
+  return Promise.all(resultUrls.map(async url => compareSignatures(original, await computeSignature(url, settings.checkLabelText), settings)));
+};
+
+// Checks every result and, when enabled, replaces drifting variations with fresh ones.
+export const ensureFidelity = async (
+  originalUrl: string,
+  resultUrls: string[],
+  settings: FidelitySettings,
+  regenerate: (count: number) => Promise<string[]>,
+): Promise<{ urls: string[]; reports: FidelityReport[] }> => {
+  const urls = [...resultUrls];
+  let reports = await checkFidelity(originalUrl, urls, settings);
+
+  for (let attempt = 0; settings.autoRegenerate && attempt < settings.maxRegenerations; attempt++) {
+    const failedIndexes = reports.map((report, index) => report.passed ? -1 : index).filter(index => index >= 0);
+    if (failedIndexes.length === 0) break;
+
+    let replacements: string[];
+    try {
+      replacements = await regenerate(failedIndexes.length);
+    } catch (error) {
+      console.error("Falha ao regenerar variações divergentes:", error);
+      break;
+    }
+    const replacementReports = await checkFidelity(originalUrl, replacements, settings);
+    failedIndexes.forEach((index, i) => {
+      if (replacements[i] && replacementReports[i]) {
+        urls[index] = replacements[i];
+        reports = reports.map((report, r) => r === index ? replacementReports[i] : report);
+      }
+    });
+  }
+
+  return { urls, reports };
+};
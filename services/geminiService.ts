@@ -1,14 +1,52 @@
-import { GoogleGenAI, Modality, Part } from "@google/genai";
-import { GenerationMode } from '../App';
+import { AspectRatio, GenerationMode, renderModePrompt } from './modeService';
+import { getImageProvider, InlineImage } from './providers';
+import { dataUrlToInlineImage } from './imageUtils';
+import { buildBrandKitPrompt, getBrandKitImages, loadBrandKit } from './brandKitService';
+import { buildMaskPrompt, compositeWithMask } from './maskService';
+import { createAbortError, isAbortError, runWithRetry } from './requestPipeline';
+import { ImageGenerationError, toImageGenerationError } from './imageErrors';
+import { PRODUCT_ANGLES, buildAnglePrompt, buildReferencePrompt } from './angleService';
+import { KitSetup, buildKitPrompt } from './kitService';
+import { UsageOperation, formatUsd, getBudgetStatus, recordUsage } from './usageService';
+import { createSeed, getVariationSeed, loadGenerationSettings } from './generationSettingsService';
+import { getPromptTexts, translate } from './i18n';
+import { MAX_INPUT_BYTES } from './inputLimits';
+
+export const REFINEMENT_VARIATION_COUNT = 4;
+export const SUPPORTED_INPUT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif'];
+
+interface VariationOptions {
+  operation: UsageOperation;
+  modeId?: string;
+  count: number;
+  // Extra instructions appended to the prompt of each variation, by index.
+  variationPrompts?: string[];
+  aspectRatio?: AspectRatio;
+  mask?: InlineImage;
+  postProcess?: (imageUrl: string) => Promise<string>;
+}
+
+export type VariationEvent =
+  | { index: number; status: 'done'; urls: string[]; seed: number }
+  | { index: number; status: 'failed'; error: unknown };
 
-const API_KEY = process.env.API_KEY;
-if (!API_KEY) {
-  throw new Error("API_KEY environment variable not set");
+export interface RequestOptions {
+  signal?: AbortSignal;
+  onVariation?: (event: VariationEvent) => void;
 }
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+const validateInputFiles = (files: File[]) => {
+  const unsupported = files.find(file => !SUPPORTED_INPUT_TYPES.includes(file.type));
+  if (unsupported) {
+    throw new ImageGenerationError('invalid-input', translate('errors.unsupportedFormat', { type: unsupported.type || translate('errors.unknownType') }));
+  }
+  const totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+  if (totalBytes > MAX_INPUT_BYTES) {
+    throw new ImageGenerationError('invalid-input', translate('errors.fileTooLarge', { size: (totalBytes / 1024 / 1024).toFixed(1), max: MAX_INPUT_BYTES / 1024 / 1024 }));
+  }
+};
 
-const fileToGenerativePart = async (file: File): Promise<Part> => {
+const fileToInlineImage = async (file: File): Promise<InlineImage> => {
   const base64EncodedDataPromise = new Promise<string>((resolve) => {
     const reader = new FileReader();
     reader.onloadend = () => {
@@ -20,147 +58,141 @@ const fileToGenerativePart = async (file: File): Promise<Part> => {
   });
 
   return {
-    inlineData: {
-      data: await base64EncodedDataPromise,
-      mimeType: file.type,
-    },
+    data: await base64EncodedDataPromise,
+    mimeType: file.type,
   };
 };
 
-const dataUrlToGenerativePart = (dataUrl: string): Part => {
-    const [header, data] = dataUrl.split(',');
-    const mimeType = header.match(/:(.*?);/)?.[1] || 'image/jpeg';
-    return {
-        inlineData: {
-            data,
-            mimeType,
+const requestVariations = async (
+  productImages: InlineImage[],
+  prompt: string,
+  { operation, modeId, count, variationPrompts, aspectRatio, mask, postProcess }: VariationOptions,
+  { signal, onVariation }: RequestOptions = {},
+): Promise<string[]> => {
+  const budget = getBudgetStatus();
+  if (budget.blocked) {
+    throw new ImageGenerationError('budget', translate('errors.budgetSpent', { spent: formatUsd(budget.spentUsd), budget: formatUsd(budget.budgetUsd ?? 0) }));
+  }
+
+  const provider = getImageProvider();
+  const model = provider.getModel();
+  const brandKit = loadBrandKit();
+  const images = [...productImages, ...getBrandKitImages(brandKit)];
+  const fullPrompt = prompt + buildBrandKitPrompt(brandKit, productImages.length) + getPromptTexts().sceneText;
+  const { model: requestedModel, temperature, seed } = loadGenerationSettings();
+  const baseSeed = seed ?? createSeed();
+
+  const results = await Promise.allSettled(Array.from({ length: count }, async (_, variation) => {
+    const variationSeed = getVariationSeed(baseSeed, variation);
+    try {
+      const urls = await runWithRetry(async attemptSignal => {
+        const startedAt = performance.now();
+        const usageContext = { operation, modeId: modeId ?? null, provider: provider.id, model };
+        try {
+          const result = await provider.generate({
+            operation,
+            images,
+            prompt: fullPrompt + (variationPrompts?.[variation] ?? ''),
+            variation,
+            aspectRatio,
+            mask,
+            model: requestedModel ?? undefined,
+            temperature: temperature ?? undefined,
+            seed: variationSeed,
+            seedFixed: seed !== null,
+          }, attemptSignal);
+          recordUsage({ ...usageContext, model: result.model ?? model, latencyMs: performance.now() - startedAt, success: true, imageCount: result.imageUrls.length, usage: result.usage ?? null });
+          return result.imageUrls;
+        } catch (error) {
+          // Calls cancelled by the user are not billed failures; timeouts and API errors are recorded.
+          if (!signal?.aborted) {
+            recordUsage({ ...usageContext, latencyMs: performance.now() - startedAt, success: false, imageCount: 0, usage: null, error: error instanceof Error ? error.message : String(error) });
+          }
+          throw error;
         }
+      }, { signal });
+      const finalUrls = postProcess ? await Promise.all(urls.map(postProcess)) : urls;
+      onVariation?.({ index: variation, status: 'done', urls: finalUrls, seed: variationSeed });
+      return finalUrls;
+    } catch (error) {
+      if (!isAbortError(error)) {
+        onVariation?.({ index: variation, status: 'failed', error });
+      }
+      throw error;
     }
-}
-
-const ecommercePrompt = `**TAREFA:** A partir da imagem fornecida, recrie-a como uma fotografia de produto para e-commerce com a mais alta qualidade profissional, hiper-realista e pronta para publicação.
-
-**DIRETRIZES ESSENCIAIS DE QUALIDADE:**
-
-1.  **ILUMINAÇÃO DE ESTÚDIO:** Simule uma configuração de **lightbox profissional**. A iluminação deve ser perfeitamente difusa, suave e envolvente, eliminando completamente sombras duras e reflexos especulares indesejados. O produto deve ser iluminado de forma a destacar suas texturas e formas naturais.
-
-2.  **FUNDO IMACULADO:** O fundo deve ser **branco puro (#FFFFFF), uniforme e absolutamente limpo**. É terminantemente proibido qualquer tipo de gradiente, textura ou **sombra projetada** do produto no fundo. O produto deve parecer flutuar em um espaço branco infinito.
-
-3.  **HIPER-REALISMO E COR:** A renderização deve ser **extremamente realista**. As texturas dos materiais (plástico, papel, metal, tecido, etc.) devem ser autênticas e táteis. A **precisão de cor é crítica**; as cores devem ser vibrantes, mas 100% fiéis ao produto original, com um balanço de branco perfeitamente neutro, sem dominantes de cor.
-
-4.  **NITIDEZ E DETALHE:** O produto inteiro deve estar em **foco absoluto e perfeitamente nítido** de ponta a ponta (grande profundidade de campo). As bordas devem ser limpas e definidas, sem aberrações cromáticas, halos ou desfoques de recorte.
-
-5.  **ENQUADRAMENTO PROFISSIONAL:**
-    *   **Proporção e Resolução:** A imagem final DEVE ser um quadrado perfeito (1:1) com resolução de 2048x2048 pixels.
-    *   **Composição:** O produto deve ser **cuidadosamente centralizado** e dimensionado para ocupar uma porção significativa do quadro (aproximadamente 85-90%), garantindo uma **margem (padding) generosa e visualmente consistente** em todos os lados. Evite que o produto pareça muito pequeno ou muito grande a ponto de tocar as bordas. O objetivo é um enquadramento equilibrado e profissional.
-`;
-
-const socialPrompt = `**TAREFA:** A partir da imagem do produto fornecida, crie uma fotografia de ambiente (lifestyle) **hiper-realista e profissional** para redes sociais, que seja elegante e contextualizada.
-
-**DIRETRIZES ESSENCIAIS DE ESTILO:**
-
-1.  **CONTEXTO INTELIGENTE:** Analise o produto e crie um cenário que **complemente sua natureza e uso**. Por exemplo, um pote de geleia pode ser apresentado em uma mesa de café da manhã, enquanto um cosmético pode estar em um banheiro elegante. O objetivo é contar uma pequena história sobre o produto.
+  }));
 
-2.  **ESTÉTICA CONSISTENTE:** Mantenha uma estética **rústica-chique, artesanal e convidativa**. Utilize materiais naturais como madeira, pedra, linho ou cerâmica. A composição deve parecer autêntica e cuidadosamente arranjada, nunca artificial.
-
-3.  **ILUMINAÇÃO E ATMOSFERA:**
-    *   A iluminação deve ser **natural e suave**, como a luz de uma janela. Crie **sombras suaves e realistas** que deem profundidade e volume à cena. A atmosfera geral deve ser quente, acolhedora e sofisticada.
-
-4.  **REALISMO E INTEGRAÇÃO DO PRODUTO:**
-    *   O produto fornecido deve ser **perfeitamente integrado** ao cenário, com sombras e reflexos realistas que interagem com o ambiente.
-    *   Mantenha a **fidelidade total ao produto original** (cores, texturas, rótulos).
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
 
-5.  **ENQUADRAMENTO E FOCO:**
-    *   **Proporção:** A imagem final DEVE ser um quadrado perfeito (1:1). Resolução: 2048x2048 pixels.
-    *   **Foco:** O produto deve ser o ponto focal principal. Use uma profundidade de campo ligeiramente rasa (foco suave no fundo) para destacá-lo, mas garantindo que o contexto seja reconhecível.
-    *   **Composição:** Siga princípios de composição fotográfica (como a regra dos terços) para um resultado visualmente atraente.
-`;
+  const allImageUrls = results.flatMap(result => result.status === 'fulfilled' ? result.value : []);
+  if (allImageUrls.length === 0) {
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    throw failure?.reason ?? new ImageGenerationError('empty-response', translate('errors.noImages'));
+  }
 
-const processApiResponse = (response: any): string[] => {
-    const imageUrls: string[] = [];
-    if (response.candidates && response.candidates.length > 0) {
-        for (const candidate of response.candidates) {
-            const part = candidate.content.parts.find(p => p.inlineData && p.inlineData.mimeType.startsWith('image/'));
-            if (part) {
-                const mimeType = part.inlineData.mimeType;
-                const base64ImageBytes: string = part.inlineData.data;
-                imageUrls.push(`data:${mimeType};base64,${base64ImageBytes}`);
-            }
-        }
-    }
+  return allImageUrls;
+};
 
-    if (imageUrls.length === 0) {
-      throw new Error("Nenhuma imagem foi gerada na resposta da API.");
-    }
-    
-    return imageUrls;
+export interface GenerateOptions extends RequestOptions {
+  // Requests one image per entry of PRODUCT_ANGLES instead of free variations.
+  angleSet?: boolean;
 }
 
-export const generateImages = async (imageFile: File, mode: GenerationMode): Promise<string[]> => {
-  const imagePart = await fileToGenerativePart(imageFile);
-  const prompt = mode === 'ECOMMERCE' ? ecommercePrompt : socialPrompt;
+// The first file is the main product photo; any others are extra angles of the same product.
+export const generateImages = async (imageFiles: File[], mode: GenerationMode, { angleSet, ...options }: GenerateOptions = {}): Promise<string[]> => {
+  validateInputFiles(imageFiles);
+  const images = await Promise.all(imageFiles.map(fileToInlineImage));
+  const prompt = renderModePrompt(mode) + buildReferencePrompt(images.length);
+  const variationOptions = angleSet
+    ? { operation: 'generation' as const, modeId: mode.id, count: PRODUCT_ANGLES.length, variationPrompts: PRODUCT_ANGLES.map(buildAnglePrompt), aspectRatio: mode.aspectRatio }
+    : { operation: 'generation' as const, modeId: mode.id, count: mode.variationCount, aspectRatio: mode.aspectRatio };
 
   try {
-    const imagePromises = Array(4).fill(0).map(() => 
-      ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: {
-          parts: [
-            imagePart,
-            { text: prompt },
-          ],
-        },
-        config: {
-          responseModalities: [Modality.IMAGE],
-        },
-      })
-    );
-    
-    const responses = await Promise.all(imagePromises);
-    const allImageUrls = responses.flatMap(processApiResponse);
-    
-    if (allImageUrls.length < 4) {
-      throw new Error(`A API gerou apenas ${allImageUrls.length} de 4 imagens solicitadas.`);
-    }
+    return await requestVariations(images, prompt, variationOptions, options);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Erro no provedor de imagens (generateImages):", error);
+    throw toImageGenerationError(error);
+  }
+};
 
-    return allImageUrls;
+export const generateKitImages = async (kit: KitSetup, mode: GenerationMode, options: RequestOptions = {}): Promise<string[]> => {
+  validateInputFiles(kit.files);
+  const images = await Promise.all(kit.files.map(fileToInlineImage));
+  const prompt = renderModePrompt(mode) + buildKitPrompt(kit);
 
+  try {
+    return await requestVariations(images, prompt, { operation: 'kit', modeId: mode.id, count: mode.variationCount, aspectRatio: mode.aspectRatio }, options);
   } catch (error) {
-    console.error("Erro na chamada da API Gemini (generateImages):", error);
-    throw new Error("Falha ao gerar as imagens. Por favor, verifique o console para mais detalhes.");
+    if (isAbortError(error)) throw error;
+    console.error("Erro no provedor de imagens (generateKitImages):", error);
+    throw toImageGenerationError(error);
   }
 };
 
-export const refineImage = async (base64DataUrl: string, prompt: string): Promise<string[]> => {
-  const imagePart = dataUrlToGenerativePart(base64DataUrl);
+export interface RefineOptions extends RequestOptions {
+  maskDataUrl?: string | null;
+  count?: number;
+}
+
+export const refineImage = async (base64DataUrl: string, prompt: string, { maskDataUrl, count = REFINEMENT_VARIATION_COUNT, ...options }: RefineOptions = {}): Promise<string[]> => {
+  const image = dataUrlToInlineImage(base64DataUrl);
 
   try {
-     const imagePromises = Array(4).fill(0).map(() =>
-        ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: {
-            parts: [
-            imagePart,
-            { text: prompt },
-            ],
-        },
-        config: {
-            responseModalities: [Modality.IMAGE],
-        },
-        })
-    );
-
-    const responses = await Promise.all(imagePromises);
-    const allImageUrls = responses.flatMap(processApiResponse);
-
-    if (allImageUrls.length < 4) {
-        throw new Error(`A API gerou apenas ${allImageUrls.length} de 4 imagens solicitadas.`);
+    if (!maskDataUrl) {
+      return await requestVariations([image], prompt, { operation: 'refinement', count }, options);
     }
-    
-    return allImageUrls;
-
+    return await requestVariations([image], prompt + buildMaskPrompt(), {
+      operation: 'refinement',
+      count,
+      mask: dataUrlToInlineImage(maskDataUrl),
+      postProcess: url => compositeWithMask(base64DataUrl, url, maskDataUrl),
+    }, options);
   } catch (error) {
-    console.error("Erro na chamada da API Gemini (refineImage):", error);
-    throw new Error("Falha ao refinar a imagem. Por favor, verifique o console para mais detalhes.");
+    if (isAbortError(error)) throw error;
+    console.error("Erro no provedor de imagens (refineImage):", error);
+    throw toImageGenerationError(error);
   }
-};
\ No newline at end of file
+};
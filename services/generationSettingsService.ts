@@ -0,0 +1,65 @@
+import { ASPECT_RATIOS, AspectRatio, GenerationMode, clampVariationCount } from './modeService';
+
+// `null` keeps the default: the mode's count and aspect ratio, the server's model, the model's temperature and a random seed.
+export interface GenerationSettings {
+  variationCount: number | null;
+  aspectRatio: AspectRatio | null;
+  model: string | null;
+  temperature: number | null;
+  seed: number | null;
+}
+
+const STORAGE_KEY = 'emporio:generation-settings';
+const MAX_SEED = 2 ** 31 - 1;
+
+export const MIN_TEMPERATURE = 0;
+export const MAX_TEMPERATURE = 2;
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  variationCount: null,
+  aspectRatio: null,
+  model: null,
+  temperature: null,
+  seed: null,
+};
+
+const sanitizeSettings = (settings: Partial<GenerationSettings>): GenerationSettings => ({
+  variationCount: typeof settings.variationCount === 'number' ? clampVariationCount(settings.variationCount) : null,
+  aspectRatio: settings.aspectRatio && ASPECT_RATIOS.includes(settings.aspectRatio) ? settings.aspectRatio : null,
+  model: typeof settings.model === 'string' && settings.model ? settings.model : null,
+  temperature: typeof settings.temperature === 'number' && Number.isFinite(settings.temperature)
+    ? Math.min(MAX_TEMPERATURE, Math.max(MIN_TEMPERATURE, settings.temperature))
+    : null,
+  seed: Number.isInteger(settings.seed) ? Math.min(MAX_SEED, Math.max(0, settings.seed as number)) : null,
+});
+
+export const loadGenerationSettings = (): GenerationSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? sanitizeSettings(JSON.parse(stored)) : DEFAULT_GENERATION_SETTINGS;
+  } catch (error) {
+    console.error("Não foi possível carregar as configurações de geração:", error);
+    return DEFAULT_GENERATION_SETTINGS;
+  }
+};
+
+export const saveGenerationSettings = (settings: GenerationSettings): GenerationSettings => {
+  const sanitized = sanitizeSettings(settings);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sanitized));
+  } catch (error) {
+    console.error("Não foi possível salvar as configurações de geração:", error);
+  }
+  return sanitized;
+};
+
+export const applyGenerationSettings = (mode: GenerationMode, settings: GenerationSettings): GenerationMode => ({
+  ...mode,
+  variationCount: settings.variationCount ?? mode.variationCount,
+  aspectRatio: settings.aspectRatio ?? mode.aspectRatio,
+});
+
+export const createSeed = (): number => Math.floor(Math.random() * MAX_SEED);
+
+// A fixed seed gives variation i the seed `seed + i`, so a single variation can be reproduced with its own seed.
+export const getVariationSeed = (baseSeed: number, variation: number): number => (baseSeed + variation) % MAX_SEED;
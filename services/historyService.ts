@@ -0,0 +1,69 @@
+import { HISTORY_STORE, runStoreTransaction } from './database';
+
+export type HistoryEntryKind = 'generation' | 'refinement';
+
+export interface HistoryEntry {
+  id: string;
+  createdAt: number;
+  kind: HistoryEntryKind;
+  productName: string;
+  originalFile: File;
+  modeId: string;
+  modeLabel: string;
+  prompt: string;
+  sourceImageUrl: string | null;
+  resultUrls: string[];
+  // Catalog product the session was attached to, if any.
+  sku?: string | null;
+  // Seed of each result, by index; missing for entries saved before seeds were recorded.
+  seeds?: (number | undefined)[];
+  favorite: boolean;
+}
+
+export type NewHistoryEntry = Omit<HistoryEntry, 'id' | 'createdAt' | 'favorite'>;
+
+export const addHistoryEntry = async (entry: NewHistoryEntry): Promise<HistoryEntry> => {
+  const record: HistoryEntry = {
+    ...entry,
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: Date.now(),
+    favorite: false,
+  };
+  await runStoreTransaction(HISTORY_STORE, 'readwrite', store => store.put(record));
+  return record;
+};
+
+export const listHistoryEntries = async (): Promise<HistoryEntry[]> => {
+  const entries = await runStoreTransaction<HistoryEntry[]>(HISTORY_STORE, 'readonly', store => store.getAll());
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const updateHistoryEntry = async (id: string, changes: Partial<Omit<HistoryEntry, 'id'>>): Promise<void> => {
+  const existing = await runStoreTransaction<HistoryEntry | undefined>(HISTORY_STORE, 'readonly', store => store.get(id));
+  if (!existing) return;
+  await runStoreTransaction(HISTORY_STORE, 'readwrite', store => store.put({ ...existing, ...changes }));
+};
+
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+  await runStoreTransaction(HISTORY_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const clearHistory = async (): Promise<void> => {
+  await runStoreTransaction(HISTORY_STORE, 'readwrite', store => store.clear());
+};
+
+export const groupHistoryByProduct = (entries: HistoryEntry[]): [string, HistoryEntry[]][] => {
+  const groups = new Map<string, HistoryEntry[]>();
+  for (const entry of entries) {
+    const group = groups.get(entry.productName) ?? [];
+    group.push(entry);
+    groups.set(entry.productName, group);
+  }
+  return Array.from(groups.entries());
+};
+
+export const recordHistory = (entry: NewHistoryEntry) => {
+  addHistoryEntry(entry).catch(error => {
+    console.error("Não foi possível salvar no histórico:", error);
+  });
+};
@@ -0,0 +1,85 @@
+import { ptBR, ptBRPrompts } from './locales/ptBR';
+import { es, esPrompts } from './locales/es';
+import { en, enPrompts } from './locales/en';
+import { Language, Messages, PromptTexts, TranslationKey, TranslationParams } from './types';
+
+export type { Language, PromptTexts, TranslationKey, TranslationParams } from './types';
+
+export const LANGUAGES: { id: Language; label: string }[] = [
+  { id: 'pt-BR', label: 'Português (Brasil)' },
+  { id: 'es', label: 'Español' },
+  { id: 'en', label: 'English' },
+];
+
+const LANGUAGE_KEY = 'emporio:language';
+const PROMPT_LANGUAGE_KEY = 'emporio:prompt-language';
+
+const MESSAGES: Record<Language, Messages> = { 'pt-BR': ptBR, es, en };
+const PROMPTS: Record<Language, PromptTexts> = { 'pt-BR': ptBRPrompts, es: esPrompts, en: enPrompts };
+
+export const isTranslationKey = (value: unknown): value is TranslationKey => typeof value === 'string' && Object.hasOwn(ptBR, value);
+
+export const isLanguage = (value: unknown): value is Language => LANGUAGES.some(language => language.id === value);
+
+const detectLanguage = (): Language => {
+  const browserLanguage = typeof navigator === 'undefined' ? '' : navigator.language.toLowerCase();
+  if (browserLanguage.startsWith('es')) return 'es';
+  if (browserLanguage.startsWith('en')) return 'en';
+  return 'pt-BR';
+};
+
+// The proxy imports services that translate messages, so storage may not exist at all.
+const loadStoredLanguage = (key: string): Language | null => {
+  if (typeof localStorage === 'undefined') return null;
+  try {
+    const stored = localStorage.getItem(key);
+    return isLanguage(stored) ? stored : null;
+  } catch (error) {
+    console.error("Não foi possível carregar o idioma:", error);
+    return null;
+  }
+};
+
+const storeLanguage = (key: string, language: Language) => {
+  try {
+    localStorage.setItem(key, language);
+  } catch (error) {
+    console.error("Não foi possível salvar o idioma:", error);
+  }
+};
+
+let currentLanguage: Language | null = null;
+// `undefined` until storage was read; `null` while no prompt language has been chosen.
+let currentPromptLanguage: Language | null | undefined;
+
+export const getLanguage = (): Language => {
+  if (!currentLanguage) currentLanguage = loadStoredLanguage(LANGUAGE_KEY) ?? detectLanguage();
+  return currentLanguage;
+};
+
+// Until a prompt language is chosen, prompts follow the interface language.
+export const getPromptLanguage = (): Language => {
+  if (currentPromptLanguage === undefined) currentPromptLanguage = loadStoredLanguage(PROMPT_LANGUAGE_KEY);
+  return currentPromptLanguage ?? getLanguage();
+};
+
+export const setLanguage = (language: Language) => {
+  currentLanguage = language;
+  storeLanguage(LANGUAGE_KEY, language);
+};
+
+export const setPromptLanguage = (language: Language) => {
+  currentPromptLanguage = language;
+  storeLanguage(PROMPT_LANGUAGE_KEY, language);
+};
+
+export const interpolate = (text: string, params?: TranslationParams): string => {
+  if (!params) return text;
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => name in params ? String(params[name]) : match);
+};
+
+export const translate = (key: TranslationKey, params?: TranslationParams): string => {
+  return interpolate(MESSAGES[getLanguage()][key] ?? ptBR[key], params);
+};
+
+export const getPromptTexts = (): PromptTexts => PROMPTS[getPromptLanguage()];
@@ -0,0 +1,515 @@
+import { Messages, PromptTexts } from '../types';
+
+export const en: Messages = {
+  'common.download': 'Download',
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.optional': '(optional)',
+  'common.variationOf': 'Variation {index} of {name}',
+  'common.save': 'Save',
+  'common.restoreDefaults': 'Restore defaults',
+  'common.editItem': 'Edit {name}',
+  'common.deleteItem': 'Delete {name}',
+
+  'editing.selectedImageAlt': 'Image selected for editing',
+
+  'mask.brush': 'Brush',
+  'mask.lasso': 'Lasso',
+  'mask.eraser': 'Eraser',
+  'mask.edit': 'Change',
+  'mask.protect': 'Protect',
+  'mask.brushSize': 'Brush size',
+  'mask.clear': 'Clear',
+
+  'prep.loading': 'Preparing the photo...',
+  'prep.previewAlt': 'Preview of the prepared photo',
+  'prep.rotateLeft': 'Rotate left',
+  'prep.rotateRight': 'Rotate right',
+  'prep.fitToProduct': 'Fit to product',
+  'prep.noCrop': 'No crop',
+  'prep.maxEdge': 'Maximum size',
+  'prep.maxEdgeHint': 'Maximum size sent to the AI',
+
+  'overlay.text': 'Text',
+  'overlay.price': 'Price',
+  'overlay.badge': 'Badge',
+  'overlay.logo': 'Logo',
+  'overlay.add': 'Add:',
+  'overlay.removeLayer': 'Remove layer',
+  'overlay.font': 'Font',
+  'overlay.fontSans': 'Modern',
+  'overlay.fontSerif': 'Classic',
+  'overlay.fontScript': 'Handwritten',
+  'overlay.fontCondensed': 'Highlight',
+  'overlay.color': 'Color',
+  'overlay.background': 'Background',
+  'overlay.backgroundColor': 'Background color',
+  'overlay.size': 'Size',
+  'overlay.opacity': 'Opacity',
+  'overlay.selectHint': 'Click an element on the image to edit it and drag to position it.',
+  'overlay.emptyHint': 'Texts and badges only go into the downloaded file; they are never sent to the AI.',
+  'overlay.templates': 'Templates',
+  'overlay.deleteTemplate': 'Delete template {name}',
+  'overlay.templateName': 'Template name',
+  'overlay.saveTemplate': 'Save template',
+  'overlay.templateSaveError': 'Could not save the template. Try using a smaller logo.',
+
+  'export.title': 'Export Image',
+  'export.original': 'Original',
+  'export.originalHint': 'Size and aspect ratio generated by the AI',
+  'export.instagramFeed': 'Instagram Feed',
+  'export.instagramFeedHint': '4:5 · 1080x1350',
+  'export.stories': 'Stories',
+  'export.storiesHint': '9:16 · 1080x1920',
+  'export.marketplace': 'Mercado Livre / Shopee',
+  'export.marketplaceHint': '1:1 · at least 1200x1200, white background',
+  'export.whatsappCatalog': 'WhatsApp Catalog',
+  'export.whatsappCatalogHint': '1:1 · 800x800, small file',
+  'export.print': 'Print',
+  'export.printHint': 'Uncompressed TIFF with DPI, at the enlargement size chosen below',
+  'export.format': 'Format',
+  'export.quality': 'Quality ({percent}%)',
+  'export.allFormats': 'All formats (ZIP)',
+  'export.exporting': 'Exporting...',
+  'export.error': 'Could not export the image. Try another format.',
+  'export.encodeError': 'Could not create the export file.',
+
+  'upscale.title': 'Upscaling and sharpening for print',
+  'upscale.actual': 'Actual resolution:',
+  'upscale.output': 'Final file:',
+  'upscale.sizeSummary': '{width} × {height} px · {printWidth} × {printHeight} cm at {dpi} DPI',
+  'upscale.printSize': '{width} × {height} cm at {dpi} DPI',
+  'upscale.belowRequested': 'Smaller than the {edge} px requested from the model. Upscale it before printing.',
+  'upscale.target': 'Upscale to',
+  'upscale.none': 'Original size',
+  'upscale.double': '2× resolution',
+  'upscale.quadruple': '4× resolution',
+  'upscale.shelfLabel': 'Shelf label (4 × 6 cm)',
+  'upscale.photo': '10 × 15 cm photo',
+  'upscale.a5': 'A5 flyer (14.8 × 21 cm)',
+  'upscale.a4': 'A4 flyer (21 × 29.7 cm)',
+  'upscale.dpi': 'DPI',
+  'upscale.sharpen': 'Sharpening ({percent}%)',
+  'upscale.sharpenOff': 'Sharpening (off)',
+  'upscale.error': 'Could not upscale the image in this browser.',
+
+  'compare.slider': 'Compare before and after',
+
+  'versions.title': 'Versions',
+  'versions.compareWith': 'Compare with {version}',
+  'versions.original': 'Original',
+
+  'references.title': 'Other angles of the same product',
+  'references.hint': 'Photos of the back, sides or details help the AI keep labels and tables consistent.',
+  'references.photoAlt': 'Additional angle {index}',
+  'references.remove': 'Remove photo',
+  'references.add': 'Add a photo from another angle',
+  'references.angleSet': 'Generate angle set ({angles})',
+
+  'angle.front': 'Front',
+  'angle.back': 'Back',
+  'angle.angle45': '45°',
+  'angle.detail': 'Detail',
+
+  'batch.queued': 'Queued',
+  'batch.generating': 'Generating...',
+  'batch.done': 'Done',
+  'batch.failed': 'Failed',
+  'batch.pickWinner': 'Pick the best variation below.',
+  'batch.retry': 'Retry {name}',
+
+  'kit.name': 'Kit name',
+  'kit.namePlaceholder': 'E.g.: Breakfast gift basket',
+  'kit.hint': 'Add {min} to {max} products photographed separately. The order sets their position in the scene, from left to right, and the star marks the main product.',
+  'kit.productAlt': 'Product {index}',
+  'kit.removeProduct': 'Remove product {index}',
+  'kit.moveLeft': 'Move left',
+  'kit.hero': 'Main product',
+  'kit.moveRight': 'Move right',
+  'kit.addProduct': 'Add product',
+
+  'camera.open': 'Photograph product',
+  'camera.framingHint': 'Center the product inside the marks, with the label facing the camera.',
+  'camera.shutter': 'Take photo',
+  'camera.unavailable': 'Could not open the camera in this browser. You can still take the photo with the device\'s camera app.',
+  'camera.openSystemCamera': 'Open device camera',
+
+  'offline.banner': 'No connection. Photos sent now wait in a queue and are generated when the connection is back.',
+  'offline.sending': 'Back online. The queue is sent when you return to the start screen.',
+  'offline.queued': '{count} photo(s) queued.',
+  'offline.queueFailed': 'Could not save the photo to generate later.',
+
+  'fidelity.passedHint': 'Product faithful to the original',
+  'fidelity.passed': 'Faithful',
+  'fidelity.check': 'Check',
+  'fidelity.colorIssue': 'Product colors differ from the original ({percent}%).',
+  'fidelity.shapeIssue': 'Product shape or details changed ({percent}%).',
+  'fidelity.labelIssue': 'Label text differs from the original ({percent}%).',
+
+  'compliance.passedHint': 'Ready for marketplaces ({width}x{height}px, white background)',
+  'compliance.passed': 'Marketplace',
+  'compliance.failed': 'Out of standard',
+  'compliance.backgroundIssue': 'Background is not pure white (average {color}, {percent}% at #FFFFFF).',
+  'compliance.resolutionIssue': 'Resolution of {width}x{height}px is below the {min}px minimum.',
+  'compliance.ratioIssue': 'Aspect ratio {width}x{height}px differs from {ratio}.',
+  'compliance.fillIssue': 'Product fills {percent}% of the frame (expected {min}–{max}%).',
+  'compliance.centerIssue': 'Product off center ({percent}% offset).',
+  'compliance.noProduct': 'No product found in the image.',
+
+  'brandKit.saveError': 'Could not save the brand kit. Try using fewer reference images.',
+  'brandKit.referenceError': 'Could not load the reference image.',
+  'brandKit.title': 'Brand Kit',
+  'brandKit.enabled': 'Apply the brand kit to every generation',
+  'brandKit.colors': 'Brand colors',
+  'brandKit.color': 'Color {index}',
+  'brandKit.removeColor': 'Remove color {color}',
+  'brandKit.addColor': 'Add color',
+  'brandKit.surfaces': 'Preferred surfaces and props',
+  'brandKit.surfacesPlaceholder': 'E.g.: reclaimed wood table, raw linen cloth, handmade ceramic jars',
+  'brandKit.forbidden': 'Forbidden elements',
+  'brandKit.forbiddenPlaceholder': 'E.g.: plastic, white marble, other brands\' logos',
+  'brandKit.notes': 'Style notes',
+  'brandKit.notesPlaceholder': 'E.g.: warm late-afternoon light, countryside deli mood',
+  'brandKit.references': 'Reference images ({count}/{max})',
+  'brandKit.reference': 'Reference {index}',
+  'brandKit.removeReference': 'Remove reference {index}',
+  'brandKit.addReference': 'Add reference image',
+  'brandKit.save': 'Save Kit',
+
+  'errors.unsupportedFormat': 'Unsupported image format: {type}.',
+  'errors.unknownType': 'unknown',
+  'errors.fileTooLarge': 'Photos too large: {size} MB in total, the limit is {max} MB.',
+  'errors.budgetSpent': 'Estimated spending this month: {spent} of {budget}.',
+  'errors.noImages': 'No image was generated in the API response.',
+  'errors.invalidKey.title': 'Invalid API key',
+  'errors.invalidKey.message': 'The Gemini API key is missing, invalid or lacks permission. Check the GEMINI_API_KEY value in .env.local and restart the proxy server (npm run server).',
+  'errors.quota.title': 'Usage limit reached',
+  'errors.quota.message': 'The API quota or request limit has been reached. Wait a few minutes before trying again.',
+  'errors.safety.title': 'Content blocked',
+  'errors.safety.message': 'The AI safety filter blocked this request. Adjust the instruction or use another photo of the product.',
+  'errors.invalidInput.title': 'Unsupported image',
+  'errors.invalidInput.message': 'The uploaded image is in an unsupported format or is too large. Use JPEG, PNG or WEBP photos of up to 20 MB in total.',
+  'errors.network.title': 'Connection failure',
+  'errors.network.message': 'Could not reach the AI service. Check your internet connection and try again.',
+  'errors.emptyResponse.title': 'No image generated',
+  'errors.emptyResponse.message': 'The AI answered without any image. Trying again usually solves it.',
+  'errors.budget.title': 'Monthly budget reached',
+  'errors.budget.message': 'The estimated API spending has reached the configured monthly budget and new generations are blocked. Adjust the budget in the usage panel to continue.',
+  'errors.unknown.title': 'An Error Occurred',
+  'errors.unknown.message': 'The AI could not process the image. Please try again.',
+  'errors.timeout': 'The request exceeded the {seconds}s time limit.',
+  'errors.heicUnsupported': 'This browser cannot open HEIC photos. Export the photo as JPEG and try again.',
+  'errors.unreadableImage': 'Could not read the image "{name}".',
+  'errors.encodePrepared': 'Could not encode the prepared image.',
+  'errors.serverStatus': 'The server responded with status {status}.',
+  'errors.imageLoad': 'Could not load the image.',
+  'errors.canvasUnavailable': 'Canvas 2D is not available in this browser.',
+  'errors.cancelled': 'The operation was cancelled.',
+  'errors.stubFailure': 'Failure simulated by the stub: {kind}.',
+  'errors.missingApiKey': 'The GEMINI_API_KEY environment variable is not set on the server.',
+  'errors.promptBlocked': 'Instruction blocked: {reason}.',
+  'errors.imageBlocked': 'Image blocked: {reason}.',
+  'errors.requestTooLarge': 'The request exceeds the {max} MB limit.',
+  'errors.invalidJson': 'The request body is not valid JSON.',
+  'errors.missingImages': 'Send at least one image in `images`.',
+  'errors.missingPrompt': 'The `prompt` field is required.',
+  'errors.invalidMask': 'The `mask` field is invalid.',
+  'errors.rateLimited': 'Too many requests from this client. Wait a moment before trying again.',
+  'providers.mockVariation': 'MOCK · variation {number}',
+
+  'safety.SAFETY': 'content considered unsafe',
+  'safety.IMAGE_SAFETY': 'image considered unsafe',
+  'safety.PROHIBITED_CONTENT': 'prohibited content',
+  'safety.IMAGE_PROHIBITED_CONTENT': 'image with prohibited content',
+  'safety.BLOCKLIST': 'blocked terms in the instruction',
+  'safety.SPII': 'sensitive personal data',
+  'safety.RECITATION': 'similarity to protected content',
+  'safety.IMAGE_RECITATION': 'similarity to a protected image',
+
+  'fidelitySettings.title': 'Fidelity Check',
+  'fidelitySettings.intro': 'Each generated image is compared with the original product photo. Variations below the thresholds are flagged.',
+  'fidelitySettings.enabled': 'Check fidelity after each generation',
+  'fidelitySettings.threshold': '{label} (minimum {percent}%)',
+  'fidelitySettings.color': 'Color similarity',
+  'fidelitySettings.shape': 'Shape similarity',
+  'fidelitySettings.labelText': 'Compare the label text (OCR)',
+  'fidelitySettings.noTextDetection': 'This browser does not offer text detection.',
+  'fidelitySettings.text': 'Text similarity',
+  'fidelitySettings.autoRegenerate': 'Automatically regenerate diverging variations',
+  'fidelitySettings.maxRegenerations': 'Regeneration attempts',
+  'fidelitySettings.costHint': 'Each regeneration makes new paid API calls.',
+
+  'generationSettings.title': 'Generation Settings',
+  'generationSettings.variations': 'Variations',
+  'generationSettings.modeDefault': 'Mode default ({value})',
+  'generationSettings.aspectRatio': 'Aspect ratio',
+  'generationSettings.model': 'Model',
+  'generationSettings.serverDefault': 'Server default',
+  'generationSettings.temperature': 'Temperature',
+  'generationSettings.temperatureHint': 'Low values produce more similar results; high values, more varied ones.',
+  'generationSettings.fixedSeed': 'Fixed seed',
+  'generationSettings.randomSeed': 'random',
+  'generationSettings.seed': 'Seed',
+  'generationSettings.seedHint': 'Each variation uses the next seed (seed + 1, + 2…). The seed of each image is shown while editing.',
+  'generationSettings.promptLanguage': 'Prompt language',
+  'generationSettings.promptLanguageHint': 'Language of the instructions sent to the AI and of the texts it writes in the scenes. Choose the language of the market where the photos will be published.',
+  'generationSettings.costHint': 'Temperature and seed are only sent to models that support them. More variations mean more paid API calls.',
+
+  'modes.title': 'Generation Modes',
+  'modes.new': 'New Mode',
+  'modes.edit': 'Edit Mode',
+  'modes.save': 'Save Mode',
+  'modes.confirmDelete': 'Delete the mode "{label}"?',
+  'modes.name': 'Name',
+  'modes.namePlaceholder': 'E.g.: Gift kit',
+  'modes.prompt': 'Prompt',
+  'modes.placeholderHint': 'Use {placeholder} to insert the chosen aspect ratio into the text.',
+  'modes.variationCount': '{count} variations',
+  'modes.builtIn': 'default',
+  'modes.duplicate': 'Duplicate {label}',
+  'modes.copy': '{label} (copy)',
+  'modes.ecommerce': 'Studio Photo',
+  'modes.ecommerceProcessing': 'Recreating to perfection...',
+  'modes.social': 'Lifestyle Photo',
+  'modes.socialProcessing': 'Creating your lifestyle photos...',
+  'modes.processing': 'Creating your "{label}" photos...',
+
+  'presets.resetConfirm': 'Restore the default shortcuts? Shortcuts you created or edited will be lost.',
+  'presets.namePlaceholder': 'Shortcut name',
+  'presets.instructionPlaceholder': 'Instruction sent to the AI',
+  'presets.save': 'Save shortcut',
+  'presets.edit': 'Edit shortcut {label}',
+  'presets.delete': 'Delete shortcut {label}',
+  'presets.new': 'New shortcut',
+  'presets.done': 'Done',
+  'presets.manage': 'Manage shortcuts',
+
+  'preset.background-surface': 'Change surface',
+  'preset.warm-light': 'Warmer light',
+  'preset.fresh-ingredients': 'Fresh ingredients',
+  'preset.remove-props': 'Remove props',
+  'preset.top-down': 'Top-down view',
+
+  'history.loadError': 'Could not load this browser\'s history.',
+  'history.deleteConfirm': 'Delete this generation from the history?',
+  'history.clearConfirm': 'Erase all history saved in this browser? This cannot be undone.',
+  'history.title': 'History',
+  'history.favoritesOnly': 'Favorites only',
+  'history.clear': 'Clear history',
+  'history.empty': 'No generations saved yet.',
+  'history.refinement': 'Refinement: {prompt}',
+  'history.unfavorite': 'Remove from favorites',
+  'history.favorite': 'Add to favorites',
+  'history.delete': 'Delete from history',
+  'history.openVariation': 'Open variation {index} for editing',
+
+  'catalog.csvColumnsError': 'The CSV file needs the "SKU" and "Name" columns.',
+  'catalog.noApprovedPhotos': 'Approve at least one photo for a product before exporting the catalog.',
+  'catalog.loadError': 'Could not load this browser\'s approved photos.',
+  'catalog.duplicateSku': 'A product with SKU {sku} already exists.',
+  'catalog.deleteConfirm': 'Delete the product {name} and its approved photos?',
+  'catalog.imported': '{count} products imported.',
+  'catalog.importedWithSkipped': '{count} products imported, {skipped} rows skipped (no SKU or name).',
+  'catalog.editProduct': 'Edit Product',
+  'catalog.newProduct': 'New Product',
+  'catalog.sku': 'SKU',
+  'catalog.price': 'Price',
+  'catalog.name': 'Product name',
+  'catalog.category': 'Category',
+  'catalog.description': 'Description (optional)',
+  'catalog.saveProduct': 'Save Product',
+  'catalog.title': 'Product Catalog',
+  'catalog.addProduct': 'New product',
+  'catalog.importCsv': 'Import CSV',
+  'catalog.csvHint': 'The CSV needs the SKU and Name columns; Category, Price and Description are optional.',
+  'catalog.empty': 'No products registered.',
+  'catalog.removePhoto': 'Remove approved photo',
+  'catalog.noPhotos': 'No approved photos.',
+  'catalog.export': 'Export',
+  'catalog.imageBaseUrl': 'URL where the imagens/ folder will be published',
+  'catalog.storeUrl': 'Store URL (for the Meta catalog)',
+  'catalog.brand': 'Brand',
+  'catalog.exportHint': 'The ZIP contains the approved photos (1:1 JPEG, white background) and the files for Shopify, Nuvemshop, the Meta catalog and JSON. Shopify and Meta download the photos from the URL above.',
+  'catalog.exporting': 'Exporting...',
+  'catalog.exportZip': 'Export catalog (ZIP)',
+
+  'usage.generation': 'Generation',
+  'usage.refinement': 'Refinement',
+  'usage.kit': 'Kit',
+  'usage.clearConfirm': 'Erase this browser\'s whole usage log?',
+  'usage.title': 'Usage and Costs',
+  'usage.monthSpent': 'Estimated spending this month',
+  'usage.ofBudget': 'of {budget}',
+  'usage.monthlyBudget': 'Monthly budget (US$)',
+  'usage.noLimit': 'no limit',
+  'usage.budgetAction': 'When the budget is reached',
+  'usage.warn': 'Only warn when reached',
+  'usage.block': 'Block new generations',
+  'usage.lastDays': 'Last {days} days',
+  'usage.calls': 'Calls',
+  'usage.estimatedCost': 'Estimated cost',
+  'usage.failureRate': 'Failure rate',
+  'usage.averageLatency': 'Average latency',
+  'usage.callsPerDay': 'Calls per day',
+  'usage.dayTooltip': '{day}: {calls} calls, {failures} failures, {cost}',
+  'usage.today': 'Today',
+  'usage.type': 'Type',
+  'usage.failures': 'Failures',
+  'usage.cost': 'Cost',
+  'usage.disclaimer': 'Costs estimated from the public API prices; the billed amount may vary.',
+  'usage.clear': 'Clear log',
+
+  'app.checkingFidelity': 'Checking product fidelity...',
+  'app.anglesSuffix': 'Angles',
+  'app.refining': 'Refining your image...',
+  'app.kitSuffix': 'Kit',
+  'app.preparingPhotos': 'Preparing the photos...',
+  'app.invalidFile': 'Please select a valid image file (JPEG, PNG, WEBP, etc.).',
+  'app.complianceFix': 'Marketplace fix',
+  'app.complianceFixError': 'Could not fix this image automatically.',
+  'app.approveError': 'Could not save the photo to this browser\'s catalog.',
+  'app.variation': 'Variation {index}',
+  'app.selectToEdit': 'Select to Edit',
+  'app.reason': 'Reason:',
+  'app.dropHint': 'Drag an image or click to select',
+  'app.optionCountOne': '1 option will be generated automatically',
+  'app.optionCount': '{count} options will be generated automatically',
+  'app.batchHint': 'Select several images to process a batch of products',
+  'app.buildKit': 'Build Product Kit',
+  'app.generateKit': 'Generate Kit',
+  'app.generate': 'Generate Images',
+  'app.chooseAnother': 'Choose Another Photo',
+  'app.failedVariations': '{failed} of {total} variations failed. The others were kept.',
+  'app.selectHint': 'Select an image above to refine, change or download it.',
+  'app.startOver': 'Start Over',
+  'app.undo': 'Undo',
+  'app.redo': 'Redo',
+  'app.compare': 'Compare',
+  'app.editRegion': 'Edit Region',
+  'app.overlay': 'Texts and Badges',
+  'app.fidelityWarning': 'This variation may not be faithful to the original product.',
+  'app.complianceWarning': 'Outside the marketplace standard.',
+  'app.fixing': 'Fixing...',
+  'app.fixCompliance': 'Fix background and framing',
+  'app.seed': 'Seed:',
+  'app.seedFixed': 'Seed fixed',
+  'app.fixSeedHint': 'The next generations start from this seed',
+  'app.fixSeed': 'Fix this seed',
+  'app.catalogProduct': 'Catalog product',
+  'app.noCatalogProduct': 'No catalog product',
+  'app.approved': 'Approved in the catalog',
+  'app.approve': 'Approve for the catalog',
+  'app.registerProducts': 'Register products to link this photo to a SKU',
+  'app.editPromptLabel': 'Describe the change you want:',
+  'app.maskReady': 'The change will only be applied to the marked region; the rest of the image stays untouched.',
+  'app.maskHint': 'Paint the region to change (or to protect) on the image before sending.',
+  'app.editPromptExtra': 'Anything else? (optional)',
+  'app.editPromptPlaceholder': 'E.g.: add a sprig of rosemary next to the product',
+  'app.composedPrompt': 'Instruction that will be sent:',
+  'app.applyPrompt': 'Change with Prompt',
+  'app.or': 'OR',
+  'app.moreVariations': 'Generate More Variations',
+  'app.back': 'Back',
+  'app.discard': 'Discard',
+  'app.batchProgress': '{done} of {total} products processed. Pick the best variation of each one.',
+  'app.downloadWinners': 'Download Picks ({count})',
+  'app.retry': 'Try Again',
+  'app.adjustPrompt': 'Adjust Instruction',
+  'app.openUsage': 'Open Usage Panel',
+  'app.useAnother': 'Use Another Photo',
+  'app.backToEditing': 'Back to Editing',
+  'app.manageModes': 'Manage modes',
+  'app.brandKitActiveLabel': 'Brand kit (active)',
+  'app.brandKitActive': 'Brand kit active',
+  'app.brandKit': 'Brand kit',
+  'app.generationSettings': 'Generation settings',
+  'app.fidelity': 'Fidelity check',
+  'app.history': 'History',
+  'app.catalog': 'Product catalog',
+  'app.usage': 'Usage and costs',
+  'app.language': 'Interface language',
+  'app.budgetExceeded': 'Monthly budget reached: {spent} of {budget}.',
+  'app.budgetBlocked': 'New generations are blocked.',
+  'app.budgetNear': 'You have used {percent}% of the monthly budget ({spent} of {budget}).',
+};
+
+export const enPrompts: PromptTexts = {
+  ecommerceMode: `**TASK:** From the provided image, recreate it as an e-commerce product photograph of the highest professional quality, hyper-realistic and ready to publish.
+
+**ESSENTIAL QUALITY GUIDELINES:**
+
+1.  **STUDIO LIGHTING:** Simulate a **professional lightbox** setup. The lighting must be perfectly diffuse, soft and enveloping, completely eliminating hard shadows and unwanted specular reflections. The product must be lit so that its natural textures and shapes stand out.
+
+2.  **SPOTLESS BACKGROUND:** The background must be **pure white (#FFFFFF), uniform and absolutely clean**. Any kind of gradient, texture or **cast shadow** of the product on the background is strictly forbidden. The product must look like it floats in an infinite white space.
+
+3.  **HYPER-REALISM AND COLOR:** The rendering must be **extremely realistic**. Material textures (plastic, paper, metal, fabric, etc.) must be authentic and tactile. **Color accuracy is critical**; colors must be vibrant but 100% faithful to the original product, with a perfectly neutral white balance and no color casts.
+
+4.  **SHARPNESS AND DETAIL:** The entire product must be in **absolute focus and perfectly sharp** from edge to edge (deep depth of field). Edges must be clean and defined, without chromatic aberrations, halos or clipping blur.
+
+5.  **PROFESSIONAL FRAMING:**
+    *   **Aspect Ratio and Resolution:** The final image MUST have a {{proporcao}} aspect ratio, with 2048 pixels on its longest side.
+    *   **Composition:** The product must be **carefully centered** and sized to fill a significant portion of the frame (approximately 85-90%), ensuring a **generous and visually consistent margin (padding)** on all sides. Avoid the product looking too small or so large that it touches the edges. The goal is balanced, professional framing.
+`,
+  socialMode: `**TASK:** From the provided product image, create a **hyper-realistic, professional** lifestyle photograph for social media that is elegant and contextualized.
+
+**ESSENTIAL STYLE GUIDELINES:**
+
+1.  **SMART CONTEXT:** Analyze the product and create a setting that **complements its nature and use**. For example, a jar of jam can be shown on a breakfast table, while a cosmetic can sit in an elegant bathroom. The goal is to tell a short story about the product.
+
+2.  **CONSISTENT AESTHETIC:** Keep a **rustic-chic, handcrafted and inviting** aesthetic. Use natural materials such as wood, stone, linen or ceramics. The composition must look authentic and carefully arranged, never artificial.
+
+3.  **LIGHTING AND ATMOSPHERE:**
+    *   The lighting must be **natural and soft**, like window light. Create **soft, realistic shadows** that give depth and volume to the scene. The overall atmosphere must be warm, welcoming and sophisticated.
+
+4.  **REALISM AND PRODUCT INTEGRATION:**
+    *   The provided product must be **seamlessly integrated** into the setting, with realistic shadows and reflections that interact with the environment.
+    *   Keep **full fidelity to the original product** (colors, textures, labels).
+
+5.  **FRAMING AND FOCUS:**
+    *   **Aspect Ratio:** The final image MUST have a {{proporcao}} aspect ratio. Resolution: 2048 pixels on the longest side.
+    *   **Focus:** The product must be the main focal point. Use a slightly shallow depth of field (soft focus on the background) to make it stand out, while keeping the context recognizable.
+    *   **Composition:** Follow photographic composition principles (such as the rule of thirds) for a visually appealing result.
+`,
+  sceneText: '\n\n**TEXT IN THE SCENE:** Any new text that appears in the scene (signs, tags, chalkboards, supporting packaging) must be written in English. Do not translate or change the text on the product label.',
+  aspectRatio: '\n\n**Aspect ratio:** The final image MUST have a {ratio} aspect ratio.',
+  referencePhotos: '\n\n**REFERENCE PHOTOS:** The first {count} images are photos of the SAME product from different angles. Use all of them to rebuild the product accurately: labels, texts, colors and details must be consistent with what appears in each photo. Do not treat the photos as different products.',
+  angle: '\n\n**ANGLE OF THIS IMAGE ({label}):** {instruction} Keep exactly the same style, background and lighting as the other images in the set.',
+  angles: {
+    front: { label: 'Front', instruction: 'Show the product from the **front**, with the main label facing the camera directly.' },
+    back: { label: 'Back', instruction: 'Show the **back** of the product (for example, the nutrition facts or the ingredient list), faithfully reproducing what appears in the reference photos.' },
+    angle45: { label: '45°', instruction: 'Show the product rotated **45 degrees**, revealing the front and one of the sides at the same time.' },
+    detail: { label: 'Detail', instruction: 'Take a **detail close-up** of the product, highlighting the texture, the finish or a striking element of the label.' },
+  },
+  kit: {
+    intro: '\n\n**KIT COMPOSITION:** The first {count} images are DIFFERENT products, photographed separately, that together make up the kit{name}. Follow the style described above, but create ONE SINGLE image with ALL {count} products gathered in the same scene, as a giftable set.',
+    hero: '*   **Main product:** The product in image {index} is the highlight of the kit; place it in the center and in front, slightly larger or more prominent than the others.',
+    order: '*   **Order:** Arrange the products from left to right in this order: {order}.',
+    scale: '*   **Scale and fidelity:** Keep the real proportions between the products and preserve exactly the colors, labels and shapes of each one. Do not omit, duplicate or invent products.',
+    unity: '*   **Unity:** Light all products with the same light and consistent shadows, so they look like they were photographed together.',
+    heroImage: 'image {index} (main product)',
+    image: 'image {index}',
+  },
+  brandKit: {
+    header: '**BRAND IDENTITY (required in every image):**',
+    palette: '*   **Palette:** Use the brand colors {colors} in scene elements, props and backgrounds, without changing the product colors.',
+    surfaces: '*   **Preferred surfaces and props:** {surfaces}.',
+    forbidden: '*   **Forbidden elements:** Never include {forbidden}.',
+    style: '*   **Style:** {notes}.',
+    references: '*   **Style references:** {productImages} The next {count} images are references for the brand mood and style; follow their palette, light and atmosphere, but never copy objects from them or replace the product.',
+    singleProduct: 'The first image is the product.',
+    multipleProducts: 'The first {count} images are of the product.',
+  },
+  mask: '\n\n**LOCAL EDIT WITH MASK:** The last image sent is a black and white mask the same size as the photo. Apply the requested change ONLY in the white areas of the mask. The black areas must remain exactly the same, with no change in color, text, label, lighting or position.',
+  presets: {
+    'background-surface': 'Replace the surface under the product with a light wooden countertop, keeping shadows and reflections consistent with the new surface.',
+    'warm-light': 'Make the lighting warmer and cozier, like late-afternoon light, without changing the real colors of the product.',
+    'fresh-ingredients': 'Add fresh ingredients related to the product around it, in a natural way and without covering the label.',
+    'remove-props': 'Remove the decorative objects from the scene, leaving only the product and the surface.',
+    'top-down': 'Show the scene from above (flat lay), with the camera perpendicular to the surface.',
+  },
+  composedRefinement: 'Apply all the changes below to the image:',
+  moreVariations: 'Create {count} more variations of this image, keeping the same overall style, but with small changes in composition, lighting and background elements.',
+  newMode: '**TASK:** From the provided product image, create a hyper-realistic, professional photograph.\n\nKeep full fidelity to the original product (colors, textures, labels).\n\nThe final image MUST have a {placeholder} aspect ratio.',
+  badges: ['New', 'Sale', 'Best seller', 'Handmade'],
+  overlayText: 'Product name',
+};
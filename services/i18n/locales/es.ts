@@ -0,0 +1,515 @@
+import { Messages, PromptTexts } from '../types';
+
+export const es: Messages = {
+  'common.download': 'Descargar',
+  'common.cancel': 'Cancelar',
+  'common.close': 'Cerrar',
+  'common.optional': '(opcional)',
+  'common.variationOf': 'Variación {index} de {name}',
+  'common.save': 'Guardar',
+  'common.restoreDefaults': 'Restaurar valores predeterminados',
+  'common.editItem': 'Editar {name}',
+  'common.deleteItem': 'Eliminar {name}',
+
+  'editing.selectedImageAlt': 'Imagen seleccionada para editar',
+
+  'mask.brush': 'Pincel',
+  'mask.lasso': 'Lazo',
+  'mask.eraser': 'Borrador',
+  'mask.edit': 'Cambiar',
+  'mask.protect': 'Proteger',
+  'mask.brushSize': 'Tamaño del pincel',
+  'mask.clear': 'Limpiar',
+
+  'prep.loading': 'Preparando la foto...',
+  'prep.previewAlt': 'Vista previa de la foto preparada',
+  'prep.rotateLeft': 'Girar a la izquierda',
+  'prep.rotateRight': 'Girar a la derecha',
+  'prep.fitToProduct': 'Ajustar al producto',
+  'prep.noCrop': 'Sin recorte',
+  'prep.maxEdge': 'Tamaño máximo',
+  'prep.maxEdgeHint': 'Tamaño máximo enviado a la IA',
+
+  'overlay.text': 'Texto',
+  'overlay.price': 'Precio',
+  'overlay.badge': 'Sello',
+  'overlay.logo': 'Logo',
+  'overlay.add': 'Agregar:',
+  'overlay.removeLayer': 'Quitar capa',
+  'overlay.font': 'Fuente',
+  'overlay.fontSans': 'Moderna',
+  'overlay.fontSerif': 'Clásica',
+  'overlay.fontScript': 'Manuscrita',
+  'overlay.fontCondensed': 'Destacada',
+  'overlay.color': 'Color',
+  'overlay.background': 'Fondo',
+  'overlay.backgroundColor': 'Color de fondo',
+  'overlay.size': 'Tamaño',
+  'overlay.opacity': 'Opacidad',
+  'overlay.selectHint': 'Haz clic en un elemento de la imagen para editarlo y arrástralo para posicionarlo.',
+  'overlay.emptyHint': 'Los textos y sellos solo se incluyen en el archivo descargado; nunca se envían a la IA.',
+  'overlay.templates': 'Plantillas',
+  'overlay.deleteTemplate': 'Eliminar plantilla {name}',
+  'overlay.templateName': 'Nombre de la plantilla',
+  'overlay.saveTemplate': 'Guardar plantilla',
+  'overlay.templateSaveError': 'No se pudo guardar la plantilla. Prueba con un logo más pequeño.',
+
+  'export.title': 'Exportar Imagen',
+  'export.original': 'Original',
+  'export.originalHint': 'Tamaño y proporción generados por la IA',
+  'export.instagramFeed': 'Feed de Instagram',
+  'export.instagramFeedHint': '4:5 · 1080x1350',
+  'export.stories': 'Stories',
+  'export.storiesHint': '9:16 · 1080x1920',
+  'export.marketplace': 'Mercado Libre / Shopee',
+  'export.marketplaceHint': '1:1 · mínimo 1200x1200, fondo blanco',
+  'export.whatsappCatalog': 'Catálogo de WhatsApp',
+  'export.whatsappCatalogHint': '1:1 · 800x800, archivo liviano',
+  'export.print': 'Impresión',
+  'export.printHint': 'TIFF sin compresión con DPI, en el tamaño de ampliación elegido abajo',
+  'export.format': 'Formato',
+  'export.quality': 'Calidad ({percent}%)',
+  'export.allFormats': 'Todos los formatos (ZIP)',
+  'export.exporting': 'Exportando...',
+  'export.error': 'No se pudo exportar la imagen. Prueba con otro formato.',
+  'export.encodeError': 'No se pudo generar el archivo de exportación.',
+
+  'upscale.title': 'Ampliación y nitidez para impresión',
+  'upscale.actual': 'Resolución real:',
+  'upscale.output': 'Archivo final:',
+  'upscale.sizeSummary': '{width} × {height} px · {printWidth} × {printHeight} cm a {dpi} DPI',
+  'upscale.printSize': '{width} × {height} cm a {dpi} DPI',
+  'upscale.belowRequested': 'Menor que los {edge} px pedidos al modelo. Amplíala antes de imprimir.',
+  'upscale.target': 'Ampliar a',
+  'upscale.none': 'Tamaño original',
+  'upscale.double': '2× la resolución',
+  'upscale.quadruple': '4× la resolución',
+  'upscale.shelfLabel': 'Etiqueta de góndola (4 × 6 cm)',
+  'upscale.photo': 'Foto 10 × 15 cm',
+  'upscale.a5': 'Folleto A5 (14,8 × 21 cm)',
+  'upscale.a4': 'Folleto A4 (21 × 29,7 cm)',
+  'upscale.dpi': 'DPI',
+  'upscale.sharpen': 'Nitidez ({percent}%)',
+  'upscale.sharpenOff': 'Nitidez (desactivada)',
+  'upscale.error': 'No se pudo ampliar la imagen en este navegador.',
+
+  'compare.slider': 'Comparar antes y después',
+
+  'versions.title': 'Versiones',
+  'versions.compareWith': 'Comparar con {version}',
+  'versions.original': 'Original',
+
+  'references.title': 'Otros ángulos del mismo producto',
+  'references.hint': 'Las fotos del reverso, los laterales o los detalles ayudan a la IA a mantener etiquetas y tablas consistentes.',
+  'references.photoAlt': 'Ángulo adicional {index}',
+  'references.remove': 'Quitar foto',
+  'references.add': 'Agregar foto de otro ángulo',
+  'references.angleSet': 'Generar conjunto de ángulos ({angles})',
+
+  'angle.front': 'Frente',
+  'angle.back': 'Reverso',
+  'angle.angle45': '45°',
+  'angle.detail': 'Detalle',
+
+  'batch.queued': 'En cola',
+  'batch.generating': 'Generando...',
+  'batch.done': 'Listo',
+  'batch.failed': 'Falló',
+  'batch.pickWinner': 'Elige la mejor variación abajo.',
+  'batch.retry': 'Reintentar {name}',
+
+  'kit.name': 'Nombre del kit',
+  'kit.namePlaceholder': 'Ej.: Canasta de desayuno',
+  'kit.hint': 'Agrega de {min} a {max} productos fotografiados por separado. El orden define la posición en la escena, de izquierda a derecha, y la estrella marca el producto principal.',
+  'kit.productAlt': 'Producto {index}',
+  'kit.removeProduct': 'Quitar producto {index}',
+  'kit.moveLeft': 'Mover a la izquierda',
+  'kit.hero': 'Producto principal',
+  'kit.moveRight': 'Mover a la derecha',
+  'kit.addProduct': 'Agregar producto',
+
+  'camera.open': 'Fotografiar producto',
+  'camera.framingHint': 'Centra el producto dentro de las marcas, con la etiqueta hacia la cámara.',
+  'camera.shutter': 'Tomar foto',
+  'camera.unavailable': 'No se pudo abrir la cámara en este navegador. Aún puedes tomar la foto con la aplicación de cámara del dispositivo.',
+  'camera.openSystemCamera': 'Abrir cámara del dispositivo',
+
+  'offline.banner': 'Sin conexión. Las fotos que envíes ahora quedan en cola y se generan cuando vuelva internet.',
+  'offline.sending': 'Conexión restablecida. La cola se envía cuando vuelvas a la pantalla inicial.',
+  'offline.queued': '{count} foto(s) en cola.',
+  'offline.queueFailed': 'No se pudo guardar la foto para generarla después.',
+
+  'fidelity.passedHint': 'Producto fiel al original',
+  'fidelity.passed': 'Fiel',
+  'fidelity.check': 'Verificar',
+  'fidelity.colorIssue': 'Colores del producto distintos del original ({percent}%).',
+  'fidelity.shapeIssue': 'Forma o detalles del producto alterados ({percent}%).',
+  'fidelity.labelIssue': 'Texto de la etiqueta distinto del original ({percent}%).',
+
+  'compliance.passedHint': 'Lista para marketplaces ({width}x{height}px, fondo blanco)',
+  'compliance.passed': 'Marketplace',
+  'compliance.failed': 'Fuera del estándar',
+  'compliance.backgroundIssue': 'El fondo no es blanco puro (promedio {color}, {percent}% en #FFFFFF).',
+  'compliance.resolutionIssue': 'Resolución de {width}x{height}px por debajo del mínimo de {min}px.',
+  'compliance.ratioIssue': 'Proporción {width}x{height}px distinta de {ratio}.',
+  'compliance.fillIssue': 'El producto ocupa el {percent}% del cuadro (se espera {min}–{max}%).',
+  'compliance.centerIssue': 'Producto descentrado ({percent}% de desplazamiento).',
+  'compliance.noProduct': 'No se encontró ningún producto en la imagen.',
+
+  'brandKit.saveError': 'No se pudo guardar el kit de la marca. Prueba con menos imágenes de referencia.',
+  'brandKit.referenceError': 'No se pudo cargar la imagen de referencia.',
+  'brandKit.title': 'Kit de la Marca',
+  'brandKit.enabled': 'Aplicar el kit de la marca en todas las generaciones',
+  'brandKit.colors': 'Colores de la marca',
+  'brandKit.color': 'Color {index}',
+  'brandKit.removeColor': 'Quitar color {color}',
+  'brandKit.addColor': 'Agregar color',
+  'brandKit.surfaces': 'Superficies y props preferidos',
+  'brandKit.surfacesPlaceholder': 'Ej.: mesa de madera recuperada, mantel de lino crudo, frascos de cerámica artesanal',
+  'brandKit.forbidden': 'Elementos prohibidos',
+  'brandKit.forbiddenPlaceholder': 'Ej.: plástico, mármol blanco, logos de otras marcas',
+  'brandKit.notes': 'Notas de estilo',
+  'brandKit.notesPlaceholder': 'Ej.: luz cálida de atardecer, ambiente de almacén de campo',
+  'brandKit.references': 'Imágenes de referencia ({count}/{max})',
+  'brandKit.reference': 'Referencia {index}',
+  'brandKit.removeReference': 'Quitar referencia {index}',
+  'brandKit.addReference': 'Agregar imagen de referencia',
+  'brandKit.save': 'Guardar Kit',
+
+  'errors.unsupportedFormat': 'Formato de imagen no compatible: {type}.',
+  'errors.unknownType': 'desconocido',
+  'errors.fileTooLarge': 'Fotos demasiado grandes: {size} MB en total, el límite es {max} MB.',
+  'errors.budgetSpent': 'Gasto estimado del mes: {spent} de {budget}.',
+  'errors.noImages': 'No se generó ninguna imagen en la respuesta de la API.',
+  'errors.invalidKey.title': 'Clave de API no válida',
+  'errors.invalidKey.message': 'La clave de la API de Gemini falta, no es válida o no tiene permiso. Revisa el valor de GEMINI_API_KEY en .env.local y reinicia el servidor proxy (npm run server).',
+  'errors.quota.title': 'Límite de uso alcanzado',
+  'errors.quota.message': 'Se alcanzó la cuota o el límite de solicitudes de la API. Espera unos minutos antes de volver a intentarlo.',
+  'errors.safety.title': 'Contenido bloqueado',
+  'errors.safety.message': 'El filtro de seguridad de la IA bloqueó esta solicitud. Ajusta la instrucción o usa otra foto del producto.',
+  'errors.invalidInput.title': 'Imagen no compatible',
+  'errors.invalidInput.message': 'La imagen enviada tiene un formato no compatible o es demasiado grande. Usa fotos JPEG, PNG o WEBP de hasta 20 MB en total.',
+  'errors.network.title': 'Fallo de conexión',
+  'errors.network.message': 'No se pudo contactar con el servicio de IA. Revisa tu conexión a internet y vuelve a intentarlo.',
+  'errors.emptyResponse.title': 'No se generó ninguna imagen',
+  'errors.emptyResponse.message': 'La IA respondió sin ninguna imagen. Volver a intentarlo suele resolverlo.',
+  'errors.budget.title': 'Presupuesto mensual alcanzado',
+  'errors.budget.message': 'El gasto estimado de la API llegó al presupuesto mensual configurado y las nuevas generaciones están bloqueadas. Ajusta el presupuesto en el panel de uso para continuar.',
+  'errors.unknown.title': 'Ocurrió un Error',
+  'errors.unknown.message': 'La IA no pudo procesar la imagen. Por favor, vuelve a intentarlo.',
+  'errors.timeout': 'La solicitud superó el tiempo límite de {seconds}s.',
+  'errors.heicUnsupported': 'Este navegador no puede abrir fotos HEIC. Exporta la foto como JPEG y vuelve a intentarlo.',
+  'errors.unreadableImage': 'No se pudo leer la imagen "{name}".',
+  'errors.encodePrepared': 'No se pudo codificar la imagen preparada.',
+  'errors.serverStatus': 'El servidor respondió con el estado {status}.',
+  'errors.imageLoad': 'No se pudo cargar la imagen.',
+  'errors.canvasUnavailable': 'Canvas 2D no está disponible en este navegador.',
+  'errors.cancelled': 'La operación fue cancelada.',
+  'errors.stubFailure': 'Fallo simulado por el stub: {kind}.',
+  'errors.missingApiKey': 'La variable de entorno GEMINI_API_KEY no está definida en el servidor.',
+  'errors.promptBlocked': 'Instrucción bloqueada: {reason}.',
+  'errors.imageBlocked': 'Imagen bloqueada: {reason}.',
+  'errors.requestTooLarge': 'La solicitud supera el límite de {max} MB.',
+  'errors.invalidJson': 'El cuerpo de la solicitud no es un JSON válido.',
+  'errors.missingImages': 'Envía al menos una imagen en `images`.',
+  'errors.missingPrompt': 'El campo `prompt` es obligatorio.',
+  'errors.invalidMask': 'El campo `mask` no es válido.',
+  'errors.rateLimited': 'Demasiadas solicitudes de este cliente. Espera un poco antes de volver a intentarlo.',
+  'providers.mockVariation': 'MOCK · variación {number}',
+
+  'safety.SAFETY': 'contenido considerado inseguro',
+  'safety.IMAGE_SAFETY': 'imagen considerada insegura',
+  'safety.PROHIBITED_CONTENT': 'contenido prohibido',
+  'safety.IMAGE_PROHIBITED_CONTENT': 'imagen con contenido prohibido',
+  'safety.BLOCKLIST': 'términos bloqueados en la instrucción',
+  'safety.SPII': 'datos personales sensibles',
+  'safety.RECITATION': 'similitud con contenido protegido',
+  'safety.IMAGE_RECITATION': 'similitud con una imagen protegida',
+
+  'fidelitySettings.title': 'Verificación de Fidelidad',
+  'fidelitySettings.intro': 'Cada imagen generada se compara con la foto original del producto. Las variaciones que queden por debajo de los límites se señalan.',
+  'fidelitySettings.enabled': 'Verificar la fidelidad después de cada generación',
+  'fidelitySettings.threshold': '{label} (mínimo {percent}%)',
+  'fidelitySettings.color': 'Similitud de colores',
+  'fidelitySettings.shape': 'Similitud de forma',
+  'fidelitySettings.labelText': 'Comparar el texto de la etiqueta (OCR)',
+  'fidelitySettings.noTextDetection': 'Este navegador no ofrece detección de texto.',
+  'fidelitySettings.text': 'Similitud del texto',
+  'fidelitySettings.autoRegenerate': 'Regenerar automáticamente las variaciones divergentes',
+  'fidelitySettings.maxRegenerations': 'Intentos de regeneración',
+  'fidelitySettings.costHint': 'Cada regeneración hace nuevas llamadas pagas a la API.',
+
+  'generationSettings.title': 'Configuración de Generación',
+  'generationSettings.variations': 'Variaciones',
+  'generationSettings.modeDefault': 'Predeterminado del modo ({value})',
+  'generationSettings.aspectRatio': 'Proporción',
+  'generationSettings.model': 'Modelo',
+  'generationSettings.serverDefault': 'Predeterminado del servidor',
+  'generationSettings.temperature': 'Temperatura',
+  'generationSettings.temperatureHint': 'Los valores bajos generan resultados más parecidos entre sí; los altos, más variados.',
+  'generationSettings.fixedSeed': 'Semilla fija',
+  'generationSettings.randomSeed': 'aleatoria',
+  'generationSettings.seed': 'Semilla',
+  'generationSettings.seedHint': 'Cada variación usa la semilla siguiente (semilla + 1, + 2…). La semilla de cada imagen aparece en la edición.',
+  'generationSettings.promptLanguage': 'Idioma de los prompts',
+  'generationSettings.promptLanguageHint': 'Idioma de las instrucciones enviadas a la IA y de los textos que escribe en las escenas. Elige el idioma del mercado donde se publicarán las fotos.',
+  'generationSettings.costHint': 'La temperatura y la semilla solo se envían a los modelos que las admiten. Más variaciones significan más llamadas pagas a la API.',
+
+  'modes.title': 'Modos de Generación',
+  'modes.new': 'Nuevo Modo',
+  'modes.edit': 'Editar Modo',
+  'modes.save': 'Guardar Modo',
+  'modes.confirmDelete': '¿Eliminar el modo "{label}"?',
+  'modes.name': 'Nombre',
+  'modes.namePlaceholder': 'Ej.: Kit de regalo',
+  'modes.prompt': 'Prompt',
+  'modes.placeholderHint': 'Usa {placeholder} para insertar la proporción elegida en el texto.',
+  'modes.variationCount': '{count} variaciones',
+  'modes.builtIn': 'predeterminado',
+  'modes.duplicate': 'Duplicar {label}',
+  'modes.copy': '{label} (copia)',
+  'modes.ecommerce': 'Foto de Estudio',
+  'modes.ecommerceProcessing': 'Recreando a la perfección...',
+  'modes.social': 'Foto de Ambiente',
+  'modes.socialProcessing': 'Creando tus fotos de ambiente...',
+  'modes.processing': 'Creando tus fotos "{label}"...',
+
+  'presets.resetConfirm': '¿Restaurar los atajos predeterminados? Se perderán los atajos creados o editados.',
+  'presets.namePlaceholder': 'Nombre del atajo',
+  'presets.instructionPlaceholder': 'Instrucción enviada a la IA',
+  'presets.save': 'Guardar atajo',
+  'presets.edit': 'Editar atajo {label}',
+  'presets.delete': 'Eliminar atajo {label}',
+  'presets.new': 'Nuevo atajo',
+  'presets.done': 'Listo',
+  'presets.manage': 'Administrar atajos',
+
+  'preset.background-surface': 'Cambiar superficie',
+  'preset.warm-light': 'Luz más cálida',
+  'preset.fresh-ingredients': 'Ingredientes frescos',
+  'preset.remove-props': 'Quitar objetos',
+  'preset.top-down': 'Vista cenital',
+
+  'history.loadError': 'No se pudo cargar el historial de este navegador.',
+  'history.deleteConfirm': '¿Eliminar esta generación del historial?',
+  'history.clearConfirm': '¿Borrar todo el historial guardado en este navegador? Esta acción no se puede deshacer.',
+  'history.title': 'Historial',
+  'history.favoritesOnly': 'Solo favoritos',
+  'history.clear': 'Borrar historial',
+  'history.empty': 'Todavía no hay generaciones guardadas.',
+  'history.refinement': 'Refinamiento: {prompt}',
+  'history.unfavorite': 'Quitar de favoritos',
+  'history.favorite': 'Marcar como favorito',
+  'history.delete': 'Eliminar del historial',
+  'history.openVariation': 'Abrir la variación {index} para editar',
+
+  'catalog.csvColumnsError': 'El archivo CSV necesita las columnas "SKU" y "Nombre".',
+  'catalog.noApprovedPhotos': 'Aprueba al menos una foto de un producto antes de exportar el catálogo.',
+  'catalog.loadError': 'No se pudieron cargar las fotos aprobadas de este navegador.',
+  'catalog.duplicateSku': 'Ya existe un producto con el SKU {sku}.',
+  'catalog.deleteConfirm': '¿Eliminar el producto {name} y sus fotos aprobadas?',
+  'catalog.imported': '{count} productos importados.',
+  'catalog.importedWithSkipped': '{count} productos importados, {skipped} filas ignoradas (sin SKU o nombre).',
+  'catalog.editProduct': 'Editar Producto',
+  'catalog.newProduct': 'Nuevo Producto',
+  'catalog.sku': 'SKU',
+  'catalog.price': 'Precio',
+  'catalog.name': 'Nombre del producto',
+  'catalog.category': 'Categoría',
+  'catalog.description': 'Descripción (opcional)',
+  'catalog.saveProduct': 'Guardar Producto',
+  'catalog.title': 'Catálogo de Productos',
+  'catalog.addProduct': 'Nuevo producto',
+  'catalog.importCsv': 'Importar CSV',
+  'catalog.csvHint': 'El CSV necesita las columnas SKU y Nombre; Categoría, Precio y Descripción son opcionales.',
+  'catalog.empty': 'No hay productos registrados.',
+  'catalog.removePhoto': 'Quitar foto aprobada',
+  'catalog.noPhotos': 'Sin fotos aprobadas.',
+  'catalog.export': 'Exportación',
+  'catalog.imageBaseUrl': 'URL donde se publicará la carpeta imagens/',
+  'catalog.storeUrl': 'URL de la tienda (para el catálogo de Meta)',
+  'catalog.brand': 'Marca',
+  'catalog.exportHint': 'El ZIP incluye las fotos aprobadas (JPEG 1:1, fondo blanco) y los archivos para Shopify, Nuvemshop, el catálogo de Meta y JSON. Shopify y Meta descargan las fotos desde la URL indicada arriba.',
+  'catalog.exporting': 'Exportando...',
+  'catalog.exportZip': 'Exportar catálogo (ZIP)',
+
+  'usage.generation': 'Generación',
+  'usage.refinement': 'Refinamiento',
+  'usage.kit': 'Kit',
+  'usage.clearConfirm': '¿Borrar todo el registro de uso de este navegador?',
+  'usage.title': 'Uso y Costos',
+  'usage.monthSpent': 'Gasto estimado este mes',
+  'usage.ofBudget': 'de {budget}',
+  'usage.monthlyBudget': 'Presupuesto mensual (US$)',
+  'usage.noLimit': 'sin límite',
+  'usage.budgetAction': 'Al alcanzar el presupuesto',
+  'usage.warn': 'Solo avisar al alcanzarlo',
+  'usage.block': 'Bloquear nuevas generaciones',
+  'usage.lastDays': 'Últimos {days} días',
+  'usage.calls': 'Llamadas',
+  'usage.estimatedCost': 'Costo estimado',
+  'usage.failureRate': 'Tasa de fallos',
+  'usage.averageLatency': 'Latencia promedio',
+  'usage.callsPerDay': 'Llamadas por día',
+  'usage.dayTooltip': '{day}: {calls} llamadas, {failures} fallos, {cost}',
+  'usage.today': 'Hoy',
+  'usage.type': 'Tipo',
+  'usage.failures': 'Fallos',
+  'usage.cost': 'Costo',
+  'usage.disclaimer': 'Costos estimados a partir de los precios públicos de la API; el monto facturado puede variar.',
+  'usage.clear': 'Borrar registro',
+
+  'app.checkingFidelity': 'Verificando la fidelidad al producto...',
+  'app.anglesSuffix': 'Ángulos',
+  'app.refining': 'Refinando tu imagen...',
+  'app.kitSuffix': 'Kit',
+  'app.preparingPhotos': 'Preparando las fotos...',
+  'app.invalidFile': 'Por favor, selecciona un archivo de imagen válido (JPEG, PNG, WEBP, etc.).',
+  'app.complianceFix': 'Corrección para marketplace',
+  'app.complianceFixError': 'No se pudo corregir esta imagen automáticamente.',
+  'app.approveError': 'No se pudo guardar la foto en el catálogo de este navegador.',
+  'app.variation': 'Variación {index}',
+  'app.selectToEdit': 'Seleccionar para Editar',
+  'app.reason': 'Motivo:',
+  'app.dropHint': 'Arrastra una imagen o haz clic para seleccionarla',
+  'app.optionCountOne': 'Se generará 1 opción automáticamente',
+  'app.optionCount': 'Se generarán {count} opciones automáticamente',
+  'app.batchHint': 'Selecciona varias imágenes para procesar un lote de productos',
+  'app.buildKit': 'Armar Kit de Productos',
+  'app.generateKit': 'Generar Kit',
+  'app.generate': 'Generar Imágenes',
+  'app.chooseAnother': 'Elegir Otra Foto',
+  'app.failedVariations': '{failed} de {total} variaciones fallaron. Las demás se conservaron.',
+  'app.selectHint': 'Selecciona una imagen arriba para refinarla, cambiarla o descargarla.',
+  'app.startOver': 'Empezar de Nuevo',
+  'app.undo': 'Deshacer',
+  'app.redo': 'Rehacer',
+  'app.compare': 'Comparar',
+  'app.editRegion': 'Editar Región',
+  'app.overlay': 'Textos y Sellos',
+  'app.fidelityWarning': 'Esta variación puede no ser fiel al producto original.',
+  'app.complianceWarning': 'Fuera del estándar de marketplace.',
+  'app.fixing': 'Corrigiendo...',
+  'app.fixCompliance': 'Corregir fondo y encuadre',
+  'app.seed': 'Semilla:',
+  'app.seedFixed': 'Semilla fijada',
+  'app.fixSeedHint': 'Las próximas generaciones parten de esta semilla',
+  'app.fixSeed': 'Fijar esta semilla',
+  'app.catalogProduct': 'Producto del catálogo',
+  'app.noCatalogProduct': 'Sin producto del catálogo',
+  'app.approved': 'Aprobada en el catálogo',
+  'app.approve': 'Aprobar para el catálogo',
+  'app.registerProducts': 'Registra productos para vincular esta foto a un SKU',
+  'app.editPromptLabel': 'Describe el cambio que deseas:',
+  'app.maskReady': 'El cambio se aplicará solo en la región marcada; el resto de la imagen queda intacto.',
+  'app.maskHint': 'Pinta en la imagen la región a cambiar (o a proteger) antes de enviar.',
+  'app.editPromptExtra': '¿Algo más? (opcional)',
+  'app.editPromptPlaceholder': 'Ej.: agrega una rama de romero al lado del producto',
+  'app.composedPrompt': 'Instrucción que se enviará:',
+  'app.applyPrompt': 'Cambiar con Prompt',
+  'app.or': 'O',
+  'app.moreVariations': 'Generar Más Variaciones',
+  'app.back': 'Volver',
+  'app.discard': 'Descartar',
+  'app.batchProgress': '{done} de {total} productos procesados. Elige la mejor variación de cada uno.',
+  'app.downloadWinners': 'Descargar Elegidas ({count})',
+  'app.retry': 'Intentar de Nuevo',
+  'app.adjustPrompt': 'Ajustar Instrucción',
+  'app.openUsage': 'Abrir Panel de Uso',
+  'app.useAnother': 'Usar Otra Foto',
+  'app.backToEditing': 'Volver a la Edición',
+  'app.manageModes': 'Administrar modos',
+  'app.brandKitActiveLabel': 'Kit de la marca (activo)',
+  'app.brandKitActive': 'Kit de la marca activo',
+  'app.brandKit': 'Kit de la marca',
+  'app.generationSettings': 'Configuración de generación',
+  'app.fidelity': 'Verificación de fidelidad',
+  'app.history': 'Historial',
+  'app.catalog': 'Catálogo de productos',
+  'app.usage': 'Uso y costos',
+  'app.language': 'Idioma de la interfaz',
+  'app.budgetExceeded': 'Presupuesto mensual alcanzado: {spent} de {budget}.',
+  'app.budgetBlocked': 'Las nuevas generaciones están bloqueadas.',
+  'app.budgetNear': 'Ya usaste el {percent}% del presupuesto mensual ({spent} de {budget}).',
+};
+
+export const esPrompts: PromptTexts = {
+  ecommerceMode: `**TAREA:** A partir de la imagen proporcionada, recréala como una fotografía de producto para e-commerce con la más alta calidad profesional, hiperrealista y lista para publicar.
+
+**DIRECTRICES ESENCIALES DE CALIDAD:**
+
+1.  **ILUMINACIÓN DE ESTUDIO:** Simula una configuración de **caja de luz profesional**. La iluminación debe ser perfectamente difusa, suave y envolvente, eliminando por completo las sombras duras y los reflejos especulares no deseados. El producto debe iluminarse de forma que destaquen sus texturas y formas naturales.
+
+2.  **FONDO IMPECABLE:** El fondo debe ser **blanco puro (#FFFFFF), uniforme y absolutamente limpio**. Está terminantemente prohibido cualquier tipo de degradado, textura o **sombra proyectada** del producto sobre el fondo. El producto debe parecer flotar en un espacio blanco infinito.
+
+3.  **HIPERREALISMO Y COLOR:** El renderizado debe ser **extremadamente realista**. Las texturas de los materiales (plástico, papel, metal, tela, etc.) deben ser auténticas y táctiles. La **precisión del color es crítica**; los colores deben ser vibrantes, pero 100% fieles al producto original, con un balance de blancos perfectamente neutro y sin dominantes de color.
+
+4.  **NITIDEZ Y DETALLE:** Todo el producto debe estar en **foco absoluto y perfectamente nítido** de punta a punta (gran profundidad de campo). Los bordes deben ser limpios y definidos, sin aberraciones cromáticas, halos ni desenfoques de recorte.
+
+5.  **ENCUADRE PROFESIONAL:**
+    *   **Proporción y Resolución:** La imagen final DEBE tener una proporción {{proporcao}}, con 2048 píxeles en su lado más largo.
+    *   **Composición:** El producto debe estar **cuidadosamente centrado** y dimensionado para ocupar una porción significativa del cuadro (aproximadamente 85-90%), garantizando un **margen (padding) generoso y visualmente consistente** en todos los lados. Evita que el producto parezca demasiado pequeño o tan grande que toque los bordes. El objetivo es un encuadre equilibrado y profesional.
+`,
+  socialMode: `**TAREA:** A partir de la imagen del producto proporcionada, crea una fotografía de ambiente (lifestyle) **hiperrealista y profesional** para redes sociales, que sea elegante y contextualizada.
+
+**DIRECTRICES ESENCIALES DE ESTILO:**
+
+1.  **CONTEXTO INTELIGENTE:** Analiza el producto y crea un escenario que **complemente su naturaleza y uso**. Por ejemplo, un frasco de mermelada puede presentarse en una mesa de desayuno, mientras que un cosmético puede estar en un baño elegante. El objetivo es contar una pequeña historia sobre el producto.
+
+2.  **ESTÉTICA CONSISTENTE:** Mantén una estética **rústica-chic, artesanal y acogedora**. Utiliza materiales naturales como madera, piedra, lino o cerámica. La composición debe parecer auténtica y cuidadosamente dispuesta, nunca artificial.
+
+3.  **ILUMINACIÓN Y ATMÓSFERA:**
+    *   La iluminación debe ser **natural y suave**, como la luz de una ventana. Crea **sombras suaves y realistas** que den profundidad y volumen a la escena. La atmósfera general debe ser cálida, acogedora y sofisticada.
+
+4.  **REALISMO E INTEGRACIÓN DEL PRODUCTO:**
+    *   El producto proporcionado debe estar **perfectamente integrado** en el escenario, con sombras y reflejos realistas que interactúen con el ambiente.
+    *   Mantén la **fidelidad total al producto original** (colores, texturas, etiquetas).
+
+5.  **ENCUADRE Y ENFOQUE:**
+    *   **Proporción:** La imagen final DEBE tener una proporción {{proporcao}}. Resolución: 2048 píxeles en el lado más largo.
+    *   **Enfoque:** El producto debe ser el punto focal principal. Usa una profundidad de campo ligeramente reducida (fondo suavemente desenfocado) para destacarlo, pero garantizando que el contexto sea reconocible.
+    *   **Composición:** Sigue principios de composición fotográfica (como la regla de los tercios) para obtener un resultado visualmente atractivo.
+`,
+  sceneText: '\n\n**TEXTOS EN LA ESCENA:** Cualquier texto nuevo que aparezca en la escena (carteles, etiquetas, pizarras, envases de apoyo) debe estar escrito en español. No traduzcas ni modifiques los textos de la etiqueta del producto.',
+  aspectRatio: '\n\n**Proporción:** La imagen final DEBE tener proporción {ratio}.',
+  referencePhotos: '\n\n**FOTOS DE REFERENCIA:** Las {count} primeras imágenes son fotos del MISMO producto en ángulos diferentes. Úsalas todas para reconstruir el producto con precisión: etiquetas, textos, colores y detalles deben ser consistentes con lo que aparece en cada foto. No trates las fotos como productos diferentes.',
+  angle: '\n\n**ÁNGULO DE ESTA IMAGEN ({label}):** {instruction} Mantén exactamente el mismo estilo, fondo e iluminación que las demás imágenes del conjunto.',
+  angles: {
+    front: { label: 'Frente', instruction: 'Muestra el producto de **frente**, con la etiqueta principal orientada directamente hacia la cámara.' },
+    back: { label: 'Reverso', instruction: 'Muestra el **reverso** del producto (por ejemplo, la tabla nutricional o la lista de ingredientes), reproduciendo fielmente lo que aparece en las fotos de referencia.' },
+    angle45: { label: '45°', instruction: 'Muestra el producto girado **45 grados**, revelando el frente y uno de los laterales al mismo tiempo.' },
+    detail: { label: 'Detalle', instruction: 'Haz un **primer plano de detalle** del producto, destacando la textura, el acabado o un elemento llamativo de la etiqueta.' },
+  },
+  kit: {
+    intro: '\n\n**COMPOSICIÓN DE KIT:** Las {count} primeras imágenes son productos DIFERENTES, fotografiados por separado, que juntos forman el kit{name}. Sigue el estilo descrito arriba, pero crea UNA ÚNICA imagen con TODOS los {count} productos reunidos en la misma escena, como un conjunto para regalar.',
+    hero: '*   **Producto principal:** El producto de la imagen {index} es el protagonista del kit; colócalo al centro y al frente, un poco más grande o más evidente que los demás.',
+    order: '*   **Orden:** Distribuye los productos de izquierda a derecha siguiendo este orden: {order}.',
+    scale: '*   **Escala y fidelidad:** Mantén la proporción real entre los productos y conserva exactamente los colores, etiquetas y formas de cada uno. No omitas, dupliques ni inventes productos.',
+    unity: '*   **Unidad:** Ilumina todos los productos con la misma luz y sombras coherentes, para que parezcan fotografiados juntos.',
+    heroImage: 'imagen {index} (producto principal)',
+    image: 'imagen {index}',
+  },
+  brandKit: {
+    header: '**IDENTIDAD DE LA MARCA (obligatoria en todas las imágenes):**',
+    palette: '*   **Paleta:** Usa los colores de la marca {colors} en los elementos de la escena, accesorios y fondos, sin alterar los colores del producto.',
+    surfaces: '*   **Superficies y props preferidos:** {surfaces}.',
+    forbidden: '*   **Elementos prohibidos:** Nunca incluyas {forbidden}.',
+    style: '*   **Estilo:** {notes}.',
+    references: '*   **Referencias de estilo:** {productImages} Las {count} imágenes siguientes son referencias del clima y estilo de la marca; sigue su paleta, luz y atmósfera, pero nunca copies objetos de ellas ni sustituyas el producto.',
+    singleProduct: 'La primera imagen es el producto.',
+    multipleProducts: 'Las {count} primeras imágenes son del producto.',
+  },
+  mask: '\n\n**EDICIÓN LOCAL CON MÁSCARA:** La última imagen enviada es una máscara en blanco y negro del mismo tamaño que la foto. Aplica el cambio solicitado SOLO en las áreas blancas de la máscara. Las áreas negras deben permanecer exactamente iguales, sin ningún cambio de color, texto, etiqueta, iluminación o posición.',
+  presets: {
+    'background-surface': 'Cambia la superficie bajo el producto por una encimera de madera clara, manteniendo sombras y reflejos coherentes con la nueva superficie.',
+    'warm-light': 'Haz la iluminación más cálida y acogedora, como la luz del atardecer, sin alterar los colores reales del producto.',
+    'fresh-ingredients': 'Agrega ingredientes frescos relacionados con el producto a su alrededor, de forma natural y sin cubrir la etiqueta.',
+    'remove-props': 'Quita los objetos decorativos de la escena, dejando solo el producto y la superficie.',
+    'top-down': 'Muestra la escena vista desde arriba (flat lay), con la cámara perpendicular a la superficie.',
+  },
+  composedRefinement: 'Aplica todos los cambios siguientes a la imagen:',
+  moreVariations: 'Crea {count} variaciones más de esta imagen, manteniendo el mismo estilo general, pero con pequeños cambios en la composición, la iluminación y los elementos del fondo.',
+  newMode: '**TAREA:** A partir de la imagen del producto proporcionada, crea una fotografía hiperrealista y profesional.\n\nMantén la fidelidad total al producto original (colores, texturas, etiquetas).\n\nLa imagen final DEBE tener proporción {placeholder}.',
+  badges: ['Nuevo', 'Oferta', 'Más vendido', 'Artesanal'],
+  overlayText: 'Nombre del producto',
+};
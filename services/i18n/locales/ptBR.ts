@@ -0,0 +1,515 @@
+import { PromptTexts } from '../types';
+
+export const ptBR = {
+  'common.download': 'Baixar',
+  'common.cancel': 'Cancelar',
+  'common.close': 'Fechar',
+  'common.optional': '(opcional)',
+  'common.variationOf': 'Variação {index} de {name}',
+  'common.save': 'Salvar',
+  'common.restoreDefaults': 'Restaurar padrões',
+  'common.editItem': 'Editar {name}',
+  'common.deleteItem': 'Excluir {name}',
+
+  'editing.selectedImageAlt': 'Imagem selecionada para edição',
+
+  'mask.brush': 'Pincel',
+  'mask.lasso': 'Laço',
+  'mask.eraser': 'Borracha',
+  'mask.edit': 'Alterar',
+  'mask.protect': 'Proteger',
+  'mask.brushSize': 'Tamanho do pincel',
+  'mask.clear': 'Limpar',
+
+  'prep.loading': 'Preparando a foto...',
+  'prep.previewAlt': 'Prévia da foto preparada',
+  'prep.rotateLeft': 'Girar para a esquerda',
+  'prep.rotateRight': 'Girar para a direita',
+  'prep.fitToProduct': 'Ajustar ao produto',
+  'prep.noCrop': 'Sem recorte',
+  'prep.maxEdge': 'Tamanho máximo',
+  'prep.maxEdgeHint': 'Tamanho máximo enviado para a IA',
+
+  'overlay.text': 'Texto',
+  'overlay.price': 'Preço',
+  'overlay.badge': 'Selo',
+  'overlay.logo': 'Logo',
+  'overlay.add': 'Adicionar:',
+  'overlay.removeLayer': 'Remover camada',
+  'overlay.font': 'Fonte',
+  'overlay.fontSans': 'Moderna',
+  'overlay.fontSerif': 'Clássica',
+  'overlay.fontScript': 'Manuscrita',
+  'overlay.fontCondensed': 'Destaque',
+  'overlay.color': 'Cor',
+  'overlay.background': 'Fundo',
+  'overlay.backgroundColor': 'Cor do fundo',
+  'overlay.size': 'Tamanho',
+  'overlay.opacity': 'Opacidade',
+  'overlay.selectHint': 'Clique em um elemento na imagem para editá-lo e arraste para posicionar.',
+  'overlay.emptyHint': 'Os textos e selos entram apenas no arquivo baixado; nunca são enviados para a IA.',
+  'overlay.templates': 'Modelos',
+  'overlay.deleteTemplate': 'Excluir modelo {name}',
+  'overlay.templateName': 'Nome do modelo',
+  'overlay.saveTemplate': 'Salvar modelo',
+  'overlay.templateSaveError': 'Não foi possível salvar o modelo. Tente usar um logo menor.',
+
+  'export.title': 'Exportar Imagem',
+  'export.original': 'Original',
+  'export.originalHint': 'Tamanho e proporção gerados pela IA',
+  'export.instagramFeed': 'Instagram Feed',
+  'export.instagramFeedHint': '4:5 · 1080x1350',
+  'export.stories': 'Stories',
+  'export.storiesHint': '9:16 · 1080x1920',
+  'export.marketplace': 'Mercado Livre / Shopee',
+  'export.marketplaceHint': '1:1 · mínimo 1200x1200, fundo branco',
+  'export.whatsappCatalog': 'Catálogo WhatsApp',
+  'export.whatsappCatalogHint': '1:1 · 800x800, arquivo leve',
+  'export.print': 'Impressão',
+  'export.printHint': 'TIFF sem compressão com DPI, no tamanho da ampliação escolhida abaixo',
+  'export.format': 'Formato',
+  'export.quality': 'Qualidade ({percent}%)',
+  'export.allFormats': 'Todos os formatos (ZIP)',
+  'export.exporting': 'Exportando...',
+  'export.error': 'Não foi possível exportar a imagem. Tente outro formato.',
+  'export.encodeError': 'Não foi possível gerar o arquivo de exportação.',
+
+  'upscale.title': 'Ampliação e nitidez para impressão',
+  'upscale.actual': 'Resolução real:',
+  'upscale.output': 'Arquivo final:',
+  'upscale.sizeSummary': '{width} × {height} px · {printWidth} × {printHeight} cm a {dpi} DPI',
+  'upscale.printSize': '{width} × {height} cm a {dpi} DPI',
+  'upscale.belowRequested': 'Menor que os {edge} px pedidos ao modelo. Amplie antes de imprimir.',
+  'upscale.target': 'Ampliar para',
+  'upscale.none': 'Tamanho original',
+  'upscale.double': '2× a resolução',
+  'upscale.quadruple': '4× a resolução',
+  'upscale.shelfLabel': 'Etiqueta de gôndola (4 × 6 cm)',
+  'upscale.photo': 'Foto 10 × 15 cm',
+  'upscale.a5': 'Folheto A5 (14,8 × 21 cm)',
+  'upscale.a4': 'Folheto A4 (21 × 29,7 cm)',
+  'upscale.dpi': 'DPI',
+  'upscale.sharpen': 'Nitidez ({percent}%)',
+  'upscale.sharpenOff': 'Nitidez (desligada)',
+  'upscale.error': 'Não foi possível ampliar a imagem neste navegador.',
+
+  'compare.slider': 'Comparar antes e depois',
+
+  'versions.title': 'Versões',
+  'versions.compareWith': 'Comparar com {version}',
+  'versions.original': 'Original',
+
+  'references.title': 'Outros ângulos do mesmo produto',
+  'references.hint': 'Fotos do verso, laterais ou detalhes ajudam a IA a manter rótulos e tabelas consistentes.',
+  'references.photoAlt': 'Ângulo adicional {index}',
+  'references.remove': 'Remover foto',
+  'references.add': 'Adicionar foto de outro ângulo',
+  'references.angleSet': 'Gerar conjunto de ângulos ({angles})',
+
+  'angle.front': 'Frente',
+  'angle.back': 'Verso',
+  'angle.angle45': '45°',
+  'angle.detail': 'Detalhe',
+
+  'batch.queued': 'Na fila',
+  'batch.generating': 'Gerando...',
+  'batch.done': 'Concluído',
+  'batch.failed': 'Falhou',
+  'batch.pickWinner': 'Escolha a melhor variação abaixo.',
+  'batch.retry': 'Tentar novamente {name}',
+
+  'kit.name': 'Nome do kit',
+  'kit.namePlaceholder': 'Ex.: Cesta de café colonial',
+  'kit.hint': 'Adicione de {min} a {max} produtos fotografados separadamente. A ordem define a posição na cena, da esquerda para a direita, e a estrela marca o produto principal.',
+  'kit.productAlt': 'Produto {index}',
+  'kit.removeProduct': 'Remover produto {index}',
+  'kit.moveLeft': 'Mover para a esquerda',
+  'kit.hero': 'Produto principal',
+  'kit.moveRight': 'Mover para a direita',
+  'kit.addProduct': 'Adicionar produto',
+
+  'camera.open': 'Fotografar produto',
+  'camera.framingHint': 'Centralize o produto dentro das marcas, com o rótulo voltado para a câmera.',
+  'camera.shutter': 'Tirar foto',
+  'camera.unavailable': 'Não foi possível abrir a câmera neste navegador. Você ainda pode tirar a foto com o aplicativo de câmera do aparelho.',
+  'camera.openSystemCamera': 'Abrir câmera do aparelho',
+
+  'offline.banner': 'Sem conexão. As fotos enviadas agora ficam na fila e são geradas quando a internet voltar.',
+  'offline.sending': 'Conexão restabelecida. A fila é enviada quando você voltar à tela inicial.',
+  'offline.queued': '{count} foto(s) na fila.',
+  'offline.queueFailed': 'Não foi possível guardar a foto para gerar depois.',
+
+  'fidelity.passedHint': 'Produto fiel ao original',
+  'fidelity.passed': 'Fiel',
+  'fidelity.check': 'Verificar',
+  'fidelity.colorIssue': 'Cores do produto diferentes do original ({percent}%).',
+  'fidelity.shapeIssue': 'Forma ou detalhes do produto alterados ({percent}%).',
+  'fidelity.labelIssue': 'Texto do rótulo diferente do original ({percent}%).',
+
+  'compliance.passedHint': 'Pronta para marketplaces ({width}x{height}px, fundo branco)',
+  'compliance.passed': 'Marketplace',
+  'compliance.failed': 'Fora do padrão',
+  'compliance.backgroundIssue': 'Fundo não é branco puro (média {color}, {percent}% em #FFFFFF).',
+  'compliance.resolutionIssue': 'Resolução de {width}x{height}px abaixo do mínimo de {min}px.',
+  'compliance.ratioIssue': 'Proporção {width}x{height}px diferente de {ratio}.',
+  'compliance.fillIssue': 'Produto ocupa {percent}% do quadro (esperado {min}–{max}%).',
+  'compliance.centerIssue': 'Produto fora do centro ({percent}% de deslocamento).',
+  'compliance.noProduct': 'Nenhum produto encontrado na imagem.',
+
+  'brandKit.saveError': 'Não foi possível salvar o kit da marca. Tente usar menos imagens de referência.',
+  'brandKit.referenceError': 'Não foi possível carregar a imagem de referência.',
+  'brandKit.title': 'Kit da Marca',
+  'brandKit.enabled': 'Aplicar o kit da marca em todas as gerações',
+  'brandKit.colors': 'Cores da marca',
+  'brandKit.color': 'Cor {index}',
+  'brandKit.removeColor': 'Remover cor {color}',
+  'brandKit.addColor': 'Adicionar cor',
+  'brandKit.surfaces': 'Superfícies e props preferidos',
+  'brandKit.surfacesPlaceholder': 'Ex: mesa de madeira de demolição, toalha de linho cru, potes de cerâmica artesanal',
+  'brandKit.forbidden': 'Elementos proibidos',
+  'brandKit.forbiddenPlaceholder': 'Ex: plástico, mármore branco, logos de outras marcas',
+  'brandKit.notes': 'Observações de estilo',
+  'brandKit.notesPlaceholder': 'Ex: luz quente de fim de tarde, clima de empório do interior',
+  'brandKit.references': 'Imagens de referência ({count}/{max})',
+  'brandKit.reference': 'Referência {index}',
+  'brandKit.removeReference': 'Remover referência {index}',
+  'brandKit.addReference': 'Adicionar imagem de referência',
+  'brandKit.save': 'Salvar Kit',
+
+  'errors.unsupportedFormat': 'Formato de imagem não suportado: {type}.',
+  'errors.unknownType': 'desconhecido',
+  'errors.fileTooLarge': 'Fotos grandes demais: {size} MB no total, o limite é {max} MB.',
+  'errors.budgetSpent': 'Gasto estimado no mês: {spent} de {budget}.',
+  'errors.noImages': 'Nenhuma imagem foi gerada na resposta da API.',
+  'errors.invalidKey.title': 'Chave de API inválida',
+  'errors.invalidKey.message': 'A chave da API do Gemini está ausente, inválida ou sem permissão. Verifique o valor de GEMINI_API_KEY em .env.local e reinicie o servidor proxy (npm run server).',
+  'errors.quota.title': 'Limite de uso atingido',
+  'errors.quota.message': 'A cota ou o limite de requisições da API foi atingido. Aguarde alguns minutos antes de tentar novamente.',
+  'errors.safety.title': 'Conteúdo bloqueado',
+  'errors.safety.message': 'O filtro de segurança da IA bloqueou esta solicitação. Ajuste a instrução ou use outra foto do produto.',
+  'errors.invalidInput.title': 'Imagem não suportada',
+  'errors.invalidInput.message': 'A imagem enviada está em um formato não suportado ou é grande demais. Use fotos JPEG, PNG ou WEBP com até 20 MB no total.',
+  'errors.network.title': 'Falha de conexão',
+  'errors.network.message': 'Não foi possível falar com o serviço de IA. Verifique sua conexão com a internet e tente novamente.',
+  'errors.emptyResponse.title': 'Nenhuma imagem gerada',
+  'errors.emptyResponse.message': 'A IA respondeu sem nenhuma imagem. Tentar novamente costuma resolver.',
+  'errors.budget.title': 'Orçamento mensal atingido',
+  'errors.budget.message': 'O gasto estimado com a API chegou ao orçamento mensal configurado e novas gerações estão bloqueadas. Ajuste o orçamento no painel de uso para continuar.',
+  'errors.unknown.title': 'Ocorreu um Erro',
+  'errors.unknown.message': 'A IA não conseguiu processar a imagem. Por favor, tente novamente.',
+  'errors.timeout': 'A requisição excedeu o tempo limite de {seconds}s.',
+  'errors.heicUnsupported': 'Este navegador não consegue abrir fotos HEIC. Exporte a foto como JPEG e tente novamente.',
+  'errors.unreadableImage': 'Não foi possível ler a imagem "{name}".',
+  'errors.encodePrepared': 'Não foi possível codificar a imagem preparada.',
+  'errors.serverStatus': 'O servidor respondeu com o status {status}.',
+  'errors.imageLoad': 'Não foi possível carregar a imagem.',
+  'errors.canvasUnavailable': 'Canvas 2D não está disponível neste navegador.',
+  'errors.cancelled': 'A operação foi cancelada.',
+  'errors.stubFailure': 'Falha simulada pelo stub: {kind}.',
+  'errors.missingApiKey': 'A variável de ambiente GEMINI_API_KEY não está definida no servidor.',
+  'errors.promptBlocked': 'Instrução bloqueada: {reason}.',
+  'errors.imageBlocked': 'Imagem bloqueada: {reason}.',
+  'errors.requestTooLarge': 'A requisição excede o limite de {max} MB.',
+  'errors.invalidJson': 'Corpo da requisição não é um JSON válido.',
+  'errors.missingImages': 'Envie ao menos uma imagem em `images`.',
+  'errors.missingPrompt': 'O campo `prompt` é obrigatório.',
+  'errors.invalidMask': 'O campo `mask` é inválido.',
+  'errors.rateLimited': 'Muitas requisições deste cliente. Aguarde um pouco antes de tentar novamente.',
+  'providers.mockVariation': 'MOCK · variação {number}',
+
+  'safety.SAFETY': 'conteúdo considerado inseguro',
+  'safety.IMAGE_SAFETY': 'imagem considerada insegura',
+  'safety.PROHIBITED_CONTENT': 'conteúdo proibido',
+  'safety.IMAGE_PROHIBITED_CONTENT': 'imagem com conteúdo proibido',
+  'safety.BLOCKLIST': 'termos bloqueados na instrução',
+  'safety.SPII': 'dados pessoais sensíveis',
+  'safety.RECITATION': 'semelhança com conteúdo protegido',
+  'safety.IMAGE_RECITATION': 'semelhança com imagem protegida',
+
+  'fidelitySettings.title': 'Verificação de Fidelidade',
+  'fidelitySettings.intro': 'Cada imagem gerada é comparada com a foto original do produto. Variações que ficarem abaixo dos limites são sinalizadas.',
+  'fidelitySettings.enabled': 'Verificar fidelidade após cada geração',
+  'fidelitySettings.threshold': '{label} (mínimo {percent}%)',
+  'fidelitySettings.color': 'Semelhança de cores',
+  'fidelitySettings.shape': 'Semelhança de forma',
+  'fidelitySettings.labelText': 'Comparar o texto do rótulo (OCR)',
+  'fidelitySettings.noTextDetection': 'Este navegador não oferece detecção de texto.',
+  'fidelitySettings.text': 'Semelhança do texto',
+  'fidelitySettings.autoRegenerate': 'Regenerar automaticamente variações divergentes',
+  'fidelitySettings.maxRegenerations': 'Tentativas de regeneração',
+  'fidelitySettings.costHint': 'Cada regeneração faz novas chamadas pagas à API.',
+
+  'generationSettings.title': 'Configurações de Geração',
+  'generationSettings.variations': 'Variações',
+  'generationSettings.modeDefault': 'Padrão do modo ({value})',
+  'generationSettings.aspectRatio': 'Proporção',
+  'generationSettings.model': 'Modelo',
+  'generationSettings.serverDefault': 'Padrão do servidor',
+  'generationSettings.temperature': 'Temperatura',
+  'generationSettings.temperatureHint': 'Valores baixos geram resultados mais parecidos entre si; valores altos, mais variados.',
+  'generationSettings.fixedSeed': 'Semente fixa',
+  'generationSettings.randomSeed': 'aleatória',
+  'generationSettings.seed': 'Semente',
+  'generationSettings.seedHint': 'Cada variação usa a semente seguinte (semente + 1, + 2…). A semente de cada imagem aparece na edição.',
+  'generationSettings.promptLanguage': 'Idioma dos prompts',
+  'generationSettings.promptLanguageHint': 'Idioma das instruções enviadas à IA e dos textos que ela escreve nas cenas. Escolha o idioma do mercado onde as fotos serão publicadas.',
+  'generationSettings.costHint': 'Temperatura e semente são enviadas apenas aos modelos que as suportam. Mais variações significam mais chamadas pagas à API.',
+
+  'modes.title': 'Modos de Geração',
+  'modes.new': 'Novo Modo',
+  'modes.edit': 'Editar Modo',
+  'modes.save': 'Salvar Modo',
+  'modes.confirmDelete': 'Excluir o modo "{label}"?',
+  'modes.name': 'Nome',
+  'modes.namePlaceholder': 'Ex: Kit de presente',
+  'modes.prompt': 'Prompt',
+  'modes.placeholderHint': 'Use {placeholder} para inserir a proporção escolhida no texto.',
+  'modes.variationCount': '{count} variações',
+  'modes.builtIn': 'padrão',
+  'modes.duplicate': 'Duplicar {label}',
+  'modes.copy': '{label} (cópia)',
+  'modes.ecommerce': 'Foto de Estúdio',
+  'modes.ecommerceProcessing': 'Recriando com perfeição...',
+  'modes.social': 'Foto Ambiente',
+  'modes.socialProcessing': 'Criando suas fotos ambiente...',
+  'modes.processing': 'Criando suas fotos "{label}"...',
+
+  'presets.resetConfirm': 'Restaurar os atalhos padrão? Os atalhos criados ou editados serão perdidos.',
+  'presets.namePlaceholder': 'Nome do atalho',
+  'presets.instructionPlaceholder': 'Instrução enviada à IA',
+  'presets.save': 'Salvar atalho',
+  'presets.edit': 'Editar atalho {label}',
+  'presets.delete': 'Excluir atalho {label}',
+  'presets.new': 'Novo atalho',
+  'presets.done': 'Concluir',
+  'presets.manage': 'Gerenciar atalhos',
+
+  'preset.background-surface': 'Trocar superfície',
+  'preset.warm-light': 'Luz mais quente',
+  'preset.fresh-ingredients': 'Ingredientes frescos',
+  'preset.remove-props': 'Remover objetos',
+  'preset.top-down': 'Vista de cima',
+
+  'history.loadError': 'Não foi possível carregar o histórico deste navegador.',
+  'history.deleteConfirm': 'Excluir esta geração do histórico?',
+  'history.clearConfirm': 'Apagar todo o histórico salvo neste navegador? Esta ação não pode ser desfeita.',
+  'history.title': 'Histórico',
+  'history.favoritesOnly': 'Somente favoritos',
+  'history.clear': 'Limpar histórico',
+  'history.empty': 'Nenhuma geração salva ainda.',
+  'history.refinement': 'Refinamento: {prompt}',
+  'history.unfavorite': 'Remover dos favoritos',
+  'history.favorite': 'Favoritar',
+  'history.delete': 'Excluir do histórico',
+  'history.openVariation': 'Abrir variação {index} para edição',
+
+  'catalog.csvColumnsError': 'O arquivo CSV precisa das colunas "SKU" e "Nome".',
+  'catalog.noApprovedPhotos': 'Aprove ao menos uma foto para um produto antes de exportar o catálogo.',
+  'catalog.loadError': 'Não foi possível carregar as fotos aprovadas deste navegador.',
+  'catalog.duplicateSku': 'Já existe um produto com o SKU {sku}.',
+  'catalog.deleteConfirm': 'Excluir o produto {name} e as fotos aprovadas dele?',
+  'catalog.imported': '{count} produtos importados.',
+  'catalog.importedWithSkipped': '{count} produtos importados, {skipped} linhas ignoradas (sem SKU ou nome).',
+  'catalog.editProduct': 'Editar Produto',
+  'catalog.newProduct': 'Novo Produto',
+  'catalog.sku': 'SKU',
+  'catalog.price': 'Preço (R$)',
+  'catalog.name': 'Nome do produto',
+  'catalog.category': 'Categoria',
+  'catalog.description': 'Descrição (opcional)',
+  'catalog.saveProduct': 'Salvar Produto',
+  'catalog.title': 'Catálogo de Produtos',
+  'catalog.addProduct': 'Novo produto',
+  'catalog.importCsv': 'Importar CSV',
+  'catalog.csvHint': 'O CSV precisa das colunas SKU e Nome; Categoria, Preço e Descrição são opcionais.',
+  'catalog.empty': 'Nenhum produto cadastrado.',
+  'catalog.removePhoto': 'Remover foto aprovada',
+  'catalog.noPhotos': 'Sem fotos aprovadas.',
+  'catalog.export': 'Exportação',
+  'catalog.imageBaseUrl': 'URL onde a pasta imagens/ será publicada',
+  'catalog.storeUrl': 'URL da loja (para o catálogo Meta)',
+  'catalog.brand': 'Marca',
+  'catalog.exportHint': 'O ZIP traz as fotos aprovadas (JPEG 1:1, fundo branco) e os arquivos para Shopify, Nuvemshop, catálogo da Meta e JSON. Shopify e Meta baixam as fotos pela URL informada acima.',
+  'catalog.exporting': 'Exportando...',
+  'catalog.exportZip': 'Exportar catálogo (ZIP)',
+
+  'usage.generation': 'Geração',
+  'usage.refinement': 'Refinamento',
+  'usage.kit': 'Kit',
+  'usage.clearConfirm': 'Apagar todo o registro de uso deste navegador?',
+  'usage.title': 'Uso e Custos',
+  'usage.monthSpent': 'Gasto estimado neste mês',
+  'usage.ofBudget': 'de {budget}',
+  'usage.monthlyBudget': 'Orçamento mensal (US$)',
+  'usage.noLimit': 'sem limite',
+  'usage.budgetAction': 'Ao atingir o orçamento',
+  'usage.warn': 'Apenas avisar ao atingir',
+  'usage.block': 'Bloquear novas gerações',
+  'usage.lastDays': 'Últimos {days} dias',
+  'usage.calls': 'Chamadas',
+  'usage.estimatedCost': 'Custo estimado',
+  'usage.failureRate': 'Taxa de falha',
+  'usage.averageLatency': 'Latência média',
+  'usage.callsPerDay': 'Chamadas por dia',
+  'usage.dayTooltip': '{day}: {calls} chamadas, {failures} falhas, {cost}',
+  'usage.today': 'Hoje',
+  'usage.type': 'Tipo',
+  'usage.failures': 'Falhas',
+  'usage.cost': 'Custo',
+  'usage.disclaimer': 'Custos estimados com base nos preços públicos da API; o valor faturado pode variar.',
+  'usage.clear': 'Limpar registro',
+
+  'app.checkingFidelity': 'Verificando fidelidade ao produto...',
+  'app.anglesSuffix': 'Ângulos',
+  'app.refining': 'Refinando sua imagem...',
+  'app.kitSuffix': 'Kit',
+  'app.preparingPhotos': 'Preparando as fotos...',
+  'app.invalidFile': 'Por favor, selecione um arquivo de imagem válido (JPEG, PNG, WEBP, etc.).',
+  'app.complianceFix': 'Correção para marketplace',
+  'app.complianceFixError': 'Não foi possível corrigir esta imagem automaticamente.',
+  'app.approveError': 'Não foi possível salvar a foto no catálogo deste navegador.',
+  'app.variation': 'Variação {index}',
+  'app.selectToEdit': 'Selecionar para Editar',
+  'app.reason': 'Motivo:',
+  'app.dropHint': 'Arraste uma imagem ou clique para selecionar',
+  'app.optionCountOne': '1 opção será gerada automaticamente',
+  'app.optionCount': '{count} opções serão geradas automaticamente',
+  'app.batchHint': 'Selecione várias imagens para processar um lote de produtos',
+  'app.buildKit': 'Montar Kit de Produtos',
+  'app.generateKit': 'Gerar Kit',
+  'app.generate': 'Gerar Imagens',
+  'app.chooseAnother': 'Escolher Outra Foto',
+  'app.failedVariations': '{failed} de {total} variações falharam. As demais foram mantidas.',
+  'app.selectHint': 'Selecione uma imagem acima para refinar, alterar ou baixar.',
+  'app.startOver': 'Começar de Novo',
+  'app.undo': 'Desfazer',
+  'app.redo': 'Refazer',
+  'app.compare': 'Comparar',
+  'app.editRegion': 'Editar Região',
+  'app.overlay': 'Textos e Selos',
+  'app.fidelityWarning': 'Esta variação pode não ser fiel ao produto original.',
+  'app.complianceWarning': 'Fora do padrão de marketplace.',
+  'app.fixing': 'Corrigindo...',
+  'app.fixCompliance': 'Corrigir fundo e enquadramento',
+  'app.seed': 'Semente:',
+  'app.seedFixed': 'Semente fixada',
+  'app.fixSeedHint': 'As próximas gerações partem desta semente',
+  'app.fixSeed': 'Fixar esta semente',
+  'app.catalogProduct': 'Produto do catálogo',
+  'app.noCatalogProduct': 'Sem produto do catálogo',
+  'app.approved': 'Aprovada no catálogo',
+  'app.approve': 'Aprovar para o catálogo',
+  'app.registerProducts': 'Cadastre produtos para vincular esta foto a um SKU',
+  'app.editPromptLabel': 'Descreva a alteração que você deseja:',
+  'app.maskReady': 'A alteração será aplicada somente na região marcada; o restante da imagem fica intacto.',
+  'app.maskHint': 'Pinte na imagem a região a alterar (ou a proteger) antes de enviar.',
+  'app.editPromptExtra': 'Algo mais? (opcional)',
+  'app.editPromptPlaceholder': 'Ex: adicione um ramo de alecrim ao lado do produto',
+  'app.composedPrompt': 'Instrução que será enviada:',
+  'app.applyPrompt': 'Alterar com Prompt',
+  'app.or': 'OU',
+  'app.moreVariations': 'Gerar Mais Variações',
+  'app.back': 'Voltar',
+  'app.discard': 'Descartar',
+  'app.batchProgress': '{done} de {total} produtos processados. Escolha a melhor variação de cada um.',
+  'app.downloadWinners': 'Baixar Escolhidas ({count})',
+  'app.retry': 'Tentar Novamente',
+  'app.adjustPrompt': 'Ajustar Instrução',
+  'app.openUsage': 'Abrir Painel de Uso',
+  'app.useAnother': 'Usar Outra Foto',
+  'app.backToEditing': 'Voltar à Edição',
+  'app.manageModes': 'Gerenciar modos',
+  'app.brandKitActiveLabel': 'Kit da marca (ativo)',
+  'app.brandKitActive': 'Kit da marca ativo',
+  'app.brandKit': 'Kit da marca',
+  'app.generationSettings': 'Configurações de geração',
+  'app.fidelity': 'Verificação de fidelidade',
+  'app.history': 'Histórico',
+  'app.catalog': 'Catálogo de produtos',
+  'app.usage': 'Uso e custos',
+  'app.language': 'Idioma da interface',
+  'app.budgetExceeded': 'Orçamento mensal atingido: {spent} de {budget}.',
+  'app.budgetBlocked': 'Novas gerações estão bloqueadas.',
+  'app.budgetNear': 'Você já usou {percent}% do orçamento mensal ({spent} de {budget}).',
+};
+
+export const ptBRPrompts: PromptTexts = {
+  ecommerceMode: `**TAREFA:** A partir da imagem fornecida, recrie-a como uma fotografia de produto para e-commerce com a mais alta qualidade profissional, hiper-realista e pronta para publicação.
+
+**DIRETRIZES ESSENCIAIS DE QUALIDADE:**
+
+1.  **ILUMINAÇÃO DE ESTÚDIO:** Simule uma configuração de **lightbox profissional**. A iluminação deve ser perfeitamente difusa, suave e envolvente, eliminando completamente sombras duras e reflexos especulares indesejados. O produto deve ser iluminado de forma a destacar suas texturas e formas naturais.
+
+2.  **FUNDO IMACULADO:** O fundo deve ser **branco puro (#FFFFFF), uniforme e absolutamente limpo**. É terminantemente proibido qualquer tipo de gradiente, textura ou **sombra projetada** do produto no fundo. O produto deve parecer flutuar em um espaço branco infinito.
+
+3.  **HIPER-REALISMO E COR:** A renderização deve ser **extremamente realista**. As texturas dos materiais (plástico, papel, metal, tecido, etc.) devem ser autênticas e táteis. A **precisão de cor é crítica**; as cores devem ser vibrantes, mas 100% fiéis ao produto original, com um balanço de branco perfeitamente neutro, sem dominantes de cor.
+
+4.  **NITIDEZ E DETALHE:** O produto inteiro deve estar em **foco absoluto e perfeitamente nítido** de ponta a ponta (grande profundidade de campo). As bordas devem ser limpas e definidas, sem aberrações cromáticas, halos ou desfoques de recorte.
+
+5.  **ENQUADRAMENTO PROFISSIONAL:**
+    *   **Proporção e Resolução:** A imagem final DEVE ter proporção {{proporcao}}, com 2048 pixels no lado maior.
+    *   **Composição:** O produto deve ser **cuidadosamente centralizado** e dimensionado para ocupar uma porção significativa do quadro (aproximadamente 85-90%), garantindo uma **margem (padding) generosa e visualmente consistente** em todos os lados. Evite que o produto pareça muito pequeno ou muito grande a ponto de tocar as bordas. O objetivo é um enquadramento equilibrado e profissional.
+`,
+  socialMode: `**TAREFA:** A partir da imagem do produto fornecida, crie uma fotografia de ambiente (lifestyle) **hiper-realista e profissional** para redes sociais, que seja elegante e contextualizada.
+
+**DIRETRIZES ESSENCIAIS DE ESTILO:**
+
+1.  **CONTEXTO INTELIGENTE:** Analise o produto e crie um cenário que **complemente sua natureza e uso**. Por exemplo, um pote de geleia pode ser apresentado em uma mesa de café da manhã, enquanto um cosmético pode estar em um banheiro elegante. O objetivo é contar uma pequena história sobre o produto.
+
+2.  **ESTÉTICA CONSISTENTE:** Mantenha uma estética **rústica-chique, artesanal e convidativa**. Utilize materiais naturais como madeira, pedra, linho ou cerâmica. A composição deve parecer autêntica e cuidadosamente arranjada, nunca artificial.
+
+3.  **ILUMINAÇÃO E ATMOSFERA:**
+    *   A iluminação deve ser **natural e suave**, como a luz de uma janela. Crie **sombras suaves e realistas** que deem profundidade e volume à cena. A atmosfera geral deve ser quente, acolhedora e sofisticada.
+
+4.  **REALISMO E INTEGRAÇÃO DO PRODUTO:**
+    *   O produto fornecido deve ser **perfeitamente integrado** ao cenário, com sombras e reflexos realistas que interagem com o ambiente.
+    *   Mantenha a **fidelidade total ao produto original** (cores, texturas, rótulos).
+
+5.  **ENQUADRAMENTO E FOCO:**
+    *   **Proporção:** A imagem final DEVE ter proporção {{proporcao}}. Resolução: 2048 pixels no lado maior.
+    *   **Foco:** O produto deve ser o ponto focal principal. Use uma profundidade de campo ligeiramente rasa (foco suave no fundo) para destacá-lo, mas garantindo que o contexto seja reconhecível.
+    *   **Composição:** Siga princípios de composição fotográfica (como a regra dos terços) para um resultado visualmente atraente.
+`,
+  sceneText: '\n\n**TEXTOS NA CENA:** Qualquer texto novo que aparecer na cena (placas, etiquetas, lousas, embalagens de apoio) deve estar escrito em português do Brasil. Não traduza nem altere os textos do rótulo do produto.',
+  aspectRatio: '\n\n**Proporção:** A imagem final DEVE ter proporção {ratio}.',
+  referencePhotos: '\n\n**FOTOS DE REFERÊNCIA:** As {count} primeiras imagens são fotos do MESMO produto em ângulos diferentes. Use todas elas para reconstruir o produto com precisão: rótulos, textos, cores e detalhes devem ser consistentes com o que aparece em cada foto. Não trate as fotos como produtos diferentes.',
+  angle: '\n\n**ÂNGULO DESTA IMAGEM ({label}):** {instruction} Mantenha exatamente o mesmo estilo, fundo e iluminação das demais imagens do conjunto.',
+  angles: {
+    front: { label: 'Frente', instruction: 'Mostre o produto de **frente**, com o rótulo principal voltado diretamente para a câmera.' },
+    back: { label: 'Verso', instruction: 'Mostre o **verso** do produto (por exemplo, a tabela nutricional ou a lista de ingredientes), reproduzindo fielmente o que aparece nas fotos de referência.' },
+    angle45: { label: '45°', instruction: 'Mostre o produto girado **45 graus**, revelando a frente e uma das laterais ao mesmo tempo.' },
+    detail: { label: 'Detalhe', instruction: 'Faça um **close de detalhe** do produto, destacando a textura, o acabamento ou um elemento marcante do rótulo.' },
+  },
+  kit: {
+    intro: '\n\n**COMPOSIÇÃO DE KIT:** As {count} primeiras imagens são produtos DIFERENTES, fotografados separadamente, que formam juntos o kit{name}. Siga o estilo descrito acima, mas crie UMA ÚNICA imagem com TODOS os {count} produtos reunidos na mesma cena, como um conjunto presenteável.',
+    hero: '*   **Produto principal:** O produto da imagem {index} é o destaque do kit; posicione-o ao centro e à frente, um pouco maior ou mais evidente que os demais.',
+    order: '*   **Ordem:** Distribua os produtos da esquerda para a direita seguindo esta ordem: {order}.',
+    scale: '*   **Escala e fidelidade:** Mantenha a proporção real entre os produtos e preserve exatamente cores, rótulos e formatos de cada um. Não omita, duplique nem invente produtos.',
+    unity: '*   **Unidade:** Ilumine todos os produtos com a mesma luz e sombras coerentes, para que pareçam fotografados juntos.',
+    heroImage: 'imagem {index} (produto principal)',
+    image: 'imagem {index}',
+  },
+  brandKit: {
+    header: '**IDENTIDADE DA MARCA (obrigatório em todas as imagens):**',
+    palette: '*   **Paleta:** Use as cores da marca {colors} nos elementos de cena, acessórios e fundos, sem alterar as cores do produto.',
+    surfaces: '*   **Superfícies e props preferidos:** {surfaces}.',
+    forbidden: '*   **Elementos proibidos:** Nunca inclua {forbidden}.',
+    style: '*   **Estilo:** {notes}.',
+    references: '*   **Referências de estilo:** {productImages} As {count} imagens seguintes são referências de clima e estilo da marca; siga sua paleta, luz e atmosfera, mas nunca copie objetos delas nem substitua o produto.',
+    singleProduct: 'A primeira imagem é o produto.',
+    multipleProducts: 'As {count} primeiras imagens são do produto.',
+  },
+  mask: '\n\n**EDIÇÃO LOCAL COM MÁSCARA:** A última imagem enviada é uma máscara em preto e branco do mesmo tamanho da foto. Aplique a alteração pedida SOMENTE nas áreas brancas da máscara. As áreas pretas devem permanecer exatamente iguais, sem nenhuma mudança de cor, texto, rótulo, iluminação ou posição.',
+  presets: {
+    'background-surface': 'Troque a superfície sob o produto por uma bancada de madeira clara, mantendo sombras e reflexos coerentes com a nova superfície.',
+    'warm-light': 'Deixe a iluminação mais quente e acolhedora, como luz de fim de tarde, sem alterar as cores reais do produto.',
+    'fresh-ingredients': 'Adicione ingredientes frescos relacionados ao produto ao redor dele, de forma natural e sem cobrir o rótulo.',
+    'remove-props': 'Remova os objetos decorativos da cena, deixando apenas o produto e a superfície.',
+    'top-down': 'Mostre a cena vista de cima (flat lay), com a câmera perpendicular à superfície.',
+  },
+  composedRefinement: 'Aplique todas as alterações abaixo à imagem:',
+  moreVariations: 'Crie mais {count} variações desta imagem, mantendo o mesmo estilo geral, mas com pequenas alterações na composição, iluminação e nos elementos de fundo.',
+  newMode: '**TAREFA:** A partir da imagem do produto fornecida, crie uma fotografia hiper-realista e profissional.\n\nMantenha a fidelidade total ao produto original (cores, texturas, rótulos).\n\nA imagem final DEVE ter proporção {placeholder}.',
+  badges: ['Novo', 'Promoção', 'Mais vendido', 'Artesanal'],
+  overlayText: 'Nome do produto',
+};
@@ -0,0 +1,46 @@
+import type { ptBR } from './locales/ptBR';
+
+export type Language = 'pt-BR' | 'es' | 'en';
+
+export type TranslationKey = keyof typeof ptBR;
+
+export type Messages = Record<TranslationKey, string>;
+
+export type TranslationParams = Record<string, string | number>;
+
+// Text sent to the model or drawn onto the image; it follows the prompt language instead of the interface language.
+export interface PromptTexts {
+  sceneText: string;
+  ecommerceMode: string;
+  socialMode: string;
+  aspectRatio: string;
+  referencePhotos: string;
+  angle: string;
+  angles: Record<'front' | 'back' | 'angle45' | 'detail', { label: string; instruction: string }>;
+  kit: {
+    intro: string;
+    hero: string;
+    order: string;
+    scale: string;
+    unity: string;
+    heroImage: string;
+    image: string;
+  };
+  brandKit: {
+    header: string;
+    palette: string;
+    surfaces: string;
+    forbidden: string;
+    style: string;
+    references: string;
+    singleProduct: string;
+    multipleProducts: string;
+  };
+  mask: string;
+  presets: Record<'background-surface' | 'warm-light' | 'fresh-ingredients' | 'remove-props' | 'top-down', string>;
+  composedRefinement: string;
+  moreVariations: string;
+  newMode: string;
+  badges: string[];
+  overlayText: string;
+}
@@ -0,0 +1,107 @@
+import { TimeoutError } from './requestPipeline';
+import { TranslationKey, TranslationParams, translate } from './i18n';
+
+export type ImageErrorKind =
+  | 'invalid-key'
+  | 'quota'
+  | 'safety'
+  | 'invalid-input'
+  | 'network'
+  | 'empty-response'
+  | 'budget'
+  | 'unknown';
+
+export class ImageGenerationError extends Error {
+  readonly kind: ImageErrorKind;
+  readonly reason?: string;
+  readonly status?: number;
+  // Set on errors the proxy raises, so the browser can show the message in its own language.
+  readonly code?: TranslationKey;
+  readonly params?: TranslationParams;
+
+  constructor(kind: ImageErrorKind, message: string, options: { reason?: string; status?: number; cause?: unknown; code?: TranslationKey; params?: TranslationParams } = {}) {
+    super(message);
+    this.name = 'ImageGenerationError';
+    this.kind = kind;
+    this.reason = options.reason;
+    this.status = options.status;
+    this.code = options.code;
+    this.params = options.params;
+    if (options.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+}
+
+const ERROR_KEYS: Record<ImageErrorKind, { title: TranslationKey; message: TranslationKey }> = {
+  'invalid-key': { title: 'errors.invalidKey.title', message: 'errors.invalidKey.message' },
+  quota: { title: 'errors.quota.title', message: 'errors.quota.message' },
+  safety: { title: 'errors.safety.title', message: 'errors.safety.message' },
+  'invalid-input': { title: 'errors.invalidInput.title', message: 'errors.invalidInput.message' },
+  network: { title: 'errors.network.title', message: 'errors.network.message' },
+  'empty-response': { title: 'errors.emptyResponse.title', message: 'errors.emptyResponse.message' },
+  budget: { title: 'errors.budget.title', message: 'errors.budget.message' },
+  unknown: { title: 'errors.unknown.title', message: 'errors.unknown.message' },
+};
+
+export const isImageErrorKind = (value: unknown): value is ImageErrorKind => typeof value === 'string' && Object.hasOwn(ERROR_KEYS, value);
+
+export const getErrorDetails = (kind: ImageErrorKind): { title: string; message: string } => ({
+  title: translate(ERROR_KEYS[kind].title),
+  message: translate(ERROR_KEYS[kind].message),
+});
+
+const SAFETY_REASON_KEYS: Record<string, TranslationKey> = {
+  SAFETY: 'safety.SAFETY',
+  IMAGE_SAFETY: 'safety.IMAGE_SAFETY',
+  PROHIBITED_CONTENT: 'safety.PROHIBITED_CONTENT',
+  IMAGE_PROHIBITED_CONTENT: 'safety.IMAGE_PROHIBITED_CONTENT',
+  BLOCKLIST: 'safety.BLOCKLIST',
+  SPII: 'safety.SPII',
+  RECITATION: 'safety.RECITATION',
+  IMAGE_RECITATION: 'safety.IMAGE_RECITATION',
+};
+
+export const isSafetyReason = (reason: string | undefined): boolean => !!reason && reason in SAFETY_REASON_KEYS;
+
+export const getSafetyReasonLabel = (reason: string): string => reason in SAFETY_REASON_KEYS ? translate(SAFETY_REASON_KEYS[reason]) : reason;
+
+// A `reason` param holds a raw block reason and is shown through its translated label.
+export const describeErrorCode = (code: TranslationKey, params: TranslationParams = {}): string =>
+  translate(code, typeof params.reason === 'string' ? { ...params, reason: getSafetyReasonLabel(params.reason) } : params);
+
+export const createCodedError = (
+  kind: ImageErrorKind,
+  code: TranslationKey,
+  params?: TranslationParams,
+  options: { reason?: string; status?: number } = {},
+): ImageGenerationError => new ImageGenerationError(kind, describeErrorCode(code, params), { ...options, code, params });
+
+const KEY_PATTERN = /API[_ ]?key|API_KEY_INVALID|PERMISSION_DENIED|UNAUTHENTICATED/i;
+const QUOTA_PATTERN = /RESOURCE_EXHAUSTED|quota|rate limit/i;
+const INPUT_PATTERN = /mime|unsupported|too large|payload|image.*(size|invalid)|INVALID_ARGUMENT/i;
+const NETWORK_PATTERN = /failed to fetch|network|ECONN|ETIMEDOUT|ENOTFOUND/i;
+
+// Maps provider, SDK and browser errors onto the kinds the ERROR screen knows how to recover from.
+export const toImageGenerationError = (error: unknown): ImageGenerationError => {
+  if (error instanceof ImageGenerationError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const rawStatus = (error as { status?: unknown })?.status;
+  const status = typeof rawStatus === 'number' ? rawStatus : undefined;
+  const options = { status, cause: error };
+
+  if (status === 401 || status === 403 || KEY_PATTERN.test(message)) {
+    return new ImageGenerationError('invalid-key', message, options);
+  }
+  if (status === 429 || QUOTA_PATTERN.test(message)) {
+    return new ImageGenerationError('quota', message, options);
+  }
+  if (status === 413 || (status === 400 && INPUT_PATTERN.test(message))) {
+    return new ImageGenerationError('invalid-input', message, options);
+  }
+  if (error instanceof TimeoutError || error instanceof TypeError || NETWORK_PATTERN.test(message)) {
+    return new ImageGenerationError('network', message, options);
+  }
+  return new ImageGenerationError('unknown', message, options);
+};
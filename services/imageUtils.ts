@@ -0,0 +1,85 @@
+import { InlineImage } from './providers';
+import { translate } from './i18n';
+
+export const FOREGROUND_DISTANCE = 40;
+
+export const readFileAsDataUrl = (file: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+};
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(translate('errors.imageLoad')));
+    img.src = src;
+  });
+};
+
+export const createCanvas = (width: number, height: number): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error(translate('errors.canvasUnavailable'));
+  }
+  return { canvas, ctx };
+};
+
+export const resizeImageToDataUrl = async (src: string, maxEdge: number, mimeType = 'image/jpeg', quality = 0.85): Promise<string> => {
+  const img = await loadImage(src);
+  const scale = Math.min(1, maxEdge / Math.max(img.naturalWidth, img.naturalHeight));
+  const width = Math.round(img.naturalWidth * scale);
+  const height = Math.round(img.naturalHeight * scale);
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(img, 0, 0, width, height);
+  return canvas.toDataURL(mimeType, quality);
+};
+
+// Finds the product as the pixels that differ from the average border color.
+export const findProductBounds = (data: Uint8ClampedArray, width: number, height: number) => {
+  let r = 0, g = 0, b = 0, count = 0;
+  const addBorderPixel = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    r += data[i]; g += data[i + 1]; b += data[i + 2]; count++;
+  };
+  for (let x = 0; x < width; x++) { addBorderPixel(x, 0); addBorderPixel(x, height - 1); }
+  for (let y = 1; y < height - 1; y++) { addBorderPixel(0, y); addBorderPixel(width - 1, y); }
+  r /= count; g /= count; b /= count;
+
+  let minX = width, minY = height, maxX = -1, maxY = -1, foreground = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const distance = Math.hypot(data[i] - r, data[i + 1] - g, data[i + 2] - b);
+      if (distance > FOREGROUND_DISTANCE) {
+        foreground++;
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+
+  const ratio = foreground / (width * height);
+  if (ratio < 0.01 || ratio > 0.95) {
+    return { x: Math.round(width * 0.2), y: Math.round(height * 0.2), width: Math.round(width * 0.6), height: Math.round(height * 0.6), background: null };
+  }
+  return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1, background: [r, g, b] };
+};
+
+export const dataUrlToInlineImage = (dataUrl: string): InlineImage => {
+    const [header, data] = dataUrl.split(',');
+    const mimeType = header.match(/:(.*?);/)?.[1] || 'image/jpeg';
+    return {
+        data,
+        mimeType,
+    }
+}
@@ -0,0 +1,8 @@
+// Inline requests to the Gemini API are limited to 20 MB in total, so this caps the photos of one request together.
+export const MAX_INPUT_BYTES = 20 * 1024 * 1024;
+
+// Brand kit references, the refinement mask and the prompt travel in the same body as the photos.
+const REQUEST_OVERHEAD_BYTES = 8 * 1024 * 1024;
+
+// The proxy's body limit: base64 grows the photos by a third inside the JSON request.
+export const MAX_REQUEST_BODY_BYTES = Math.ceil(MAX_INPUT_BYTES * 4 / 3) + REQUEST_OVERHEAD_BYTES;
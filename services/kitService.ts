@@ -0,0 +1,44 @@
+import { getPromptTexts, interpolate } from './i18n';
+
+export const MIN_KIT_PRODUCTS = 2;
+export const MAX_KIT_PRODUCTS = 6;
+
+export interface KitSetup {
+  files: File[];
+  heroIndex: number;
+  name: string;
+}
+
+export const createKitSetup = (files: File[] = []): KitSetup => ({ files: files.slice(0, MAX_KIT_PRODUCTS), heroIndex: 0, name: '' });
+
+export const moveKitProduct = (kit: KitSetup, from: number, to: number): KitSetup => {
+  if (to < 0 || to >= kit.files.length) return kit;
+  const files = [...kit.files];
+  const [moved] = files.splice(from, 1);
+  files.splice(to, 0, moved);
+  const heroIndex = kit.heroIndex === from ? to : kit.heroIndex === to ? from : kit.heroIndex;
+  return { ...kit, files, heroIndex };
+};
+
+export const removeKitProduct = (kit: KitSetup, index: number): KitSetup => {
+  const files = kit.files.filter((_, i) => i !== index);
+  const heroIndex = index === kit.heroIndex ? 0 : index < kit.heroIndex ? kit.heroIndex - 1 : kit.heroIndex;
+  return { ...kit, files, heroIndex: Math.min(heroIndex, Math.max(0, files.length - 1)) };
+};
+
+// Appended to a mode prompt so its studio or ambient style is applied to a scene with every product of the kit.
+export const buildKitPrompt = (kit: KitSetup): string => {
+  const { kit: texts } = getPromptTexts();
+  const count = kit.files.length;
+  const name = kit.name.trim() ? ` "${kit.name.trim()}"` : '';
+  const order = kit.files
+    .map((_, index) => interpolate(index === kit.heroIndex ? texts.heroImage : texts.image, { index: index + 1 }))
+    .join(', ');
+  return [
+    interpolate(texts.intro, { count, name }),
+    interpolate(texts.hero, { index: kit.heroIndex + 1 }),
+    interpolate(texts.order, { order }),
+    texts.scale,
+    texts.unity,
+  ].join('\n');
+};
@@ -0,0 +1,75 @@
+import { createCanvas, loadImage } from './imageUtils';
+import { getPromptTexts } from './i18n';
+
+export type MaskMode = 'edit' | 'protect';
+
+const MASK_THRESHOLD = 128;
+
+export const buildMaskPrompt = (): string => getPromptTexts().mask;
+
+// Converts the painted overlay into a binary mask where white marks the editable region.
+export const exportMask = (paintCanvas: HTMLCanvasElement, mode: MaskMode): string | null => {
+  if (!hasPaint(paintCanvas)) return null;
+
+  const { width, height } = paintCanvas;
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(paintCanvas, 0, 0);
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = mode === 'edit' ? '#ffffff' : '#000000';
+  ctx.fillRect(0, 0, width, height);
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.fillStyle = mode === 'edit' ? '#000000' : '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+
+  const imageData = ctx.getImageData(0, 0, width, height);
+  const { data } = imageData;
+  for (let i = 0; i < data.length; i += 4) {
+    const value = data[i] >= MASK_THRESHOLD ? 255 : 0;
+    data[i] = data[i + 1] = data[i + 2] = value;
+    data[i + 3] = 255;
+  }
+  ctx.putImageData(imageData, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+export const hasPaint = (paintCanvas: HTMLCanvasElement): boolean => {
+  const ctx = paintCanvas.getContext('2d');
+  if (!ctx) return false;
+  const { data } = ctx.getImageData(0, 0, paintCanvas.width, paintCanvas.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return true;
+  }
+  return false;
+};
+
+// Keeps every pixel outside the mask exactly as decoded from the source image.
+export const compositeWithMask = async (sourceUrl: string, resultUrl: string, maskUrl: string): Promise<string> => {
+  const [source, result, mask] = await Promise.all([loadImage(sourceUrl), loadImage(resultUrl), loadImage(maskUrl)]);
+  const width = source.naturalWidth;
+  const height = source.naturalHeight;
+
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(source, 0, 0);
+  const output = ctx.getImageData(0, 0, width, height);
+
+  const { ctx: resultCtx } = createCanvas(width, height);
+  resultCtx.drawImage(result, 0, 0, width, height);
+  const resultData = resultCtx.getImageData(0, 0, width, height).data;
+
+  const { ctx: maskCtx } = createCanvas(width, height);
+  maskCtx.imageSmoothingEnabled = false;
+  maskCtx.drawImage(mask, 0, 0, width, height);
+  const maskData = maskCtx.getImageData(0, 0, width, height).data;
+
+  for (let i = 0; i < output.data.length; i += 4) {
+    if (maskData[i] >= MASK_THRESHOLD) {
+      output.data[i] = resultData[i];
+      output.data[i + 1] = resultData[i + 1];
+      output.data[i + 2] = resultData[i + 2];
+      output.data[i + 3] = resultData[i + 3];
+    }
+  }
+
+  ctx.putImageData(output, 0, 0);
+  return canvas.toDataURL('image/png');
+};
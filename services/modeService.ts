@@ -0,0 +1,103 @@
+import { getPromptTexts, interpolate, translate } from './i18n';
+
+export type AspectRatio = '1:1' | '4:5' | '3:4' | '2:3' | '9:16' | '4:3' | '3:2' | '16:9';
+
+export const ASPECT_RATIOS: AspectRatio[] = ['1:1', '4:5', '3:4', '2:3', '9:16', '4:3', '3:2', '16:9'];
+
+export const MIN_VARIATION_COUNT = 1;
+export const MAX_VARIATION_COUNT = 8;
+
+export const ASPECT_RATIO_PLACEHOLDER = '{{proporcao}}';
+
+export interface GenerationMode {
+  id: string;
+  label: string;
+  promptTemplate: string;
+  aspectRatio: AspectRatio;
+  variationCount: number;
+  processingMessage?: string;
+  builtIn?: boolean;
+}
+
+const STORAGE_KEY = 'emporio:generation-modes';
+
+const DEFAULT_VARIATION_COUNT = 4;
+
+// Labels follow the interface language and prompts the prompt language, so built-in modes are rebuilt on every change.
+export const getBuiltInModes = (): GenerationMode[] => {
+  const prompts = getPromptTexts();
+  return [
+    {
+      id: 'ECOMMERCE',
+      label: translate('modes.ecommerce'),
+      promptTemplate: prompts.ecommerceMode,
+      aspectRatio: '1:1',
+      variationCount: DEFAULT_VARIATION_COUNT,
+      processingMessage: translate('modes.ecommerceProcessing'),
+      builtIn: true,
+    },
+    {
+      id: 'SOCIAL',
+      label: translate('modes.social'),
+      promptTemplate: prompts.socialMode,
+      aspectRatio: '1:1',
+      variationCount: DEFAULT_VARIATION_COUNT,
+      processingMessage: translate('modes.socialProcessing'),
+      builtIn: true,
+    },
+  ];
+};
+
+export const renderModePrompt = (mode: GenerationMode): string => {
+  if (mode.promptTemplate.includes(ASPECT_RATIO_PLACEHOLDER)) {
+    return mode.promptTemplate.split(ASPECT_RATIO_PLACEHOLDER).join(mode.aspectRatio);
+  }
+  return mode.promptTemplate + interpolate(getPromptTexts().aspectRatio, { ratio: mode.aspectRatio });
+};
+
+export const getProcessingMessage = (mode: GenerationMode): string => {
+  return mode.processingMessage || translate('modes.processing', { label: mode.label });
+};
+
+export const clampVariationCount = (count: number): number => {
+  if (!Number.isFinite(count)) return DEFAULT_VARIATION_COUNT;
+  return Math.min(MAX_VARIATION_COUNT, Math.max(MIN_VARIATION_COUNT, Math.round(count)));
+};
+
+export const createModeId = (label: string): string => {
+  const slug = label
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  return `${slug || 'modo'}-${Date.now().toString(36)}`;
+};
+
+export const loadCustomModes = (): GenerationMode[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+    const parsed = JSON.parse(stored);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter(mode => mode && typeof mode.id === 'string' && typeof mode.label === 'string' && typeof mode.promptTemplate === 'string')
+      .map(mode => ({
+        ...mode,
+        aspectRatio: ASPECT_RATIOS.includes(mode.aspectRatio) ? mode.aspectRatio : '1:1',
+        variationCount: clampVariationCount(mode.variationCount),
+        builtIn: false,
+      }));
+  } catch (error) {
+    console.error("Não foi possível carregar os modos personalizados:", error);
+    return [];
+  }
+};
+
+export const saveCustomModes = (modes: GenerationMode[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(modes.filter(mode => !mode.builtIn)));
+  } catch (error) {
+    console.error("Não foi possível salvar os modos personalizados:", error);
+  }
+};
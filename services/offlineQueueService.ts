@@ -0,0 +1,30 @@
+import { GenerationMode } from './modeService';
+import { OFFLINE_QUEUE_STORE, runStoreTransaction } from './database';
+
+// A prepared photo waiting for connectivity; the mode is stored whole so later edits to it don't change the request.
+export interface OfflineQueueItem {
+  id: string;
+  file: File;
+  mode: GenerationMode;
+  createdAt: number;
+}
+
+export const addOfflineQueueItem = async (file: File, mode: GenerationMode): Promise<OfflineQueueItem> => {
+  const record: OfflineQueueItem = {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    file,
+    mode,
+    createdAt: Date.now(),
+  };
+  await runStoreTransaction(OFFLINE_QUEUE_STORE, 'readwrite', store => store.put(record));
+  return record;
+};
+
+export const listOfflineQueueItems = async (): Promise<OfflineQueueItem[]> => {
+  const items = await runStoreTransaction<OfflineQueueItem[]>(OFFLINE_QUEUE_STORE, 'readonly', store => store.getAll());
+  return items.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const deleteOfflineQueueItem = async (id: string): Promise<void> => {
+  await runStoreTransaction(OFFLINE_QUEUE_STORE, 'readwrite', store => store.delete(id));
+};
@@ -0,0 +1,150 @@
+import { createCanvas, loadImage } from './imageUtils';
+import { TranslationKey, getPromptTexts, translate } from './i18n';
+
+export type OverlayKind = 'text' | 'price' | 'badge' | 'logo';
+
+export type OverlayFontId = 'sans' | 'serif' | 'script' | 'condensed';
+
+// Positions are the layer center and sizes are font size (or logo width), all in fractions of the image width/height.
+export interface OverlayLayer {
+  id: string;
+  kind: OverlayKind;
+  x: number;
+  y: number;
+  size: number;
+  text: string;
+  font: OverlayFontId;
+  color: string;
+  background: string | null;
+  opacity: number;
+  imageUrl?: string;
+}
+
+export interface OverlayTemplate {
+  id: string;
+  name: string;
+  layers: OverlayLayer[];
+}
+
+const STORAGE_KEY = 'emporio:overlay-templates';
+const LINE_HEIGHT = 1.2;
+const PADDING_X_EM = 0.5;
+const PADDING_Y_EM = 0.25;
+
+export const OVERLAY_FONTS: { id: OverlayFontId; labelKey: TranslationKey; family: string }[] = [
+  { id: 'sans', labelKey: 'overlay.fontSans', family: 'ui-sans-serif, system-ui, "Segoe UI", Roboto, sans-serif' },
+  { id: 'serif', labelKey: 'overlay.fontSerif', family: 'Georgia, "Times New Roman", serif' },
+  { id: 'script', labelKey: 'overlay.fontScript', family: '"Brush Script MT", "Segoe Script", cursive' },
+  { id: 'condensed', labelKey: 'overlay.fontCondensed', family: 'Impact, "Arial Narrow", sans-serif' },
+];
+
+// Badges end up printed on the image, so they follow the prompt language of the target market.
+export const getBadgePresets = (): string[] => getPromptTexts().badges;
+
+export const getFontFamily = (font: OverlayFontId): string =>
+  OVERLAY_FONTS.find(f => f.id === font)?.family ?? OVERLAY_FONTS[0].family;
+
+export const getFontWeight = (layer: OverlayLayer): number => layer.kind === 'text' ? 600 : 700;
+
+export const getBorderRadius = (layer: OverlayLayer): string => layer.kind === 'badge' ? '999px' : '0.3em';
+
+export const OVERLAY_PADDING = { x: PADDING_X_EM, y: PADDING_Y_EM, lineHeight: LINE_HEIGHT };
+
+let nextLayerId = 0;
+const createLayerId = () => `layer-${Date.now()}-${nextLayerId++}`;
+
+export const createOverlayLayer = (kind: OverlayKind, imageUrl?: string): OverlayLayer => {
+  const base = { id: createLayerId(), kind, x: 0.5, y: 0.5, font: 'sans' as OverlayFontId, opacity: 1 };
+  switch (kind) {
+    case 'price':
+      return { ...base, x: 0.78, y: 0.85, size: 0.07, text: 'R$ 24,90', color: '#ffffff', background: '#b45309' };
+    case 'badge':
+      return { ...base, x: 0.2, y: 0.12, size: 0.045, text: getBadgePresets()[0], color: '#ffffff', background: '#dc2626' };
+    case 'logo':
+      return { ...base, x: 0.88, y: 0.08, size: 0.18, text: '', color: '#000000', background: null, opacity: 0.85, imageUrl };
+    case 'text':
+    default:
+      return { ...base, y: 0.9, size: 0.06, text: getPromptTexts().overlayText, font: 'serif', color: '#ffffff', background: null };
+  }
+};
+
+export const cloneLayers = (layers: OverlayLayer[]): OverlayLayer[] => layers.map(layer => ({ ...layer, id: createLayerId() }));
+
+export const loadOverlayTemplates = (): OverlayTemplate[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed.filter(t => t && typeof t.name === 'string' && Array.isArray(t.layers)) : [];
+  } catch (error) {
+    console.error("Não foi possível carregar os modelos de sobreposição:", error);
+    return [];
+  }
+};
+
+export const saveOverlayTemplates = (templates: OverlayTemplate[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+  } catch (error) {
+    console.error("Não foi possível salvar os modelos de sobreposição:", error);
+    throw new Error(translate('overlay.templateSaveError'));
+  }
+};
+
+const drawTextLayer = (ctx: CanvasRenderingContext2D, layer: OverlayLayer, width: number, height: number) => {
+  const fontSize = layer.size * width;
+  const lines = layer.text.split('\n');
+  ctx.font = `${getFontWeight(layer)} ${fontSize}px ${getFontFamily(layer.font)}`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  const textWidth = Math.max(...lines.map(line => ctx.measureText(line).width));
+  const textHeight = lines.length * fontSize * LINE_HEIGHT;
+  const centerX = layer.x * width;
+  const centerY = layer.y * height;
+
+  if (layer.background) {
+    const boxWidth = textWidth + fontSize * PADDING_X_EM * 2;
+    const boxHeight = textHeight + fontSize * PADDING_Y_EM * 2;
+    const radius = layer.kind === 'badge' ? boxHeight / 2 : fontSize * 0.3;
+    ctx.fillStyle = layer.background;
+    ctx.beginPath();
+    ctx.roundRect(centerX - boxWidth / 2, centerY - boxHeight / 2, boxWidth, boxHeight, radius);
+    ctx.fill();
+  } else {
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.45)';
+    ctx.shadowBlur = fontSize * 0.15;
+  }
+
+  ctx.fillStyle = layer.color;
+  lines.forEach((line, index) => {
+    const lineY = centerY - textHeight / 2 + fontSize * LINE_HEIGHT * (index + 0.5);
+    ctx.fillText(line, centerX, lineY);
+  });
+};
+
+// Draws the overlay on top of the image at full resolution. Used only for downloads; overlays never reach the AI.
+export const renderOverlay = async (imageUrl: string, layers: OverlayLayer[]): Promise<string> => {
+  const img = await loadImage(imageUrl);
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(img, 0, 0);
+
+  for (const layer of layers) {
+    ctx.save();
+    ctx.globalAlpha = layer.opacity;
+    if (layer.kind === 'logo') {
+      if (layer.imageUrl) {
+        const logo = await loadImage(layer.imageUrl);
+        const logoWidth = layer.size * width;
+        const logoHeight = logoWidth * (logo.naturalHeight / logo.naturalWidth);
+        ctx.drawImage(logo, layer.x * width - logoWidth / 2, layer.y * height - logoHeight / 2, logoWidth, logoHeight);
+      }
+    } else {
+      drawTextLayer(ctx, layer, width, height);
+    }
+    ctx.restore();
+  }
+
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,185 @@
+import { createCanvas, findProductBounds, loadImage } from './imageUtils';
+import { getBaseFileName } from './downloadService';
+import { ImageGenerationError } from './imageErrors';
+import { translate } from './i18n';
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+// Crop rectangle in fractions (0–1) of the oriented and rotated image.
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PreparationOptions {
+  maxEdge: number;
+  rotation: Rotation;
+  crop: CropRect | null;
+}
+
+const STORAGE_KEY = 'emporio:preprocess-settings';
+const JPEG_QUALITY = 0.92;
+const PRODUCT_CROP_PADDING = 0.08;
+
+export const MAX_EDGE_OPTIONS = [1024, 1536, 2048, 3072];
+export const DEFAULT_MAX_EDGE = 2048;
+export const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+export const loadMaxEdge = (): number => {
+  try {
+    const stored = Number(localStorage.getItem(STORAGE_KEY));
+    return MAX_EDGE_OPTIONS.includes(stored) ? stored : DEFAULT_MAX_EDGE;
+  } catch (error) {
+    console.error("Não foi possível carregar as configurações de preparo:", error);
+    return DEFAULT_MAX_EDGE;
+  }
+};
+
+export const saveMaxEdge = (maxEdge: number) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, String(maxEdge));
+  } catch (error) {
+    console.error("Não foi possível salvar as configurações de preparo:", error);
+  }
+};
+
+export const createPreparationOptions = (): PreparationOptions => ({ maxEdge: loadMaxEdge(), rotation: 0, crop: null });
+
+// Reads the EXIF orientation tag (1–8) from a JPEG, or 1 when absent.
+export const readExifOrientation = async (file: Blob): Promise<number> => {
+  const view = new DataView(await file.slice(0, 128 * 1024).arrayBuffer());
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      const littleEndian = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+      const entries = view.getUint16(ifd, littleEndian);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 10 > view.byteLength) break;
+        if (view.getUint16(entry, littleEndian) === 0x0112) {
+          return view.getUint16(entry + 8, littleEndian);
+        }
+      }
+      return 1;
+    }
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break;
+    offset += 2 + length;
+  }
+  return 1;
+};
+
+// Modern browsers already apply EXIF orientation when decoding; older ones need it done by hand.
+const browserAppliesOrientation = (): boolean => typeof CSS !== 'undefined' && CSS.supports?.('image-orientation', 'from-image');
+
+const drawOriented = (img: HTMLImageElement, orientation: number): HTMLCanvasElement => {
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+  const swap = orientation >= 5;
+  const { canvas, ctx } = createCanvas(swap ? height : width, swap ? width : height);
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, height, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, height, width); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, width); break;
+  }
+  ctx.drawImage(img, 0, 0);
+  return canvas;
+};
+
+// Decodes any format the browser can read into an upright canvas.
+export const decodeImageFile = async (file: File): Promise<HTMLCanvasElement> => {
+  const objectUrl = URL.createObjectURL(file);
+  try {
+    const [img, orientation] = await Promise.all([loadImage(objectUrl), readExifOrientation(file)]);
+    return drawOriented(img, browserAppliesOrientation() ? 1 : orientation);
+  } catch (error) {
+    if (/hei[cf]/i.test(file.type) || /\.hei[cf]$/i.test(file.name)) {
+      throw new ImageGenerationError('invalid-input', translate('errors.heicUnsupported'), { cause: error });
+    }
+    throw new ImageGenerationError('invalid-input', translate('errors.unreadableImage', { name: file.name }), { cause: error });
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+};
+
+export const rotateCanvas = (source: HTMLCanvasElement, rotation: Rotation, maxEdge = Infinity): HTMLCanvasElement => {
+  const scale = Math.min(1, maxEdge / Math.max(source.width, source.height));
+  const width = Math.round(source.width * scale);
+  const height = Math.round(source.height * scale);
+  const swap = rotation === 90 || rotation === 270;
+  const { canvas, ctx } = createCanvas(swap ? height : width, swap ? width : height);
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate((rotation * Math.PI) / 180);
+  ctx.drawImage(source, -width / 2, -height / 2, width, height);
+  return canvas;
+};
+
+export const getPreparedSize = (sourceWidth: number, sourceHeight: number, { maxEdge, rotation, crop }: PreparationOptions) => {
+  const swap = rotation === 90 || rotation === 270;
+  const rect = crop ?? FULL_CROP;
+  const width = (swap ? sourceHeight : sourceWidth) * rect.width;
+  const height = (swap ? sourceWidth : sourceHeight) * rect.height;
+  const scale = Math.min(1, maxEdge / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+// Suggests a crop around the product, found by contrast against the border color.
+export const detectProductCrop = (canvas: HTMLCanvasElement): CropRect => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return FULL_CROP;
+  const { width, height } = canvas;
+  const bounds = findProductBounds(ctx.getImageData(0, 0, width, height).data, width, height);
+  if (!bounds.background) return FULL_CROP;
+
+  const padX = bounds.width * PRODUCT_CROP_PADDING;
+  const padY = bounds.height * PRODUCT_CROP_PADDING;
+  const x = Math.max(0, bounds.x - padX);
+  const y = Math.max(0, bounds.y - padY);
+  return {
+    x: x / width,
+    y: y / height,
+    width: (Math.min(width, bounds.x + bounds.width + padX) - x) / width,
+    height: (Math.min(height, bounds.y + bounds.height + padY) - y) / height,
+  };
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, mimeType: string): Promise<Blob> => new Promise((resolve, reject) => {
+  canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error(translate('errors.encodePrepared'))), mimeType, JPEG_QUALITY);
+});
+
+// Orients, rotates, crops and downscales a photo, re-encoding it as JPEG (or PNG to keep transparency).
+export const prepareImageFile = async (file: File, options: PreparationOptions, source?: HTMLCanvasElement): Promise<File> => {
+  const upright = rotateCanvas(source ?? await decodeImageFile(file), options.rotation);
+  const rect = options.crop ?? FULL_CROP;
+  const { width, height } = getPreparedSize(upright.width, upright.height, { ...options, rotation: 0 });
+
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(
+    upright,
+    rect.x * upright.width,
+    rect.y * upright.height,
+    rect.width * upright.width,
+    rect.height * upright.height,
+    0,
+    0,
+    width,
+    height,
+  );
+
+  const mimeType = file.type === 'image/png' ? 'image/png' : 'image/jpeg';
+  const blob = await canvasToBlob(canvas, mimeType);
+  const extension = mimeType === 'image/png' ? 'png' : 'jpg';
+  return new File([blob], `${getBaseFileName(file)}.${extension}`, { type: mimeType, lastModified: Date.now() });
+};
@@ -0,0 +1,63 @@
+import { getPromptTexts, translate } from './i18n';
+import { ptBRPrompts } from './i18n/locales/ptBR';
+
+export interface PromptPreset {
+  id: string;
+  label: string;
+  instruction: string;
+  builtIn?: boolean;
+}
+
+type BuiltInPresetId = keyof typeof ptBRPrompts.presets;
+
+const STORAGE_KEY = 'emporio:prompt-presets';
+
+const BUILT_IN_PRESET_IDS: BuiltInPresetId[] = ['background-surface', 'warm-light', 'fresh-ingredients', 'remove-props', 'top-down'];
+
+const isBuiltInPresetId = (id: string): id is BuiltInPresetId => (BUILT_IN_PRESET_IDS as string[]).includes(id);
+
+// Untouched built-in presets follow the current languages; once edited they keep the user's text.
+export const localizePreset = (preset: PromptPreset): PromptPreset => {
+  if (!preset.builtIn || !isBuiltInPresetId(preset.id)) return preset;
+  return { ...preset, label: translate(`preset.${preset.id}`), instruction: getPromptTexts().presets[preset.id] };
+};
+
+export const getDefaultPromptPresets = (): PromptPreset[] => {
+  return BUILT_IN_PRESET_IDS.map(id => localizePreset({ id, label: '', instruction: '', builtIn: true }));
+};
+
+export const createPresetId = (): string => `preset-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const loadPromptPresets = (): PromptPreset[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return getDefaultPromptPresets();
+    const parsed = JSON.parse(stored);
+    if (!Array.isArray(parsed)) return getDefaultPromptPresets();
+    return parsed
+      .filter(preset => preset && typeof preset.id === 'string' && typeof preset.label === 'string' && typeof preset.instruction === 'string')
+      // Presets saved before translation had no flag; unedited defaults still carry the original Portuguese instruction.
+      .map((preset: PromptPreset) => ({
+        ...preset,
+        builtIn: preset.builtIn ?? (isBuiltInPresetId(preset.id) && preset.instruction === ptBRPrompts.presets[preset.id]),
+      }));
+  } catch (error) {
+    console.error("Não foi possível carregar os atalhos de edição:", error);
+    return getDefaultPromptPresets();
+  }
+};
+
+export const savePromptPresets = (presets: PromptPreset[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  } catch (error) {
+    console.error("Não foi possível salvar os atalhos de edição:", error);
+  }
+};
+
+// Combines the selected presets (in library order) with the free text into the prompt sent to the AI.
+export const composeRefinementPrompt = (presets: PromptPreset[], freeText: string): string => {
+  const instructions = [...presets.map(preset => preset.instruction.trim()), freeText.trim()].filter(Boolean);
+  if (instructions.length <= 1) return instructions[0] ?? '';
+  return `${getPromptTexts().composedRefinement}\n${instructions.map((instruction, index) => `${index + 1}. ${instruction}`).join('\n')}`;
+};
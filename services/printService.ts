@@ -0,0 +1,131 @@
+import { crc32 } from './zipService';
+
+const INCHES_PER_METER = 1 / 0.0254;
+const JFIF_IDENTIFIER = [0x4a, 0x46, 0x49, 0x46, 0x00];
+
+const hasJfifHeader = (bytes: Uint8Array): boolean =>
+  bytes[2] === 0xff && bytes[3] === 0xe0 && JFIF_IDENTIFIER.every((byte, index) => bytes[6 + index] === byte);
+
+// Canvas JPEGs start with a JFIF APP0 segment whose density fields are rewritten in place; one is inserted if missing.
+const setJpegDpi = (bytes: Uint8Array, dpi: number): Blob => {
+  if (hasJfifHeader(bytes)) {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    view.setUint8(13, 1);
+    view.setUint16(14, dpi);
+    view.setUint16(16, dpi);
+    return new Blob([bytes], { type: 'image/jpeg' });
+  }
+  const segment = new Uint8Array(18);
+  const view = new DataView(segment.buffer);
+  view.setUint16(0, 0xffe0);
+  view.setUint16(2, 16);
+  segment.set(JFIF_IDENTIFIER, 4);
+  view.setUint16(9, 0x0102);
+  view.setUint8(11, 1);
+  view.setUint16(12, dpi);
+  view.setUint16(14, dpi);
+  return new Blob([bytes.subarray(0, 2), segment, bytes.subarray(2)], { type: 'image/jpeg' });
+};
+
+const createPhysChunk = (dpi: number): Uint8Array => {
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  const pixelsPerMeter = Math.round(dpi * INCHES_PER_METER);
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4);
+  view.setUint32(8, pixelsPerMeter);
+  view.setUint32(12, pixelsPerMeter);
+  view.setUint8(16, 1);
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+  return chunk;
+};
+
+// Replaces any pHYs chunk with one right after IHDR, in pixels per meter.
+const setPngDpi = (bytes: Uint8Array, dpi: number): Blob => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Uint8Array[] = [bytes.subarray(0, 8)];
+  let offset = 8;
+  while (offset < bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const end = offset + 12 + length;
+    if (type !== 'pHYs') chunks.push(bytes.subarray(offset, end));
+    if (type === 'IHDR') chunks.push(createPhysChunk(dpi));
+    offset = end;
+  }
+  return new Blob(chunks, { type: 'image/png' });
+};
+
+// WebP has no standard resolution field, so it is returned unchanged.
+export const setImageDpi = async (blob: Blob, dpi: number): Promise<Blob> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  if (blob.type === 'image/jpeg') return setJpegDpi(bytes, dpi);
+  if (blob.type === 'image/png') return setPngDpi(bytes, dpi);
+  return blob;
+};
+
+const TIFF_ENTRY_COUNT = 13;
+const TIFF_IFD_OFFSET = 8;
+const TIFF_IFD_SIZE = 2 + TIFF_ENTRY_COUNT * 12 + 4;
+const TIFF_BITS_OFFSET = TIFF_IFD_OFFSET + TIFF_IFD_SIZE;
+const TIFF_X_RESOLUTION_OFFSET = TIFF_BITS_OFFSET + 6;
+const TIFF_Y_RESOLUTION_OFFSET = TIFF_X_RESOLUTION_OFFSET + 8;
+const TIFF_DATA_OFFSET = TIFF_Y_RESOLUTION_OFFSET + 8;
+
+const SHORT = 3;
+const LONG = 4;
+const RATIONAL = 5;
+
+// Baseline TIFF: uncompressed 8-bit RGB in a single strip, which every print shop and layout tool reads.
+export const encodeTiff = (imageData: ImageData, dpi: number): Blob => {
+  const { width, height, data } = imageData;
+  const header = new Uint8Array(TIFF_DATA_OFFSET);
+  const view = new DataView(header.buffer);
+  view.setUint16(0, 0x4949);
+  view.setUint16(2, 42, true);
+  view.setUint32(4, TIFF_IFD_OFFSET, true);
+
+  // Tags must be written in ascending order.
+  const entries: [tag: number, type: number, count: number, value: number][] = [
+    [256, LONG, 1, width],
+    [257, LONG, 1, height],
+    [258, SHORT, 3, TIFF_BITS_OFFSET],
+    [259, SHORT, 1, 1],
+    [262, SHORT, 1, 2],
+    [273, LONG, 1, TIFF_DATA_OFFSET],
+    [277, SHORT, 1, 3],
+    [278, LONG, 1, height],
+    [279, LONG, 1, width * height * 3],
+    [282, RATIONAL, 1, TIFF_X_RESOLUTION_OFFSET],
+    [283, RATIONAL, 1, TIFF_Y_RESOLUTION_OFFSET],
+    [284, SHORT, 1, 1],
+    [296, SHORT, 1, 2],
+  ];
+  view.setUint16(TIFF_IFD_OFFSET, entries.length, true);
+  entries.forEach(([tag, type, count, value], index) => {
+    const entry = TIFF_IFD_OFFSET + 2 + index * 12;
+    view.setUint16(entry, tag, true);
+    view.setUint16(entry + 2, type, true);
+    view.setUint32(entry + 4, count, true);
+    if (type === SHORT && count === 1) {
+      view.setUint16(entry + 8, value, true);
+    } else {
+      view.setUint32(entry + 8, value, true);
+    }
+  });
+  view.setUint32(TIFF_IFD_OFFSET + 2 + entries.length * 12, 0, true);
+
+  [0, 2, 4].forEach(offset => view.setUint16(TIFF_BITS_OFFSET + offset, 8, true));
+  [TIFF_X_RESOLUTION_OFFSET, TIFF_Y_RESOLUTION_OFFSET].forEach(offset => {
+    view.setUint32(offset, dpi, true);
+    view.setUint32(offset + 4, 1, true);
+  });
+
+  const pixels = new Uint8Array(width * height * 3);
+  for (let source = 0, target = 0; source < data.length; source += 4, target += 3) {
+    pixels[target] = data[source];
+    pixels[target + 1] = data[source + 1];
+    pixels[target + 2] = data[source + 2];
+  }
+  return new Blob([header, pixels], { type: 'image/tiff' });
+};
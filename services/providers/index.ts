@@ -0,0 +1,21 @@
+import { ImageProvider, ImageProviderId } from './types';
+import { proxyProvider } from './proxyProvider';
+import { mockProvider } from './mockProvider';
+
+export * from './types';
+export * from './models';
+
+const providers: Record<ImageProviderId, ImageProvider> = {
+  proxy: proxyProvider,
+  mock: mockProvider,
+};
+
+export const getImageProviderId = (): ImageProviderId => {
+  const configured = process.env.IMAGE_PROVIDER as ImageProviderId | undefined;
+  if (configured && configured in providers) {
+    return configured;
+  }
+  return 'proxy';
+};
+
+export const getImageProvider = (): ImageProvider => providers[getImageProviderId()];
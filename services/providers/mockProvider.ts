@@ -0,0 +1,55 @@
+import { ImageProvider } from './types';
+import { createCanvas, loadImage } from '../imageUtils';
+import { sleep } from '../requestPipeline';
+import { translate } from '../i18n';
+
+const MOCK_SIZE = 1024;
+const MOCK_DELAY_MS = 600;
+
+const hashString = (value: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+const getCanvasSize = (aspectRatio?: string): { width: number; height: number } => {
+  const [w, h] = (aspectRatio || '1:1').split(':').map(Number);
+  if (!w || !h) return { width: MOCK_SIZE, height: MOCK_SIZE };
+  return w >= h
+    ? { width: MOCK_SIZE, height: Math.round((MOCK_SIZE * h) / w) }
+    : { width: Math.round((MOCK_SIZE * w) / h), height: MOCK_SIZE };
+};
+
+export const mockProvider: ImageProvider = {
+  id: 'mock',
+  getModel: () => 'mock',
+  generate: async ({ images, prompt, variation, aspectRatio, seed, seedFixed }, signal) => {
+    await sleep(MOCK_DELAY_MS * (1 + variation * 0.5), signal);
+
+    const { width: canvasWidth, height: canvasHeight } = getCanvasSize(aspectRatio);
+    const { canvas, ctx } = createCanvas(canvasWidth, canvasHeight);
+
+    // Random seeds would make every run look different; only a fixed seed changes the render.
+    const hue = (hashString(prompt) + (seedFixed && seed !== undefined ? seed : variation) * 47) % 360;
+    ctx.fillStyle = `hsl(${hue}, 45%, 92%)`;
+    ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+
+    if (images.length > 0) {
+      const img = await loadImage(`data:${images[0].mimeType};base64,${images[0].data}`);
+      const scale = Math.min((canvasWidth * 0.75) / img.width, (canvasHeight * 0.75) / img.height);
+      const width = img.width * scale;
+      const height = img.height * scale;
+      ctx.drawImage(img, (canvasWidth - width) / 2, (canvasHeight - height) / 2, width, height);
+    }
+
+    ctx.fillStyle = `hsl(${hue}, 45%, 30%)`;
+    ctx.font = '600 32px Inter, sans-serif';
+    ctx.textAlign = 'center';
+    ctx.fillText(translate('providers.mockVariation', { number: variation + 1 }), canvasWidth / 2, canvasHeight - 40);
+
+    return { imageUrls: [canvas.toDataURL('image/png')] };
+  },
+};
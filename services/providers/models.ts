@@ -0,0 +1,15 @@
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash-image';
+
+export interface GenerationModel {
+  id: string;
+  label: string;
+}
+
+// Models the proxy accepts from the settings panel; anything else falls back to the server's GEMINI_MODEL.
+export const GENERATION_MODELS: GenerationModel[] = [
+  { id: 'gemini-2.5-flash-image', label: 'Gemini 2.5 Flash Image' },
+  { id: 'gemini-2.5-flash-image-preview', label: 'Gemini 2.5 Flash Image (preview)' },
+];
+
+export const isGenerationModel = (model: unknown): model is string =>
+  typeof model === 'string' && GENERATION_MODELS.some(option => option.id === model);
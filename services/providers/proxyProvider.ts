@@ -0,0 +1,42 @@
+import { ImageProvider } from './types';
+import { ImageGenerationError, describeErrorCode, isImageErrorKind } from '../imageErrors';
+import { DEFAULT_GEMINI_MODEL } from './models';
+import { TranslationParams, isTranslationKey, translate } from '../i18n';
+
+// Same origin by default: `npm run dev` forwards /api to the proxy and the proxy serves the built app.
+const PROXY_URL = process.env.PROXY_URL || '';
+
+let lastModel = DEFAULT_GEMINI_MODEL;
+
+export const proxyProvider: ImageProvider = {
+  id: 'proxy',
+  getModel: () => lastModel,
+  generate: async ({ operation, ...request }, signal) => {
+    const response = await fetch(`${PROXY_URL}/api/${operation === 'refinement' ? 'refine' : 'generate'}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+      signal,
+    });
+    const body = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      const error = body?.error;
+      const params: TranslationParams | undefined = error?.params && typeof error.params === 'object' ? error.params : undefined;
+      const message = isTranslationKey(error?.code)
+        ? describeErrorCode(error.code, params)
+        : error?.message ?? translate('errors.serverStatus', { status: response.status });
+      throw new ImageGenerationError(
+        isImageErrorKind(error?.kind) ? error.kind : 'unknown',
+        message,
+        { reason: error?.reason, status: response.status, code: isTranslationKey(error?.code) ? error.code : undefined, params },
+      );
+    }
+    if (!body || !Array.isArray(body.imageUrls)) {
+      throw new ImageGenerationError('empty-response', translate('errors.noImages'));
+    }
+
+    if (typeof body.model === 'string') lastModel = body.model;
+    return { imageUrls: body.imageUrls, usage: body.usage, model: body.model };
+  },
+};
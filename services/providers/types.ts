@@ -0,0 +1,39 @@
+export interface InlineImage {
+  data: string;
+  mimeType: string;
+}
+
+export interface ImageGenerationRequest {
+  operation?: 'generation' | 'refinement' | 'kit';
+  images: InlineImage[];
+  prompt: string;
+  variation: number;
+  aspectRatio?: string;
+  mask?: InlineImage;
+  // Optional tuning; providers that don't support a parameter ignore it.
+  model?: string;
+  temperature?: number;
+  seed?: number;
+  // True when the user fixed the seed; otherwise `seed` is random and only recorded so a result can be reproduced.
+  seedFixed?: boolean;
+}
+
+export interface UsageMetadata {
+  promptTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+}
+
+export interface ImageGenerationResult {
+  imageUrls: string[];
+  usage?: UsageMetadata;
+  model?: string;
+}
+
+export interface ImageProvider {
+  id: ImageProviderId;
+  getModel: () => string;
+  generate: (request: ImageGenerationRequest, signal?: AbortSignal) => Promise<ImageGenerationResult>;
+}
+
+export type ImageProviderId = 'proxy' | 'mock';
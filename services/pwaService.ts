@@ -0,0 +1,43 @@
+const SHARE_CACHE = 'emporio-share';
+export const SHARE_TARGET_PARAM = 'share-target';
+
+// The dev server serves modules that change on every edit, so the worker only runs in production builds.
+export const registerServiceWorker = (): void => {
+  if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      console.error("Não foi possível registrar o service worker:", error);
+    });
+  });
+};
+
+export const isShareTargetLaunch = (): boolean =>
+  new URLSearchParams(window.location.search).has(SHARE_TARGET_PARAM);
+
+// Reads the photos public/sw.js parked from the OS share sheet and empties the cache.
+export const takeSharedFiles = async (): Promise<File[]> => {
+  if (!('caches' in window)) return [];
+  try {
+    const cache = await caches.open(SHARE_CACHE);
+    const requests = await cache.keys();
+    const files: File[] = [];
+    for (const request of requests) {
+      const response = await cache.match(request);
+      if (!response) continue;
+      const blob = await response.blob();
+      const name = decodeURIComponent(response.headers.get('x-file-name') || 'foto.jpg');
+      files.push(new File([blob], name, { type: blob.type || response.headers.get('content-type') || 'image/jpeg' }));
+    }
+    await caches.delete(SHARE_CACHE);
+    return files;
+  } catch (error) {
+    console.error("Não foi possível ler as fotos compartilhadas:", error);
+    return [];
+  }
+};
+
+export const clearShareTargetParam = (): void => {
+  const url = new URL(window.location.href);
+  url.searchParams.delete(SHARE_TARGET_PARAM);
+  window.history.replaceState(null, '', `${url.pathname}${url.search}${url.hash}`);
+};
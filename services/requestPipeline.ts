@@ -0,0 +1,101 @@
+import { translate } from './i18n';
+
+export const DEFAULT_TIMEOUT_MS = 90_000;
+export const DEFAULT_MAX_RETRIES = 3;
+export const DEFAULT_BASE_DELAY_MS = 1_000;
+
+export interface RetryOptions {
+  timeoutMs?: number;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  signal?: AbortSignal;
+}
+
+export class TimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(translate('errors.timeout', { seconds: Math.round(timeoutMs / 1000) }));
+    this.name = 'TimeoutError';
+  }
+}
+
+export const createAbortError = () => new DOMException(translate('errors.cancelled'), 'AbortError');
+
+export const isAbortError = (error: unknown): boolean => error instanceof DOMException && error.name === 'AbortError';
+
+const RETRYABLE_STATUS = /\b(429|500|502|503|504)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|INTERNAL|DEADLINE_EXCEEDED/;
+
+const PERMANENT_ERROR_KINDS = ['invalid-key', 'safety', 'invalid-input', 'budget'];
+
+export const isRetryableError = (error: unknown): boolean => {
+  if (isAbortError(error)) return false;
+  const kind = (error as { kind?: unknown })?.kind;
+  if (typeof kind === 'string' && PERMANENT_ERROR_KINDS.includes(kind)) return false;
+  if (error instanceof TimeoutError) return true;
+  if (error instanceof TypeError) return true;
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') {
+    return status === 429 || status >= 500;
+  }
+  return error instanceof Error && RETRYABLE_STATUS.test(error.message);
+};
+
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(createAbortError());
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(createAbortError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const runAttempt = <T>(task: (signal: AbortSignal) => Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> => {
+  const controller = new AbortController();
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      controller.abort();
+      reject(new TimeoutError(timeoutMs));
+    }, timeoutMs);
+    const onAbort = () => {
+      controller.abort();
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    task(controller.signal)
+      .then(resolve, reject)
+      .finally(() => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      });
+  });
+};
+
+// Runs `task` with a per-attempt timeout, retrying rate-limit, server and network errors with exponential backoff.
+export const runWithRetry = async <T>(task: (signal: AbortSignal) => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const {
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    maxRetries = DEFAULT_MAX_RETRIES,
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+    signal,
+  } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw createAbortError();
+    try {
+      return await runAttempt(task, timeoutMs, signal);
+    } catch (error) {
+      if (signal?.aborted) throw createAbortError();
+      if (attempt >= maxRetries || !isRetryableError(error)) throw error;
+      const delay = baseDelayMs * 2 ** attempt + Math.random() * baseDelayMs;
+      console.warn(`Tentativa ${attempt + 1} falhou, tentando novamente em ${Math.round(delay)}ms:`, error);
+      await sleep(delay, signal);
+    }
+  }
+};
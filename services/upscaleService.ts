@@ -0,0 +1,343 @@
+import { createCanvas, loadImage } from './imageUtils';
+import { TranslationKey, getLanguage, translate } from './i18n';
+
+export interface ImageResolution {
+  width: number;
+  height: number;
+}
+
+export interface UpscaleTarget {
+  id: string;
+  labelKey: TranslationKey;
+  factor?: number;
+  // Short and long edge in centimeters; the orientation follows the image.
+  printCm?: [number, number];
+}
+
+// `sharpen` is the unsharp-mask amount, 0 turns it off.
+export interface UpscaleSettings {
+  targetId: string;
+  sharpen: number;
+  dpi: number;
+}
+
+const STORAGE_KEY = 'emporio:upscale-settings';
+const CM_PER_INCH = 2.54;
+
+export const PRINT_DPI = 300;
+export const MIN_DPI = 72;
+export const MAX_DPI = 1200;
+export const MAX_SHARPEN = 1.5;
+// The prompts ask the model for 2048px; smaller results were shrunk on its side.
+export const REQUESTED_EDGE = 2048;
+// Bigger canvases fail to allocate on most phones and many desktop GPUs.
+export const MAX_UPSCALE_EDGE = 8192;
+
+export const UPSCALE_TARGETS: UpscaleTarget[] = [
+  { id: 'none', labelKey: 'upscale.none' },
+  { id: '2x', labelKey: 'upscale.double', factor: 2 },
+  { id: '4x', labelKey: 'upscale.quadruple', factor: 4 },
+  { id: 'shelf-label', labelKey: 'upscale.shelfLabel', printCm: [4, 6] },
+  { id: 'photo-10x15', labelKey: 'upscale.photo', printCm: [10, 15] },
+  { id: 'a5', labelKey: 'upscale.a5', printCm: [14.8, 21] },
+  { id: 'a4', labelKey: 'upscale.a4', printCm: [21, 29.7] },
+];
+
+export const DEFAULT_UPSCALE_SETTINGS: UpscaleSettings = {
+  targetId: 'none',
+  sharpen: 0,
+  dpi: PRINT_DPI,
+};
+
+export const sanitizeUpscaleSettings = (settings: Partial<UpscaleSettings>): UpscaleSettings => ({
+  targetId: UPSCALE_TARGETS.some(target => target.id === settings.targetId) ? settings.targetId as string : DEFAULT_UPSCALE_SETTINGS.targetId,
+  sharpen: typeof settings.sharpen === 'number' && Number.isFinite(settings.sharpen)
+    ? Math.min(MAX_SHARPEN, Math.max(0, settings.sharpen))
+    : DEFAULT_UPSCALE_SETTINGS.sharpen,
+  dpi: Number.isInteger(settings.dpi) ? Math.min(MAX_DPI, Math.max(MIN_DPI, settings.dpi as number)) : DEFAULT_UPSCALE_SETTINGS.dpi,
+});
+
+export const loadUpscaleSettings = (): UpscaleSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? sanitizeUpscaleSettings(JSON.parse(stored)) : DEFAULT_UPSCALE_SETTINGS;
+  } catch (error) {
+    console.error("Não foi possível carregar as configurações de ampliação:", error);
+    return DEFAULT_UPSCALE_SETTINGS;
+  }
+};
+
+export const saveUpscaleSettings = (settings: UpscaleSettings): UpscaleSettings => {
+  const sanitized = sanitizeUpscaleSettings(settings);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sanitized));
+  } catch (error) {
+    console.error("Não foi possível salvar as configurações de ampliação:", error);
+  }
+  return sanitized;
+};
+
+export const getUpscaleTarget = (id: string): UpscaleTarget =>
+  UPSCALE_TARGETS.find(target => target.id === id) ?? UPSCALE_TARGETS[0];
+
+export const isUpscaleActive = (settings: UpscaleSettings): boolean =>
+  settings.targetId !== 'none' || settings.sharpen > 0;
+
+export const measureResolution = async (dataUrl: string): Promise<ImageResolution> => {
+  const img = await loadImage(dataUrl);
+  return { width: img.naturalWidth, height: img.naturalHeight };
+};
+
+export const getPrintSizeCm = (resolution: ImageResolution, dpi: number): ImageResolution => ({
+  width: (resolution.width / dpi) * CM_PER_INCH,
+  height: (resolution.height / dpi) * CM_PER_INCH,
+});
+
+export const formatCm = (value: number): string => value.toLocaleString(getLanguage(), { maximumFractionDigits: 1 });
+
+export const isBelowRequested = (resolution: ImageResolution): boolean =>
+  Math.max(resolution.width, resolution.height) < REQUESTED_EDGE;
+
+// Print sizes are fitted inside the paper, so the whole product is printed at the chosen DPI.
+export const resolveUpscaleSize = (source: ImageResolution, settings: UpscaleSettings): ImageResolution => {
+  const target = getUpscaleTarget(settings.targetId);
+  let scale = target.factor ?? 1;
+  if (target.printCm) {
+    const [shortCm, longCm] = target.printCm;
+    const landscape = source.width > source.height;
+    const width = ((landscape ? longCm : shortCm) / CM_PER_INCH) * settings.dpi;
+    const height = ((landscape ? shortCm : longCm) / CM_PER_INCH) * settings.dpi;
+    scale = Math.min(width / source.width, height / source.height);
+  }
+  scale = Math.min(scale, MAX_UPSCALE_EDGE / Math.max(source.width, source.height));
+  return {
+    width: Math.max(1, Math.round(source.width * scale)),
+    height: Math.max(1, Math.round(source.height * scale)),
+  };
+};
+
+const VERTEX_SHADER = `
+attribute vec2 a_position;
+uniform bool u_flipY;
+varying vec2 v_uv;
+void main() {
+  v_uv = a_position * 0.5 + 0.5;
+  if (u_flipY) v_uv.y = 1.0 - v_uv.y;
+  gl_Position = vec4(a_position, 0.0, 1.0);
+}`;
+
+// Separable Lanczos-3: one pass per axis, six taps each.
+const LANCZOS_SHADER = `
+precision highp float;
+uniform sampler2D u_source;
+uniform vec2 u_sourceSize;
+uniform vec2 u_direction;
+varying vec2 v_uv;
+const float PI = 3.141592653589793;
+float lanczos3(float x) {
+  x = abs(x);
+  if (x < 1e-5) return 1.0;
+  if (x >= 3.0) return 0.0;
+  float px = PI * x;
+  return 3.0 * sin(px) * sin(px / 3.0) / (px * px);
+}
+void main() {
+  vec2 position = v_uv * u_sourceSize - 0.5;
+  float center = dot(position, u_direction);
+  float first = floor(center) - 2.0;
+  vec4 color = vec4(0.0);
+  float total = 0.0;
+  for (int i = 0; i < 6; i++) {
+    float tap = first + float(i);
+    float weight = lanczos3(center - tap);
+    vec2 texel = position + u_direction * (tap - center);
+    color += texture2D(u_source, (texel + 0.5) / u_sourceSize) * weight;
+    total += weight;
+  }
+  gl_FragColor = clamp(color / total, 0.0, 1.0);
+}`;
+
+// Unsharp mask against a 3x3 Gaussian whose radius grows with the upscale factor.
+const SHARPEN_SHADER = `
+precision highp float;
+uniform sampler2D u_source;
+uniform vec2 u_sourceSize;
+uniform float u_amount;
+uniform float u_radius;
+varying vec2 v_uv;
+void main() {
+  vec2 offset = u_radius / u_sourceSize;
+  vec4 center = texture2D(u_source, v_uv);
+  vec4 edges = texture2D(u_source, v_uv + vec2(offset.x, 0.0)) + texture2D(u_source, v_uv - vec2(offset.x, 0.0))
+    + texture2D(u_source, v_uv + vec2(0.0, offset.y)) + texture2D(u_source, v_uv - vec2(0.0, offset.y));
+  vec4 corners = texture2D(u_source, v_uv + offset) + texture2D(u_source, v_uv - offset)
+    + texture2D(u_source, v_uv + vec2(offset.x, -offset.y)) + texture2D(u_source, v_uv + vec2(-offset.x, offset.y));
+  vec3 blur = (center.rgb * 4.0 + edges.rgb * 2.0 + corners.rgb) / 16.0;
+  gl_FragColor = vec4(clamp(center.rgb + (center.rgb - blur) * u_amount, 0.0, 1.0), center.a);
+}`;
+
+const attachShader = (gl: WebGLRenderingContext, program: WebGLProgram, type: number, source: string) => {
+  const shader = gl.createShader(type);
+  if (!shader) throw new Error('WebGL shader');
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    throw new Error(gl.getShaderInfoLog(shader) || 'WebGL shader');
+  }
+  gl.attachShader(program, shader);
+};
+
+const compileProgram = (gl: WebGLRenderingContext, fragmentSource: string): WebGLProgram => {
+  const program = gl.createProgram();
+  if (!program) throw new Error('WebGL program');
+  attachShader(gl, program, gl.VERTEX_SHADER, VERTEX_SHADER);
+  attachShader(gl, program, gl.FRAGMENT_SHADER, fragmentSource);
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(gl.getProgramInfoLog(program) || 'WebGL program');
+  }
+  return program;
+};
+
+const createTexture = (gl: WebGLRenderingContext, width: number, height: number, source?: TexImageSource): WebGLTexture => {
+  const texture = gl.createTexture();
+  if (!texture) throw new Error('WebGL texture');
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  if (source) {
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+  } else {
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+  }
+  return texture;
+};
+
+const renderWithWebGL = (source: HTMLImageElement | HTMLCanvasElement, sourceSize: ImageResolution, size: ImageResolution, sharpen: number): HTMLCanvasElement => {
+  const glCanvas = document.createElement('canvas');
+  glCanvas.width = size.width;
+  glCanvas.height = size.height;
+  const gl = glCanvas.getContext('webgl', { premultipliedAlpha: false, preserveDrawingBuffer: true });
+  if (!gl) throw new Error('WebGL unavailable');
+
+  try {
+    const maxSize = Math.min(gl.getParameter(gl.MAX_TEXTURE_SIZE), gl.getParameter(gl.MAX_RENDERBUFFER_SIZE));
+    if (Math.max(size.width, size.height, sourceSize.width, sourceSize.height) > maxSize) {
+      throw new Error(`WebGL limit ${maxSize}px`);
+    }
+
+    const buffer = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, -1, 1, 1, -1, 1, 1]), gl.STATIC_DRAW);
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, false);
+
+    const lanczos = compileProgram(gl, LANCZOS_SHADER);
+    const sharpenProgram = sharpen > 0 ? compileProgram(gl, SHARPEN_SHADER) : null;
+
+    // Each pass reads `input` (of `inputSize`) and draws into a new texture, or the canvas for the last one.
+    const runPass = (program: WebGLProgram, input: WebGLTexture, inputSize: ImageResolution, outputSize: ImageResolution, isLast: boolean, uniforms: (program: WebGLProgram) => void): WebGLTexture | null => {
+      let output: WebGLTexture | null = null;
+      if (isLast) {
+        gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+      } else {
+        output = createTexture(gl, outputSize.width, outputSize.height);
+        const framebuffer = gl.createFramebuffer();
+        gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+        gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, output, 0);
+      }
+      gl.viewport(0, 0, outputSize.width, outputSize.height);
+      gl.useProgram(program);
+      const position = gl.getAttribLocation(program, 'a_position');
+      gl.enableVertexAttribArray(position);
+      gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+      gl.activeTexture(gl.TEXTURE0);
+      gl.bindTexture(gl.TEXTURE_2D, input);
+      gl.uniform1i(gl.getUniformLocation(program, 'u_source'), 0);
+      gl.uniform2f(gl.getUniformLocation(program, 'u_sourceSize'), inputSize.width, inputSize.height);
+      gl.uniform1i(gl.getUniformLocation(program, 'u_flipY'), isLast ? 1 : 0);
+      uniforms(program);
+      gl.drawArrays(gl.TRIANGLES, 0, 6);
+      return output;
+    };
+
+    const sourceTexture = createTexture(gl, sourceSize.width, sourceSize.height, source);
+    const horizontalSize = { width: size.width, height: sourceSize.height };
+    const horizontal = runPass(lanczos, sourceTexture, sourceSize, horizontalSize, false, program => {
+      gl.uniform2f(gl.getUniformLocation(program, 'u_direction'), 1, 0);
+    });
+    const vertical = runPass(lanczos, horizontal!, horizontalSize, size, !sharpenProgram, program => {
+      gl.uniform2f(gl.getUniformLocation(program, 'u_direction'), 0, 1);
+    });
+    if (sharpenProgram) {
+      runPass(sharpenProgram, vertical!, size, size, true, program => {
+        gl.uniform1f(gl.getUniformLocation(program, 'u_amount'), sharpen);
+        gl.uniform1f(gl.getUniformLocation(program, 'u_radius'), Math.max(1, size.width / sourceSize.width));
+      });
+    }
+
+    const { canvas, ctx } = createCanvas(size.width, size.height);
+    ctx.drawImage(glCanvas, 0, 0);
+    return canvas;
+  } finally {
+    gl.getExtension('WEBGL_lose_context')?.loseContext();
+  }
+};
+
+// Used without WebGL: the browser's own resampling plus the same unsharp mask on the CPU.
+const renderWithCanvas = (source: HTMLImageElement | HTMLCanvasElement, sourceSize: ImageResolution, size: ImageResolution, sharpen: number): HTMLCanvasElement => {
+  const { canvas, ctx } = createCanvas(size.width, size.height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, size.width, size.height);
+  if (sharpen <= 0) return canvas;
+
+  const radius = Math.max(1, Math.round(size.width / sourceSize.width));
+  const imageData = ctx.getImageData(0, 0, size.width, size.height);
+  const original = new Uint8ClampedArray(imageData.data);
+  const { data, width, height } = imageData;
+  const sample = (x: number, y: number, channel: number) =>
+    original[(Math.min(height - 1, Math.max(0, y)) * width + Math.min(width - 1, Math.max(0, x))) * 4 + channel];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      for (let channel = 0; channel < 3; channel++) {
+        const center = original[i + channel];
+        const blur = (center * 4
+          + (sample(x + radius, y, channel) + sample(x - radius, y, channel) + sample(x, y + radius, channel) + sample(x, y - radius, channel)) * 2
+          + sample(x + radius, y + radius, channel) + sample(x - radius, y - radius, channel) + sample(x + radius, y - radius, channel) + sample(x - radius, y + radius, channel)) / 16;
+        data[i + channel] = center + (center - blur) * sharpen;
+      }
+    }
+  }
+  ctx.putImageData(imageData, 0, 0);
+  return canvas;
+};
+
+export const upscaleImage = async (dataUrl: string, settings: UpscaleSettings): Promise<HTMLCanvasElement> => {
+  const img = await loadImage(dataUrl);
+  let source: HTMLImageElement | HTMLCanvasElement = img;
+  let sourceSize: ImageResolution = { width: img.naturalWidth, height: img.naturalHeight };
+  const size = resolveUpscaleSize(sourceSize, settings);
+
+  // Lanczos taps are spaced for enlarging; small print sizes are reduced by the browser first.
+  if (size.width < sourceSize.width) {
+    const reduced = createCanvas(size.width, size.height);
+    reduced.ctx.imageSmoothingQuality = 'high';
+    reduced.ctx.drawImage(img, 0, 0, size.width, size.height);
+    source = reduced.canvas;
+    sourceSize = size;
+  }
+
+  try {
+    return renderWithWebGL(source, sourceSize, size, settings.sharpen);
+  } catch (error) {
+    console.error("Ampliação por WebGL indisponível, usando o canvas:", error);
+  }
+  try {
+    return renderWithCanvas(source, sourceSize, size, settings.sharpen);
+  } catch (error) {
+    console.error(error);
+    throw new Error(translate('upscale.error'));
+  }
+};
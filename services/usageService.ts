@@ -0,0 +1,201 @@
+import { UsageMetadata } from './providers';
+
+export type UsageOperation = 'generation' | 'refinement' | 'kit';
+
+export type BudgetAction = 'warn' | 'block';
+
+export interface UsageRecord {
+  id: string;
+  timestamp: number;
+  operation: UsageOperation;
+  modeId: string | null;
+  provider: string;
+  model: string;
+  latencyMs: number;
+  success: boolean;
+  imageCount: number;
+  usage: UsageMetadata | null;
+  estimatedCostUsd: number;
+  error?: string;
+}
+
+export type NewUsageRecord = Omit<UsageRecord, 'id' | 'timestamp' | 'estimatedCostUsd'>;
+
+export interface UsageSettings {
+  monthlyBudgetUsd: number | null;
+  budgetAction: BudgetAction;
+}
+
+export interface BudgetStatus {
+  spentUsd: number;
+  budgetUsd: number | null;
+  ratio: number;
+  nearLimit: boolean;
+  exceeded: boolean;
+  blocked: boolean;
+}
+
+export interface DailyUsage {
+  day: string;
+  calls: number;
+  failures: number;
+  costUsd: number;
+}
+
+export interface UsageSummary {
+  calls: number;
+  failures: number;
+  failureRate: number;
+  averageLatencyMs: number;
+  costUsd: number;
+}
+
+interface ModelPricing {
+  inputPerMillionTokens: number;
+  outputPerMillionTokens: number;
+  // Used when the API does not report token counts.
+  perImage: number;
+}
+
+const LOG_KEY = 'emporio:usage-log';
+const SETTINGS_KEY = 'emporio:usage-settings';
+const RETENTION_DAYS = 180;
+const NEAR_LIMIT_RATIO = 0.8;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Public list prices in USD; the dashboard labels every value as an estimate.
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gemini-2.5-flash-image': { inputPerMillionTokens: 0.3, outputPerMillionTokens: 30, perImage: 0.039 },
+  'gemini-2.5-flash-image-preview': { inputPerMillionTokens: 0.3, outputPerMillionTokens: 30, perImage: 0.039 },
+  mock: { inputPerMillionTokens: 0, outputPerMillionTokens: 0, perImage: 0 },
+};
+const DEFAULT_PRICING = MODEL_PRICING['gemini-2.5-flash-image'];
+
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = {
+  monthlyBudgetUsd: null,
+  budgetAction: 'warn',
+};
+
+let records: UsageRecord[] | null = null;
+
+const getRecords = (): UsageRecord[] => {
+  if (!records) {
+    try {
+      const stored = localStorage.getItem(LOG_KEY);
+      const parsed = stored ? JSON.parse(stored) : [];
+      records = Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.error("Não foi possível carregar o registro de uso:", error);
+      records = [];
+    }
+  }
+  return records;
+};
+
+const persistRecords = () => {
+  try {
+    localStorage.setItem(LOG_KEY, JSON.stringify(getRecords()));
+  } catch (error) {
+    console.error("Não foi possível salvar o registro de uso:", error);
+  }
+};
+
+export const estimateCost = (model: string, usage: UsageMetadata | null, imageCount: number, success: boolean): number => {
+  if (!success) return 0;
+  const pricing = MODEL_PRICING[model] ?? DEFAULT_PRICING;
+  if (usage?.outputTokens === undefined) return pricing.perImage * imageCount;
+  return ((usage.promptTokens ?? 0) * pricing.inputPerMillionTokens + usage.outputTokens * pricing.outputPerMillionTokens) / 1_000_000;
+};
+
+export const recordUsage = (entry: NewUsageRecord) => {
+  const now = Date.now();
+  const record: UsageRecord = {
+    ...entry,
+    id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    timestamp: now,
+    estimatedCostUsd: estimateCost(entry.model, entry.usage, entry.imageCount, entry.success),
+  };
+  records = [...getRecords().filter(r => now - r.timestamp < RETENTION_DAYS * DAY_MS), record];
+  persistRecords();
+};
+
+export const getUsageRecords = (): UsageRecord[] => getRecords();
+
+export const clearUsageRecords = () => {
+  records = [];
+  persistRecords();
+};
+
+export const loadUsageSettings = (): UsageSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...DEFAULT_USAGE_SETTINGS, ...JSON.parse(stored) } : DEFAULT_USAGE_SETTINGS;
+  } catch (error) {
+    console.error("Não foi possível carregar as configurações de uso:", error);
+    return DEFAULT_USAGE_SETTINGS;
+  }
+};
+
+export const saveUsageSettings = (settings: UsageSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Não foi possível salvar as configurações de uso:", error);
+  }
+};
+
+const startOfMonth = (date = new Date()) => new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+
+export const getMonthlySpend = (date = new Date()): number => {
+  const start = startOfMonth(date);
+  return getRecords().filter(r => r.timestamp >= start).reduce((total, r) => total + r.estimatedCostUsd, 0);
+};
+
+export const getBudgetStatus = (settings = loadUsageSettings()): BudgetStatus => {
+  const spentUsd = getMonthlySpend();
+  const budgetUsd = settings.monthlyBudgetUsd && settings.monthlyBudgetUsd > 0 ? settings.monthlyBudgetUsd : null;
+  const ratio = budgetUsd ? spentUsd / budgetUsd : 0;
+  const exceeded = budgetUsd !== null && spentUsd >= budgetUsd;
+  return {
+    spentUsd,
+    budgetUsd,
+    ratio,
+    nearLimit: budgetUsd !== null && ratio >= NEAR_LIMIT_RATIO,
+    exceeded,
+    blocked: exceeded && settings.budgetAction === 'block',
+  };
+};
+
+export const summarizeUsage = (list: UsageRecord[]): UsageSummary => {
+  const failures = list.filter(r => !r.success).length;
+  return {
+    calls: list.length,
+    failures,
+    failureRate: list.length ? failures / list.length : 0,
+    averageLatencyMs: list.length ? list.reduce((total, r) => total + r.latencyMs, 0) / list.length : 0,
+    costUsd: list.reduce((total, r) => total + r.estimatedCostUsd, 0),
+  };
+};
+
+const toDayKey = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+export const getDailyUsage = (days: number, now = Date.now()): DailyUsage[] => {
+  const byDay = new Map<string, DailyUsage>();
+  for (let i = days - 1; i >= 0; i--) {
+    const day = toDayKey(now - i * DAY_MS);
+    byDay.set(day, { day, calls: 0, failures: 0, costUsd: 0 });
+  }
+  getRecords().forEach(record => {
+    const entry = byDay.get(toDayKey(record.timestamp));
+    if (!entry) return;
+    entry.calls++;
+    if (!record.success) entry.failures++;
+    entry.costUsd += record.estimatedCostUsd;
+  });
+  return Array.from(byDay.values());
+};
+
+export const formatUsd = (value: number): string => `US$ ${value.toFixed(value < 1 ? 3 : 2)}`;
@@ -0,0 +1,83 @@
+import { translate } from './i18n';
+
+export interface VersionNode {
+  id: string;
+  parentId: string | null;
+  imageUrl: string;
+  prompt: string | null;
+  // Seed the provider used for this image, when known, so it can be reproduced.
+  seed?: number;
+  childIds: string[];
+  createdAt: number;
+}
+
+export interface VersionTree {
+  rootId: string;
+  nodes: Record<string, VersionNode>;
+}
+
+let nextNodeId = 0;
+
+const createNode = (imageUrl: string, parentId: string | null, prompt: string | null, seed?: number): VersionNode => ({
+  id: `v${nextNodeId++}`,
+  parentId,
+  imageUrl,
+  prompt,
+  ...(seed !== undefined ? { seed } : {}),
+  childIds: [],
+  createdAt: Date.now(),
+});
+
+export const createVersionTree = (originalImageUrl: string): VersionTree => {
+  const root = createNode(originalImageUrl, null, null);
+  return { rootId: root.id, nodes: { [root.id]: root } };
+};
+
+export const addVersionChildren = (
+  tree: VersionTree,
+  parentId: string,
+  imageUrls: string[],
+  prompt: string,
+  seeds: (number | undefined)[] = [],
+): { tree: VersionTree; childIds: string[] } => {
+  const parent = tree.nodes[parentId];
+  if (!parent) {
+    throw new Error(`Versão desconhecida: ${parentId}`);
+  }
+  const children = imageUrls.map((url, index) => createNode(url, parentId, prompt, seeds[index]));
+  const nodes = { ...tree.nodes };
+  children.forEach(child => { nodes[child.id] = child; });
+  nodes[parentId] = { ...parent, childIds: [...parent.childIds, ...children.map(child => child.id)] };
+  return { tree: { ...tree, nodes }, childIds: children.map(child => child.id) };
+};
+
+export const getVersionPath = (tree: VersionTree, nodeId: string): VersionNode[] => {
+  const path: VersionNode[] = [];
+  let node: VersionNode | undefined = tree.nodes[nodeId];
+  while (node) {
+    path.unshift(node);
+    node = node.parentId ? tree.nodes[node.parentId] : undefined;
+  }
+  return path;
+};
+
+export const flattenVersionTree = (tree: VersionTree): { node: VersionNode; depth: number }[] => {
+  const result: { node: VersionNode; depth: number }[] = [];
+  const visit = (id: string, depth: number) => {
+    const node = tree.nodes[id];
+    if (!node) return;
+    result.push({ node, depth });
+    node.childIds.forEach(childId => visit(childId, depth + 1));
+  };
+  visit(tree.rootId, 0);
+  return result;
+};
+
+export const getVersionLabel = (tree: VersionTree, id: string): string => {
+  if (id === tree.rootId) return translate('versions.original');
+  const indexes = getVersionPath(tree, id).slice(1).map(node => {
+    const siblings = tree.nodes[node.parentId!].childIds;
+    return siblings.indexOf(node.id) + 1;
+  });
+  return `V${indexes.join('.')}`;
+};
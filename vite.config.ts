@@ -1,18 +1,34 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Lists the hashed bundles of the build so public/sw.js can precache them for offline starts.
+const precacheManifest = (): Plugin => ({
+  name: 'precache-manifest',
+  apply: 'build',
+  generateBundle(_, bundle) {
+    const urls = Object.values(bundle).map(file => `/${file.fileName}`).filter(url => url.startsWith('/assets/'));
+    if (urls.length === 0) return;
+    this.emitFile({ type: 'asset', fileName: 'precache-manifest.json', source: JSON.stringify(urls) });
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': `http://localhost:${env.PROXY_PORT || 8787}`,
+        },
       },
-      plugins: [react()],
+      plugins: [react(), precacheManifest()],
+      // Only non-secret settings reach the browser; the Gemini key stays with the proxy in server/.
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.IMAGE_PROVIDER': JSON.stringify(env.IMAGE_PROVIDER),
+        'process.env.PROXY_URL': JSON.stringify(env.PROXY_URL),
+        'process.env.NODE_ENV': JSON.stringify(mode)
       },
       resolve: {
         alias: {